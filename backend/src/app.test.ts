@@ -0,0 +1,75 @@
+import fs from 'fs'
+import path from 'path'
+import request from 'supertest'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+const SAMPLE_EMAIL = fs.readFileSync(path.join(process.cwd(), '../data/sample_email_1.txt'), 'utf-8')
+
+function mime(messageId: string, body: string): string {
+  return [
+    'From: John Smith <john@example.com>',
+    'To: orders@example.com',
+    'Subject: Order',
+    `Message-ID: ${messageId}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body
+  ].join('\r\n')
+}
+
+describe('POST /api/orders/process-batch', () => {
+  let app: typeof import('./app')
+
+  beforeAll(async () => {
+    // Offline: replay provider, in-memory orders and jobs
+    vi.stubEnv('GEMINI_API_KEY', '')
+    vi.stubEnv('LLM_PROVIDER', '')
+    vi.stubEnv('ORDER_STORE', 'memory')
+    vi.stubEnv('JOB_QUEUE', 'memory')
+    app = await import('./app')
+  })
+
+  afterAll(async () => {
+    await app.jobQueue.stop()
+    vi.unstubAllEnvs()
+  })
+
+  it('queues every email and reports duplicates and unreadable ones', async () => {
+    const response = await request(app.default)
+      .post('/api/orders/process-batch')
+      .send({
+        emails: [
+          mime('<batch-1@example.com>', SAMPLE_EMAIL),
+          mime('<batch-1@example.com>', SAMPLE_EMAIL),
+          mime('<batch-2@example.com>', '')
+        ]
+      })
+
+    expect(response.status).toBe(202)
+    expect(response.body.data).toMatchObject({ total: 3, queued: 1, duplicates: 1, rejected: 1 })
+    expect(response.body.data.items.map((item: { status: string }) => item.status)).toEqual(['queued', 'duplicate', 'rejected'])
+  })
+
+  it('waits for the outcome when asked to', async () => {
+    const response = await request(app.default)
+      .post('/api/orders/process-batch?wait=true')
+      .send({ emails: [mime('<batch-3@example.com>', SAMPLE_EMAIL)] })
+
+    expect(response.status).toBe(200)
+    expect(response.body.data).toMatchObject({ total: 1, completed: 1 })
+    const [item] = response.body.data.items
+    const order = await request(app.default).get(`/api/orders/${item.order_id}`)
+    expect(order.body.data.message_id).toBe('<batch-3@example.com>')
+    expect(order.body.data.line_items).toHaveLength(4)
+  })
+
+  it('rejects a body that is not a batch', async () => {
+    const response = await request(app.default)
+      .post('/api/orders/process-batch')
+      .set('Content-Type', 'application/zip')
+      .send(Buffer.from('not a zip'))
+
+    expect(response.status).toBe(400)
+    expect(response.body.error.code).toBe('INVALID_BATCH')
+  })
+})
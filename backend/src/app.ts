@@ -3,6 +3,30 @@ import cors from 'cors'
 import { logger } from './utils/logger'
 import { ProductCatalogService } from './services/product-catalog-service'
 import { EmailProcessor } from './services/gemini/email-processor'
+import { createLLMProvider } from './services/llm'
+import { CatalogRetriever } from './services/gemini/catalog-retriever'
+import { LineItemResolver } from './services/line-item-resolver'
+import { ConfidenceScorer } from './services/confidence-scorer'
+import { ThreadSegmenter } from './services/thread-segmenter'
+import { RuleBasedExtractor } from './services/rule-based-extractor'
+import { OrderValidationService } from './services/order-validation-service'
+import { OrderService } from './services/order-service'
+import { CustomerService } from './services/customer-service'
+import { DuplicateDetector } from './services/duplicate-detector'
+import { PricingEngine } from './services/pricing-engine'
+import { CurrencyService } from './services/currency-service'
+import { TaxService } from './services/tax-service'
+import { InventoryService } from './services/inventory-service'
+import { FulfillmentPlanError, FulfillmentPlanner } from './services/fulfillment-planner'
+import { AlternativesRecommender } from './services/alternatives-recommender'
+import { QuantityAdjustmentError, QuantityAdvisor } from './services/quantity-advisor'
+import { ApprovalPolicyEngine, ApprovalPolicyError, parseApprovalPolicy } from './services/approval-policy'
+import { OrderLifecycle, OrderTransitionError } from './services/order-lifecycle'
+import { createCustomerRepository, createInventoryRepository, createOrderRepository } from './repositories'
+import { BatchFormatError, BatchParser, MailIngestionService, MimeParser, type BatchItem } from './services/ingestion'
+import { EventBus, RealtimeServer } from './services/realtime'
+import { JobQueue, PRIORITY_RANK, createJobStore, type Job, type JobPriority } from './services/jobs'
+import type { OrderStatus, RawOrder } from '../../shared/types/core'
 import { PDFGenerator, convertToPDFFormat } from './services/pdf-generator'
 
 const app = express()
@@ -14,13 +38,90 @@ app.use(express.urlencoded({ extended: true }))
 
 // Services
 const productCatalog = new ProductCatalogService()
-const emailProcessor = new EmailProcessor()
+const emailProcessor = new EmailProcessor(createLLMProvider())
+const catalogRetriever = new CatalogRetriever(productCatalog)
+const lineItemResolver = new LineItemResolver(productCatalog)
+const confidenceScorer = new ConfidenceScorer()
+const threadSegmenter = new ThreadSegmenter()
+const currencyService = new CurrencyService()
+const pricingEngine = new PricingEngine(productCatalog, currencyService, new TaxService())
+const orderRepository = createOrderRepository()
+const events = new EventBus()
+export const realtime = new RealtimeServer(events)
+const inventoryService = new InventoryService(createInventoryRepository(), productCatalog, events)
+const fulfillmentPlanner = new FulfillmentPlanner(productCatalog, inventoryService)
+const alternativesRecommender = new AlternativesRecommender(productCatalog, inventoryService)
+const quantityAdvisor = new QuantityAdvisor(productCatalog, inventoryService, pricingEngine)
+const orderValidation = new OrderValidationService(
+  productCatalog,
+  pricingEngine,
+  inventoryService,
+  fulfillmentPlanner,
+  alternativesRecommender,
+  quantityAdvisor
+)
+const customerService = new CustomerService(createCustomerRepository(), orderRepository, productCatalog, pricingEngine)
+const orderLifecycle = new OrderLifecycle(orderRepository, events, inventoryService)
+const duplicateDetector = new DuplicateDetector(orderRepository)
+const approvalPolicy = new ApprovalPolicyEngine(pricingEngine, inventoryService, customerService)
+const orderService = new OrderService(
+  orderRepository,
+  orderLifecycle,
+  events,
+  customerService,
+  duplicateDetector,
+  pricingEngine,
+  fulfillmentPlanner,
+  quantityAdvisor,
+  approvalPolicy
+)
 const pdfGenerator = new PDFGenerator()
+const mimeParser = new MimeParser()
+const ruleExtractor = new RuleBasedExtractor()
+const batchParser = new BatchParser()
+
+interface ProcessEmailJob {
+  raw_order: RawOrder
+}
+
+interface BatchOutcome {
+  index: number
+  name: string
+  status: 'queued' | 'duplicate' | 'rejected' | 'completed' | 'failed'
+  job_id?: string
+  order_id?: string
+  message_id?: string
+  error?: string
+}
+
+// How long ?wait=true holds a batch request open for its jobs
+const BATCH_WAIT_MS = 5 * 60 * 1000
+
+export const jobQueue = new JobQueue<ProcessEmailJob>(createJobStore(), job => processEmailJob(job), {
+  concurrency: Number(process.env.JOB_CONCURRENCY || 2),
+  maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS || 4),
+  backoffMs: Number(process.env.JOB_BACKOFF_MS || 2000)
+})
+jobQueue.onChange(job => events.publish({ type: 'job.updated', job: toJobStatus(job) }))
+
+// Approved orders grow the customer master data
+events.subscribe(event => {
+  if (event.type !== 'order.status_changed' || event.to !== 'approved') return
+  customerService.recordApprovedOrder(event.order)
+    .catch(error => logger.error('Failed to update customer from order', { error, order_id: event.order.id }))
+})
+
+export const mailIngestion = new MailIngestionService(
+  async rawOrder => { await enqueueEmail(rawOrder) },
+  async messageId => Boolean(await orderService.findByMessageId(messageId)),
+  mimeParser
+)
 
 // Initialize services
 async function initializeServices() {
   try {
     await productCatalog.loadCatalog()
+    jobQueue.start()
     logger.info('Services initialized successfully')
   } catch (error) {
     logger.error('Failed to initialize services', { error })
@@ -28,13 +129,147 @@ async function initializeServices() {
   }
 }
 
+// Map lifecycle errors to HTTP responses
+function sendTransitionError(res: express.Response, error: OrderTransitionError) {
+  const status = error.code === 'ORDER_NOT_FOUND' ? 404
+    : error.code === 'ILLEGAL_TRANSITION' || error.code === 'INSUFFICIENT_STOCK' ? 409
+    : 422
+  return res.status(status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      details: { from: error.from, to: error.to }
+    }
+  })
+}
+
+// Pasted content may be a complete .eml; unpack its body and attachments first
+async function toRawOrder(emailContent: string): Promise<RawOrder> {
+  if (mimeParser.looksLikeMime(emailContent)) {
+    const parsed = await mimeParser.parse(emailContent)
+    return mailIngestion.toRawOrder(parsed, emailContent, 'api')
+  }
+
+  return {
+    id: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    raw_email: emailContent,
+    source: 'api',
+    timestamp: new Date(),
+    metadata: {}
+  }
+}
+
+// Split off quoted history, retrieve catalog context, extract with the LLM and
+// verify SKUs against the catalog
+async function extractOrder(emailContent: string, options: { allowFallback?: boolean, sender?: string } = {}) {
+  // Only the latest message of a reply/forward chain is a source of line items
+  const thread = threadSegmenter.segment(emailContent)
+
+  // Shortlist the catalog products this email most likely refers to
+  const context = await catalogRetriever.buildContext(thread.current_text)
+
+  // What we know about a returning customer helps with vague references
+  const hints = ruleExtractor.extract(thread.current_text).customer_info
+  const customer = await customerService.match({
+    email: hints.email || options.sender,
+    name: hints.name,
+    company: hints.company
+  })
+
+  const processed = await emailProcessor.processEmail({
+    email_content: thread.current_text,
+    context: {
+      ...context,
+      thread_history: thread.history,
+      customer_history: customer ? [customerService.profile(customer.customer)] : undefined
+    },
+    options: { temperature: 0.1, max_tokens: 2000, allow_fallback: options.allowFallback }
+  })
+
+  // Thread details belong to this email only; never write them into the processor's result
+  const extracted = thread.history.length > 0 || thread.amendment.length > 0
+    ? { ...processed, thread: { message_count: thread.history.length + 1, amendment: thread.amendment } }
+    : processed
+
+  // Verify model SKUs against the full catalog
+  const resolved = await lineItemResolver.resolve(extracted)
+
+  // Per-field confidence from model scores plus deterministic checks
+  return confidenceScorer.score(resolved)
+}
+
+// Queue an email for extraction; urgency cues in the text set its priority
+async function enqueueEmail(rawOrder: RawOrder, priority?: JobPriority) {
+  return jobQueue.enqueue({ raw_order: rawOrder }, {
+    priority: priority || ruleExtractor.extract(rawOrder.raw_email).delivery_info.urgency,
+    dedupe_key: rawOrder.metadata.headers?.['message-id']
+  })
+}
+
+// Worker for queued emails: the same pipeline as POST /api/orders
+async function processEmailJob(job: Job<ProcessEmailJob>) {
+  // The payload went through JSON in the job store
+  const rawOrder = { ...job.payload.raw_order, timestamp: new Date(job.payload.raw_order.timestamp) }
+
+  const messageId = rawOrder.metadata.headers?.['message-id']
+  const existing = messageId ? await orderService.findByMessageId(messageId) : null
+  if (existing) {
+    return { order_id: existing.id, duplicate: true }
+  }
+
+  // Model outages are retried; only the last attempt settles for the rule-based fallback
+  const result = await extractOrder(rawOrder.raw_email, {
+    allowFallback: job.attempts >= job.max_attempts,
+    sender: rawOrder.metadata.sender_email
+  })
+  const order = await orderService.createFromExtraction(rawOrder.raw_email, result, rawOrder)
+  return { order_id: order.id, status: order.status }
+}
+
+// Queue one email of a batch; duplicates of known or already queued messages are skipped
+async function enqueueBatchItem(index: number, item: BatchItem, batchJobs: Set<string>): Promise<BatchOutcome> {
+  const outcome = { index, name: item.name }
+
+  try {
+    const rawOrder = await toRawOrder(item.content)
+    if (!rawOrder.raw_email.trim()) {
+      return { ...outcome, status: 'rejected', error: 'Email has no text content' }
+    }
+
+    const messageId = rawOrder.metadata.headers?.['message-id']
+    const existing = messageId ? await orderService.findByMessageId(messageId) : null
+    if (existing) {
+      return { ...outcome, status: 'duplicate', message_id: messageId, order_id: existing.id }
+    }
+
+    const job = await enqueueEmail(rawOrder)
+    if (batchJobs.has(job.id)) {
+      return { ...outcome, status: 'duplicate', message_id: messageId, job_id: job.id }
+    }
+    batchJobs.add(job.id)
+
+    return { ...outcome, status: 'queued', message_id: messageId, job_id: job.id }
+
+  } catch (error: any) {
+    return { ...outcome, status: 'rejected', error: error.message }
+  }
+}
+
+// Job status without the queued email itself
+function toJobStatus(job: Job<ProcessEmailJob>) {
+  const { payload, ...status } = job
+  return { ...status, raw_order_id: payload.raw_order.id }
+}
+
 // Routes
 app.get('/health', (req, res) => {
   res.json({ 
     status: 'healthy', 
     timestamp: new Date().toISOString(),
     services: {
-      catalog: productCatalog.getStats()
+      catalog: productCatalog.getStats(),
+      realtime_clients: realtime.clientCount
     }
   })
 })
@@ -50,26 +285,22 @@ app.post('/api/orders/process-email', async (req, res) => {
       })
     }
 
-    // Get sample of product catalog for AI context
-    const allProducts = await productCatalog.getAllProducts()
-    const productSample = allProducts.slice(0, 50) // Give AI a sample of 50 products
-
-    // Process with Gemini
-    const result = await emailProcessor.processEmail({
-      email_content,
-      context: {
-        product_catalog_sample: productSample
-      },
-      options: { temperature: 0.1, max_tokens: 2000 }
+    const rawOrder = await toRawOrder(email_content)
+    const result = await extractOrder(rawOrder.raw_email, { sender: rawOrder.metadata.sender_email })
+    const processedOrder = confidenceScorer.toProcessedOrder(result, {
+      ...rawOrder,
+      metadata: { sender_email: result.customer_info.email, ...rawOrder.metadata }
     })
 
     res.json({
       success: true,
-      data: result,
+      data: processedOrder,
       metadata: {
         timestamp: new Date(),
         request_id: `req_${Date.now()}`,
-        processing_time_ms: 0
+        processing_time_ms: 0,
+        processing_notes: result.processing_notes,
+        fallback_used: result.fallback_used
       }
     })
 
@@ -86,132 +317,1242 @@ app.post('/api/orders/process-email', async (req, res) => {
   }
 })
 
-app.get('/api/products/search', async (req, res) => {
+app.post('/api/orders', async (req, res) => {
   try {
-    const { q: query, limit = '20' } = req.query as { q?: string, limit?: string }
-    
-    if (!query) {
+    const { email_content } = req.body
+
+    if (!email_content) {
       return res.status(400).json({
         success: false,
-        error: { code: 'MISSING_QUERY', message: 'Search query is required' }
+        error: { code: 'MISSING_EMAIL', message: 'Email content is required' }
       })
     }
 
-    const results = await productCatalog.searchProducts(query, parseInt(limit))
-    
+    const rawOrder = await toRawOrder(email_content)
+    const messageId = rawOrder.metadata.headers?.['message-id']
+    const existing = messageId ? await orderService.findByMessageId(messageId) : null
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'DUPLICATE_MESSAGE',
+          message: `Message ${messageId} was already processed as order ${existing.id}`,
+          details: { order_id: existing.id }
+        }
+      })
+    }
+
+    const result = await extractOrder(rawOrder.raw_email, { sender: rawOrder.metadata.sender_email })
+    const order = await orderService.createFromExtraction(rawOrder.raw_email, result, rawOrder)
+
+    res.status(201).json({
+      success: true,
+      data: order
+    })
+
+  } catch (error) {
+    logger.error('Order creation failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_CREATE_ERROR', message: 'Failed to create order' }
+    })
+  }
+})
+
+app.get('/api/orders', async (req, res) => {
+  try {
+    const { status, limit, offset } = req.query as { status?: string, limit?: string, offset?: string }
+
+    const result = await orderService.listOrders({
+      status: status as OrderStatus | undefined,
+      limit: limit ? parseInt(limit) : undefined,
+      offset: offset ? parseInt(offset) : undefined
+    })
+
     res.json({
       success: true,
-      data: results
+      data: result
     })
 
   } catch (error) {
-    logger.error('Product search failed', { error })
+    logger.error('Order listing failed', { error })
     res.status(500).json({
       success: false,
-      error: { code: 'SEARCH_ERROR', message: 'Product search failed' }
+      error: { code: 'ORDER_LIST_ERROR', message: 'Failed to fetch orders' }
     })
   }
 })
 
-app.get('/api/products/:sku', async (req, res) => {
+app.get('/api/orders/stats', async (req, res) => {
   try {
-    const { sku } = req.params
-    const product = await productCatalog.findBySKU(sku)
-    
-    if (!product) {
+    const stats = await orderService.getStats()
+
+    res.json({
+      success: true,
+      data: stats
+    })
+
+  } catch (error) {
+    logger.error('Order stats failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_STATS_ERROR', message: 'Failed to fetch order stats' }
+    })
+  }
+})
+
+app.get('/api/orders/:id', async (req, res) => {
+  try {
+    const order = await orderService.getOrder(req.params.id)
+
+    if (!order) {
       return res.status(404).json({
         success: false,
-        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${sku} not found` }
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
       })
     }
 
     res.json({
       success: true,
-      data: product
+      data: order
     })
 
   } catch (error) {
-    logger.error('Product lookup failed', { error })
+    logger.error('Order lookup failed', { error })
     res.status(500).json({
       success: false,
-      error: { code: 'LOOKUP_ERROR', message: 'Product lookup failed' }
+      error: { code: 'ORDER_LOOKUP_ERROR', message: 'Failed to fetch order' }
     })
   }
 })
 
-app.post('/api/products/validate', async (req, res) => {
+app.patch('/api/orders/:id', async (req, res) => {
   try {
-    const { sku, quantity } = req.body
-    
-    if (!sku || !quantity) {
+    const { actor = 'api', reason, ...changes } = req.body || {}
+    const order = await orderService.updateOrder(req.params.id, changes, { actor, reason })
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: order
+    })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Order update failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_UPDATE_ERROR', message: 'Failed to update order' }
+    })
+  }
+})
+
+app.post('/api/orders/:id/status', async (req, res) => {
+  try {
+    const { status, actor, reason } = req.body
+
+    if (!status || !actor) {
       return res.status(400).json({
         success: false,
-        error: { code: 'MISSING_PARAMS', message: 'SKU and quantity are required' }
+        error: { code: 'MISSING_PARAMS', message: 'Status and actor are required' }
       })
     }
 
-    const validation = await productCatalog.validateOrder(sku, parseInt(quantity))
-    
+    const order = await orderService.changeStatus(req.params.id, status, { actor, reason })
+
     res.json({
       success: true,
-      data: validation
+      data: order
     })
 
   } catch (error) {
-    logger.error('Product validation failed', { error })
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Order status change failed', { error })
     res.status(500).json({
       success: false,
-      error: { code: 'VALIDATION_ERROR', message: 'Product validation failed' }
+      error: { code: 'ORDER_STATUS_ERROR', message: 'Failed to change order status' }
     })
   }
 })
 
-// PDF Generation endpoint
-app.post('/api/orders/generate-pdf', async (req, res) => {
+app.post('/api/orders/:id/flags/:index/dismiss', async (req, res) => {
   try {
-    const { order_data, line_items = [] } = req.body
-    
-    if (!order_data) {
+    const { actor, reason } = req.body || {}
+
+    if (!actor || !reason) {
       return res.status(400).json({
         success: false,
-        error: { code: 'MISSING_ORDER_DATA', message: 'Order data is required' }
+        error: { code: 'MISSING_PARAMS', message: 'Actor and reason are required' }
       })
     }
 
-    // Get product information for pricing
-    const products = await Promise.all(
-      line_items.map(async (item: any) => {
-        if (item.extracted_sku) {
-          return await productCatalog.findBySKU(item.extracted_sku)
-        }
-        return null
+    const order = await orderService.dismissFlag(req.params.id, Number(req.params.index), { actor, reason })
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'FLAG_NOT_FOUND', message: `Flag ${req.params.index} not found on order ${req.params.id}` }
       })
-    )
+    }
 
-    const validProducts = products.filter(Boolean)
-    
-    // Convert to PDF format
-    const pdfData = convertToPDFFormat(order_data, line_items, validProducts)
-    
-    // Generate PDF
-    const pdfBuffer = await pdfGenerator.generateSalesOrderPDF(pdfData)
-    
-    // Set headers for PDF download
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', `attachment; filename="sales-order-${pdfData.order_id}.pdf"`)
-    res.setHeader('Content-Length', pdfBuffer.length)
-    
-    res.send(pdfBuffer)
+    res.json({
+      success: true,
+      data: order
+    })
 
   } catch (error) {
-    logger.error('PDF generation failed', { error })
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Flag dismissal failed', { error })
     res.status(500).json({
       success: false,
-      error: { 
-        code: 'PDF_GENERATION_ERROR', 
-        message: 'Failed to generate PDF',
-        details: error
-      }
+      error: { code: 'FLAG_DISMISS_ERROR', message: 'Failed to dismiss flag' }
+    })
+  }
+})
+
+app.post('/api/orders/:id/review', async (req, res) => {
+  try {
+    const { changes, actor, reason } = req.body
+
+    if (!changes || typeof changes !== 'object' || !actor) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_PARAMS', message: 'Changes and actor are required' }
+      })
+    }
+
+    const order = await orderService.applyReviewEdits(req.params.id, changes, { actor, reason })
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: order
+    })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Order review failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_REVIEW_ERROR', message: 'Failed to save review changes' }
+    })
+  }
+})
+
+// Reviewer decision on a suspected duplicate: merge it into the original or dismiss the flag
+app.post('/api/orders/:id/duplicate', async (req, res) => {
+  try {
+    const { action, actor, reason } = req.body || {}
+
+    if (!['merge', 'dismiss'].includes(action) || !actor) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_PARAMS', message: 'Action (merge or dismiss) and actor are required' }
+      })
+    }
+
+    const order = await orderService.getOrder(req.params.id)
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    if (!order.duplicate_of) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'NOT_A_DUPLICATE', message: `Order ${order.id} is not flagged as a duplicate` }
+      })
+    }
+
+    const result = action === 'merge'
+      ? await orderService.mergeDuplicate(order.id, { actor, reason })
+      : { order: await orderService.dismissDuplicate(order.id, { actor, reason }) }
+
+    if (!result?.order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Original order ${order.duplicate_of} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Duplicate resolution failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'DUPLICATE_RESOLUTION_ERROR', message: 'Failed to resolve duplicate' }
+    })
+  }
+})
+
+// Ways to ship an order whose stock is short (empty when everything is available)
+app.get('/api/orders/:id/fulfillment-plans', async (req, res) => {
+  try {
+    const order = await orderService.getOrder(req.params.id)
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: await fulfillmentPlanner.plan(order.id, order.line_items, order.delivery_date)
+    })
+
+  } catch (error) {
+    logger.error('Fulfilment planning failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'PLANNING_ERROR', message: 'Failed to plan fulfilment' }
+    })
+  }
+})
+
+// Reviewer picks a plan: { plan_id, actor, reason? }; a split creates the backorder orders
+app.post('/api/orders/:id/fulfillment-plan', async (req, res) => {
+  try {
+    const { plan_id, actor, reason } = req.body || {}
+
+    if (!plan_id || !actor) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_FIELDS', message: 'plan_id and actor are required' }
+      })
+    }
+
+    const result = await orderService.applyFulfillmentPlan(req.params.id, plan_id, { actor, reason })
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof FulfillmentPlanError) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'PLAN_NOT_AVAILABLE', message: error.message }
+      })
+    }
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Applying fulfilment plan failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'PLANNING_ERROR', message: 'Failed to apply fulfilment plan' }
+    })
+  }
+})
+
+app.post('/api/orders/:id/suggestions/:suggestionId/accept', async (req, res) => {
+  try {
+    const { actor, reason } = req.body || {}
+
+    if (!actor) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_PARAMS', message: 'Actor is required' }
+      })
+    }
+
+    const order = await orderService.acceptSuggestion(req.params.id, req.params.suggestionId, { actor, reason })
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'SUGGESTION_NOT_FOUND', message: `Suggestion ${req.params.suggestionId} not found on order ${req.params.id}` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: order
+    })
+
+  } catch (error) {
+    if (error instanceof QuantityAdjustmentError) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'SUGGESTION_NOT_APPLICABLE', message: error.message }
+      })
+    }
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error)
+    }
+    logger.error('Accepting suggestion failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'SUGGESTION_ERROR', message: 'Failed to accept suggestion' }
+    })
+  }
+})
+
+app.get('/api/orders/:id/history', async (req, res) => {
+  try {
+    const history = await orderLifecycle.getHistory(req.params.id)
+
+    res.json({
+      success: true,
+      data: history
+    })
+
+  } catch (error) {
+    logger.error('Order history lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_HISTORY_ERROR', message: 'Failed to fetch order history' }
+    })
+  }
+})
+
+app.get('/api/orders/:id/transitions', async (req, res) => {
+  try {
+    const order = await orderService.getOrder(req.params.id)
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: { status: order.status, allowed: orderLifecycle.allowedTransitions(order.status) }
+    })
+
+  } catch (error) {
+    logger.error('Order transitions lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_TRANSITIONS_ERROR', message: 'Failed to fetch order transitions' }
+    })
+  }
+})
+
+app.delete('/api/orders/:id', async (req, res) => {
+  try {
+    const deleted = await orderService.deleteOrder(req.params.id)
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: { id: req.params.id }
+    })
+
+  } catch (error) {
+    logger.error('Order deletion failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ORDER_DELETE_ERROR', message: 'Failed to delete order' }
+    })
+  }
+})
+
+app.get('/api/customers', async (req, res) => {
+  try {
+    const { search, limit, offset } = req.query as { search?: string, limit?: string, offset?: string }
+
+    const result = await customerService.listCustomers({
+      search,
+      limit: limit ? parseInt(limit) : undefined,
+      offset: offset ? parseInt(offset) : undefined
+    })
+
+    res.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    logger.error('Customer listing failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'CUSTOMER_LIST_ERROR', message: 'Failed to fetch customers' }
+    })
+  }
+})
+
+app.get('/api/customers/:id', async (req, res) => {
+  try {
+    const customer = await customerService.getCustomer(req.params.id)
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'CUSTOMER_NOT_FOUND', message: `Customer ${req.params.id} not found` }
+      })
+    }
+
+    const { orders } = await orderService.listOrders({ customer_id: customer.id, limit: 20 })
+
+    res.json({
+      success: true,
+      data: { ...customer, recent_orders: orders }
+    })
+
+  } catch (error) {
+    logger.error('Customer lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'CUSTOMER_LOOKUP_ERROR', message: 'Failed to fetch customer' }
+    })
+  }
+})
+
+app.patch('/api/customers/:id', async (req, res) => {
+  try {
+    const changes = req.body || {}
+
+    if (changes.currency && !currencyService.isSupported(String(changes.currency))) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'UNSUPPORTED_CURRENCY', message: `No exchange rate for ${changes.currency}` }
+      })
+    }
+
+    const customer = await customerService.updateCustomer(req.params.id, changes)
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'CUSTOMER_NOT_FOUND', message: `Customer ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: customer
+    })
+
+  } catch (error) {
+    logger.error('Customer update failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'CUSTOMER_UPDATE_ERROR', message: 'Failed to update customer' }
+    })
+  }
+})
+
+// Fold a duplicate customer record (source_id) into this one
+app.post('/api/customers/:id/merge', async (req, res) => {
+  try {
+    const { source_id } = req.body || {}
+
+    if (!source_id) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_SOURCE', message: 'source_id of the duplicate customer is required' }
+      })
+    }
+
+    const customer = await customerService.merge(req.params.id, source_id)
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'CUSTOMER_NOT_FOUND', message: 'Both customers must exist' }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: customer
+    })
+
+  } catch (error) {
+    logger.error('Customer merge failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'CUSTOMER_MERGE_ERROR', message: 'Failed to merge customers' }
+    })
+  }
+})
+
+app.get('/api/products/search', async (req, res) => {
+  try {
+    const { q: query, limit = '20' } = req.query as { q?: string, limit?: string }
+    
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_QUERY', message: 'Search query is required' }
+      })
+    }
+
+    const results = await productCatalog.searchProducts(query, parseInt(limit))
+    
+    res.json({
+      success: true,
+      data: results
+    })
+
+  } catch (error) {
+    logger.error('Product search failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'SEARCH_ERROR', message: 'Product search failed' }
+    })
+  }
+})
+
+app.get('/api/products/:sku', async (req, res) => {
+  try {
+    const { sku } = req.params
+    const product = await productCatalog.findBySKU(sku)
+    
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${sku} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: product
+    })
+
+  } catch (error) {
+    logger.error('Product lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'LOOKUP_ERROR', message: 'Product lookup failed' }
+    })
+  }
+})
+
+app.get('/api/products/:sku/alternatives', async (req, res) => {
+  try {
+    const { sku } = req.params
+    const { quantity, limit = '3', order_id: orderId } = req.query as { quantity?: string, limit?: string, order_id?: string }
+
+    const alternatives = await alternativesRecommender.recommendFor(sku, {
+      quantity: quantity ? parseInt(quantity) : undefined,
+      limit: parseInt(limit) || 3,
+      orderId
+    })
+    if (!alternatives) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${sku} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: alternatives
+    })
+
+  } catch (error) {
+    logger.error('Alternatives lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'ALTERNATIVES_ERROR', message: 'Alternatives lookup failed' }
+    })
+  }
+})
+
+app.post('/api/products/validate', async (req, res) => {
+  try {
+    const { sku, quantity } = req.body
+    
+    if (!sku || !quantity) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_PARAMS', message: 'SKU and quantity are required' }
+      })
+    }
+
+    const available = await inventoryService.availableToPromise(sku)
+    const validation = await productCatalog.validateOrder(sku, parseInt(quantity), available ?? undefined)
+    
+    res.json({
+      success: true,
+      data: validation
+    })
+
+  } catch (error) {
+    logger.error('Product validation failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Product validation failed' }
+    })
+  }
+})
+
+app.get('/api/inventory', async (req, res) => {
+  try {
+    const { skus, below } = req.query as { skus?: string, below?: string }
+    let levels = await inventoryService.levels(skus ? skus.split(',').map(sku => sku.trim()).filter(Boolean) : undefined)
+
+    // ?below=10: only SKUs with fewer units available to promise
+    if (below !== undefined) {
+      levels = levels.filter(level => level.available < Number(below))
+    }
+
+    res.json({
+      success: true,
+      data: levels
+    })
+
+  } catch (error) {
+    logger.error('Inventory listing failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INVENTORY_LIST_ERROR', message: 'Failed to fetch stock levels' }
+    })
+  }
+})
+
+app.get('/api/inventory/:sku', async (req, res) => {
+  try {
+    const level = await inventoryService.level(req.params.sku)
+
+    if (!level) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${req.params.sku} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: { ...level, movements: await inventoryService.history(level.sku) }
+    })
+
+  } catch (error) {
+    logger.error('Inventory lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INVENTORY_LOOKUP_ERROR', message: 'Failed to fetch stock level' }
+    })
+  }
+})
+
+// Goods received: { quantity, actor?, note? }
+app.post('/api/inventory/:sku/receipts', async (req, res) => {
+  try {
+    const { quantity, actor = 'api', note } = req.body || {}
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_QUANTITY', message: 'quantity must be a positive whole number' }
+      })
+    }
+
+    const level = await inventoryService.receive(req.params.sku, quantity, actor, note)
+
+    if (!level) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${req.params.sku} not found` }
+      })
+    }
+
+    res.status(201).json({
+      success: true,
+      data: level
+    })
+
+  } catch (error) {
+    logger.error('Stock receipt failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INVENTORY_UPDATE_ERROR', message: 'Failed to record stock receipt' }
+    })
+  }
+})
+
+// Stock-count correction: { change (signed), note, actor? }
+app.post('/api/inventory/:sku/adjustments', async (req, res) => {
+  try {
+    const { change, actor = 'api', note } = req.body || {}
+
+    if (!Number.isInteger(change) || change === 0 || !note?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ADJUSTMENT', message: 'A non-zero whole-number change and a note are required' }
+      })
+    }
+
+    const level = await inventoryService.adjust(req.params.sku, change, actor, note)
+
+    if (!level) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${req.params.sku} not found` }
+      })
+    }
+
+    res.status(201).json({
+      success: true,
+      data: level
+    })
+
+  } catch (error) {
+    logger.error('Stock adjustment failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INVENTORY_UPDATE_ERROR', message: 'Failed to record stock adjustment' }
+    })
+  }
+})
+
+// Stock an approved order holds, per SKU
+app.get('/api/orders/:id/reservations', async (req, res) => {
+  try {
+    const reserved = await inventoryService.reservedFor(req.params.id)
+
+    res.json({
+      success: true,
+      data: Array.from(reserved.entries()).map(([sku, quantity]) => ({ sku, quantity }))
+    })
+
+  } catch (error) {
+    logger.error('Reservation lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INVENTORY_LOOKUP_ERROR', message: 'Failed to fetch reservations' }
+    })
+  }
+})
+
+// What the approval policy decides for the order as it stands, and the facts it used
+app.get('/api/orders/:id/policy', async (req, res) => {
+  try {
+    const decision = await orderService.policyDecision(req.params.id)
+
+    if (!decision) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: `Order ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: decision
+    })
+
+  } catch (error) {
+    logger.error('Policy evaluation failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'POLICY_ERROR', message: 'Failed to evaluate approval policy' }
+    })
+  }
+})
+
+app.get('/api/policy', (_req, res) => {
+  res.json({
+    success: true,
+    data: approvalPolicy.current
+  })
+})
+
+// Try a policy (default: the current one) against stored orders without changing them
+app.post('/api/policy/dry-run', async (req, res) => {
+  try {
+    const { policy, status, limit = 200 } = req.body || {}
+    const candidate = policy ? parseApprovalPolicy(policy) : approvalPolicy.current
+    const { orders } = await orderService.listOrders({ status, limit: Math.min(Number(limit) || 200, 1000) })
+
+    res.json({
+      success: true,
+      data: await approvalPolicy.dryRun(orders, candidate)
+    })
+
+  } catch (error) {
+    if (error instanceof ApprovalPolicyError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_POLICY', message: error.message }
+      })
+    }
+    logger.error('Policy dry run failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'POLICY_ERROR', message: 'Failed to run the approval policy' }
+    })
+  }
+})
+
+app.post('/api/orders/:id/validate', async (req, res) => {
+  try {
+    const { id } = req.params
+    let { line_items } = req.body
+    const order = await orderService.getOrder(id)
+
+    // Fall back to the stored order when the client does not send the items
+    if (!line_items) {
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'ORDER_NOT_FOUND', message: `Order ${id} not found` }
+        })
+      }
+      line_items = order.line_items
+    }
+
+    if (!Array.isArray(line_items) || line_items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_LINE_ITEMS', message: 'At least one line item is required' }
+      })
+    }
+
+    // Customer-tier discounts and the billing currency need the matched customer
+    const customer = order?.customer_id ? await customerService.getCustomer(order.customer_id) : null
+    const validation = await orderValidation.validateOrder(
+      id,
+      line_items,
+      order ? pricingEngine.contextFor(order, customer) : { customer },
+      order?.delivery_date
+    )
+    events.publish({ type: 'order.validated', validation })
+
+    res.json({
+      success: true,
+      data: validation
+    })
+
+  } catch (error) {
+    logger.error('Order validation failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Order validation failed' }
+    })
+  }
+})
+
+// PDF Generation endpoint
+app.post('/api/orders/generate-pdf', async (req, res) => {
+  try {
+    const { order_data, line_items = [] } = req.body
+    
+    if (!order_data) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_ORDER_DATA', message: 'Order data is required' }
+      })
+    }
+
+    // Price and tax the lines for the stored order's customer, currency and destination
+    const stored = order_data.id ? await orderService.getOrder(order_data.id) : null
+    const customer = stored?.customer_id ? await customerService.getCustomer(stored.customer_id) : null
+    const pricing = await pricingEngine.priceOrder(line_items, pricingEngine.contextFor({
+      currency: stored?.currency,
+      delivery_address: order_data.delivery_info?.address || stored?.delivery_address
+    }, customer))
+
+    // Convert to PDF format
+    const pdfData = convertToPDFFormat(order_data, line_items, pricing)
+    
+    // Generate PDF
+    const pdfBuffer = await pdfGenerator.generateSalesOrderPDF(pdfData)
+    
+    // Set headers for PDF download
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="sales-order-${pdfData.order_id}.pdf"`)
+    res.setHeader('Content-Length', pdfBuffer.length)
+    
+    res.send(pdfBuffer)
+
+  } catch (error) {
+    logger.error('PDF generation failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { 
+        code: 'PDF_GENERATION_ERROR', 
+        message: 'Failed to generate PDF',
+        details: error
+      }
+    })
+  }
+})
+
+// Many emails at once (JSON, zip of .eml/.txt or mbox); ?wait=true returns final outcomes
+app.post(
+  '/api/orders/process-batch',
+  express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/mbox'], limit: '50mb' }),
+  async (req, res) => {
+    try {
+      let items: BatchItem[]
+      try {
+        items = batchParser.parse(req.body, req.headers['content-type'])
+      } catch (error) {
+        if (error instanceof BatchFormatError) {
+          return res.status(400).json({
+            success: false,
+            error: { code: 'INVALID_BATCH', message: error.message }
+          })
+        }
+        throw error
+      }
+
+      const batchJobs = new Set<string>()
+      const outcomes: BatchOutcome[] = []
+      for (const [index, item] of items.entries()) {
+        outcomes.push(await enqueueBatchItem(index, item, batchJobs))
+      }
+
+      const wait = req.query.wait === 'true'
+      if (wait) {
+        await Promise.all(outcomes.filter(outcome => outcome.status === 'queued').map(async outcome => {
+          const job = await jobQueue.waitFor(outcome.job_id!, BATCH_WAIT_MS)
+          if (job?.status === 'completed') {
+            outcome.status = 'completed'
+            outcome.order_id = (job.result as { order_id?: string } | undefined)?.order_id
+          } else if (job?.status === 'dead') {
+            outcome.status = 'failed'
+            outcome.error = job.last_error
+          }
+        }))
+      }
+
+      const count = (status: BatchOutcome['status']) => outcomes.filter(outcome => outcome.status === status).length
+
+      res.status(wait ? 200 : 202).json({
+        success: true,
+        data: {
+          total: outcomes.length,
+          queued: count('queued'),
+          completed: count('completed'),
+          failed: count('failed'),
+          duplicates: count('duplicate'),
+          rejected: count('rejected'),
+          items: outcomes
+        }
+      })
+
+    } catch (error) {
+      logger.error('Batch processing failed', { error })
+      res.status(500).json({
+        success: false,
+        error: { code: 'BATCH_ERROR', message: 'Failed to process batch' }
+      })
+    }
+  }
+)
+
+// Accept an email for background processing; poll GET /api/jobs/:id for the order
+app.post('/api/jobs', async (req, res) => {
+  try {
+    const { email_content, priority } = req.body
+
+    if (!email_content) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_EMAIL', message: 'Email content is required' }
+      })
+    }
+
+    if (priority && !(priority in PRIORITY_RANK)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_PRIORITY', message: `Priority must be one of: ${Object.keys(PRIORITY_RANK).join(', ')}` }
+      })
+    }
+
+    const rawOrder = await toRawOrder(email_content)
+    const messageId = rawOrder.metadata.headers?.['message-id']
+    const existing = messageId ? await orderService.findByMessageId(messageId) : null
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'DUPLICATE_MESSAGE',
+          message: `Message ${messageId} was already processed as order ${existing.id}`,
+          details: { order_id: existing.id }
+        }
+      })
+    }
+
+    const job = await enqueueEmail(rawOrder, priority)
+
+    res.status(202).json({
+      success: true,
+      data: toJobStatus(job)
+    })
+
+  } catch (error) {
+    logger.error('Job enqueue failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'JOB_ENQUEUE_ERROR', message: 'Failed to queue email' }
+    })
+  }
+})
+
+app.get('/api/jobs/stats', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await jobQueue.counts()
+    })
+
+  } catch (error) {
+    logger.error('Job stats failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'JOB_STATS_ERROR', message: 'Failed to fetch job stats' }
+    })
+  }
+})
+
+// Jobs that used up their attempts (or could never succeed)
+app.get('/api/jobs/dead', async (req, res) => {
+  try {
+    const { limit } = req.query as { limit?: string }
+    const jobs = await jobQueue.listDead(limit ? parseInt(limit) : undefined)
+
+    res.json({
+      success: true,
+      data: jobs.map(toJobStatus)
+    })
+
+  } catch (error) {
+    logger.error('Dead-letter listing failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'JOB_LIST_ERROR', message: 'Failed to fetch dead-letter jobs' }
+    })
+  }
+})
+
+app.get('/api/jobs/:id', async (req, res) => {
+  try {
+    const job = await jobQueue.get(req.params.id)
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'JOB_NOT_FOUND', message: `Job ${req.params.id} not found` }
+      })
+    }
+
+    res.json({
+      success: true,
+      data: toJobStatus(job)
+    })
+
+  } catch (error) {
+    logger.error('Job lookup failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'JOB_LOOKUP_ERROR', message: 'Failed to fetch job' }
+    })
+  }
+})
+
+// Requeue a dead-lettered job
+app.post('/api/jobs/:id/retry', async (req, res) => {
+  try {
+    const job = await jobQueue.retry(req.params.id)
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'JOB_NOT_FOUND', message: `No dead-lettered job ${req.params.id}` }
+      })
+    }
+
+    res.status(202).json({
+      success: true,
+      data: toJobStatus(job)
+    })
+
+  } catch (error) {
+    logger.error('Job retry failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'JOB_RETRY_ERROR', message: 'Failed to retry job' }
+    })
+  }
+})
+
+// Raw MIME messages pushed by a mail provider's inbound webhook
+app.post('/api/ingest/email', express.text({ type: ['message/rfc822', 'text/plain'], limit: '25mb' }), async (req, res) => {
+  try {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MISSING_MESSAGE', message: 'Send the raw MIME message as message/rfc822' }
+      })
+    }
+
+    const result = await mailIngestion.ingest(req.body, 'webhook')
+
+    if (result.status === 'rejected') {
+      return res.status(422).json({
+        success: false,
+        error: { code: 'MESSAGE_REJECTED', message: result.reason }
+      })
+    }
+
+    res.status(result.status === 'queued' ? 202 : 200).json({
+      success: true,
+      data: {
+        status: result.status,
+        message_id: result.message_id,
+        raw_order_id: result.raw_order?.id
+      }
+    })
+
+  } catch (error) {
+    logger.error('Email ingestion failed', { error })
+    res.status(500).json({
+      success: false,
+      error: { code: 'INGESTION_ERROR', message: 'Failed to ingest email' }
     })
   }
 })
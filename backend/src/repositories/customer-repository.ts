@@ -0,0 +1,61 @@
+/**
+ * Product a customer orders repeatedly, kept on the customer record
+ */
+export interface TypicalProduct {
+  sku: string
+  name?: string
+  // Total quantity and number of approved orders containing it
+  quantity: number
+  orders: number
+}
+
+/**
+ * Customer row as stored in the `customers` table (see supabase-schema.sql)
+ */
+export interface CustomerRecord {
+  id: string
+  email?: string | null
+  name?: string | null
+  company?: string | null
+  phone?: string | null
+  // Default delivery address
+  address?: string | null
+  // Sender domain for company accounts (free-mail domains are never stored)
+  domain?: string | null
+  // Other sender addresses seen for this customer
+  aliases: string[]
+  typical_products: TypicalProduct[]
+  // Billing currency (ISO 4217); otherwise the destination country's
+  currency?: string | null
+  // Resale/tax-exemption certificate on file; tax_id enables reverse-charge exemptions
+  tax_exempt?: boolean
+  tax_id?: string | null
+  order_count: number
+  // Lifetime net spend in the catalog currency
+  total_spent: number
+  last_order_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type NewCustomerRecord = Omit<CustomerRecord, 'id' | 'created_at' | 'updated_at'>
+
+export type CustomerUpdate = Partial<Omit<CustomerRecord, 'id' | 'created_at' | 'updated_at'>>
+
+export interface CustomerQuery {
+  domain?: string
+  // Case-insensitive match on name, company or email
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+export interface CustomerRepository {
+  create(customer: NewCustomerRecord): Promise<CustomerRecord>
+  findById(id: string): Promise<CustomerRecord | null>
+  // Primary email or any alias
+  findByEmail(email: string): Promise<CustomerRecord | null>
+  list(query?: CustomerQuery): Promise<{ customers: CustomerRecord[], total: number }>
+  update(id: string, updates: CustomerUpdate): Promise<CustomerRecord | null>
+  delete(id: string): Promise<boolean>
+}
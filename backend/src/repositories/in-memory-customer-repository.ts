@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto'
+import type {
+  CustomerQuery,
+  CustomerRecord,
+  CustomerRepository,
+  CustomerUpdate,
+  NewCustomerRecord
+} from './customer-repository'
+
+/**
+ * Process-local customer store for development and tests without network access
+ */
+export class InMemoryCustomerRepository implements CustomerRepository {
+  private customers: Map<string, CustomerRecord> = new Map()
+
+  async create(customer: NewCustomerRecord): Promise<CustomerRecord> {
+    if (customer.email && await this.findByEmail(customer.email)) {
+      throw new Error(`Customer ${customer.email} already exists`)
+    }
+
+    const now = new Date().toISOString()
+    const record: CustomerRecord = { ...customer, id: randomUUID(), created_at: now, updated_at: now }
+    this.customers.set(record.id, record)
+    return this.copy(record)
+  }
+
+  async findById(id: string): Promise<CustomerRecord | null> {
+    const customer = this.customers.get(id)
+    return customer ? this.copy(customer) : null
+  }
+
+  async findByEmail(email: string): Promise<CustomerRecord | null> {
+    const needle = email.trim().toLowerCase()
+    const customer = Array.from(this.customers.values()).find(candidate =>
+      candidate.email?.toLowerCase() === needle || candidate.aliases.includes(needle)
+    )
+    return customer ? this.copy(customer) : null
+  }
+
+  async list(query: CustomerQuery = {}): Promise<{ customers: CustomerRecord[], total: number }> {
+    const search = query.search?.toLowerCase()
+    const matching = Array.from(this.customers.values())
+      .filter(customer => !query.domain || customer.domain === query.domain)
+      .filter(customer => !search || [customer.name, customer.company, customer.email]
+        .some(value => value?.toLowerCase().includes(search)))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+
+    const offset = query.offset || 0
+    const limit = query.limit || matching.length
+
+    return {
+      customers: matching.slice(offset, offset + limit).map(customer => this.copy(customer)),
+      total: matching.length
+    }
+  }
+
+  async update(id: string, updates: CustomerUpdate): Promise<CustomerRecord | null> {
+    const existing = this.customers.get(id)
+    if (!existing) return null
+
+    const updated: CustomerRecord = {
+      ...existing,
+      ...updates,
+      updated_at: new Date().toISOString()
+    }
+    this.customers.set(id, updated)
+    return this.copy(updated)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.customers.delete(id)
+  }
+
+  // Private helper methods
+
+  private copy(customer: CustomerRecord): CustomerRecord {
+    return {
+      ...customer,
+      aliases: [...customer.aliases],
+      typical_products: customer.typical_products.map(product => ({ ...product }))
+    }
+  }
+}
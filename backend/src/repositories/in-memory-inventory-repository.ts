@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto'
+import {
+  toBalances,
+  type InventoryRepository,
+  type NewStockMovementRecord,
+  type ReservationLine,
+  type StockBalance,
+  type StockMovementQuery,
+  type StockMovementRecord,
+  type StockShortage
+} from './inventory-repository'
+
+/**
+ * Process-local stock ledger for development and tests without network access
+ */
+export class InMemoryInventoryRepository implements InventoryRepository {
+  private movements: StockMovementRecord[] = []
+
+  async record(movements: NewStockMovementRecord[]): Promise<StockMovementRecord[]> {
+    return movements.map(movement => this.append(movement))
+  }
+
+  async listMovements(query: StockMovementQuery = {}): Promise<StockMovementRecord[]> {
+    const matching = this.movements
+      .filter(movement => !query.sku || movement.sku === query.sku)
+      .filter(movement => !query.order_id || movement.order_id === query.order_id)
+      .reverse()
+
+    return matching.slice(0, query.limit || matching.length).map(movement => ({ ...movement }))
+  }
+
+  async getBalances(skus?: string[]): Promise<StockBalance[]> {
+    const movements = skus ? this.movements.filter(movement => skus.includes(movement.sku)) : this.movements
+    return Array.from(toBalances(movements).values())
+  }
+
+  async reserve(
+    orderId: string,
+    lines: ReservationLine[],
+    actor: string
+  ): Promise<{ movements: StockMovementRecord[], shortages: StockShortage[] }> {
+    // No await between the check and the write, so concurrent reservations cannot interleave
+    const balances = toBalances(this.movements.filter(movement => lines.some(line => line.sku === movement.sku)))
+    const held = toBalances(this.movements.filter(movement => movement.order_id === orderId))
+    const shortages: StockShortage[] = []
+    for (const line of lines) {
+      const balance = balances.get(line.sku)
+      const available = line.opening_stock + (balance?.on_hand_change || 0) - (balance?.reserved || 0) +
+        (held.get(line.sku)?.reserved || 0)
+      if (line.quantity > available) {
+        shortages.push({ sku: line.sku, requested: line.quantity, available: Math.max(0, available) })
+      }
+    }
+
+    if (shortages.length > 0) return { movements: [], shortages }
+
+    const releases = Array.from(held.values())
+      .filter(balance => balance.reserved > 0)
+      .map(balance => this.append({
+        sku: balance.sku,
+        type: 'release',
+        quantity: balance.reserved,
+        order_id: orderId,
+        actor,
+        note: 'Replaced by a new reservation'
+      }))
+    const movements = lines.map(line => this.append({
+      sku: line.sku,
+      type: 'reservation',
+      quantity: line.quantity,
+      order_id: orderId,
+      actor
+    }))
+    return { movements: [...releases, ...movements], shortages }
+  }
+
+  // Private helper methods
+
+  private append(movement: NewStockMovementRecord): StockMovementRecord {
+    const record: StockMovementRecord = { ...movement, id: randomUUID(), created_at: new Date().toISOString() }
+    this.movements.push(record)
+    return { ...record }
+  }
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto'
+import type {
+  NewOrderRecord,
+  NewStatusHistoryRecord,
+  OrderQuery,
+  OrderRecord,
+  OrderRepository,
+  OrderUpdate,
+  StatusHistoryRecord
+} from './order-repository'
+
+/**
+ * Process-local order store for development and tests without network access
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  private orders: Map<string, OrderRecord> = new Map()
+  private statusHistory: StatusHistoryRecord[] = []
+
+  async create(order: NewOrderRecord): Promise<OrderRecord> {
+    if (this.orders.has(order.id)) {
+      throw new Error(`Order ${order.id} already exists`)
+    }
+
+    const now = new Date().toISOString()
+    const record: OrderRecord = { ...order, created_at: now, updated_at: now }
+    this.orders.set(record.id, record)
+    return { ...record }
+  }
+
+  async findById(id: string): Promise<OrderRecord | null> {
+    const order = this.orders.get(id)
+    return order ? { ...order } : null
+  }
+
+  async list(query: OrderQuery = {}): Promise<{ orders: OrderRecord[], total: number }> {
+    const matching = Array.from(this.orders.values())
+      .filter(order => !query.status || order.status === query.status)
+      .filter(order => !query.message_id || order.message_id === query.message_id)
+      .filter(order => !query.customer_id || order.customer_id === query.customer_id)
+      .filter(order => !query.created_after || order.created_at >= query.created_after)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+    const offset = query.offset || 0
+    const limit = query.limit || matching.length
+
+    return {
+      orders: matching.slice(offset, offset + limit).map(order => ({ ...order })),
+      total: matching.length
+    }
+  }
+
+  async update(id: string, updates: OrderUpdate): Promise<OrderRecord | null> {
+    const existing = this.orders.get(id)
+    if (!existing) return null
+
+    const updated: OrderRecord = {
+      ...existing,
+      ...updates,
+      updated_at: new Date().toISOString()
+    }
+    this.orders.set(id, updated)
+    return { ...updated }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.statusHistory = this.statusHistory.filter(entry => entry.order_id !== id)
+    return this.orders.delete(id)
+  }
+
+  async addStatusHistory(entry: NewStatusHistoryRecord): Promise<StatusHistoryRecord> {
+    const record: StatusHistoryRecord = {
+      ...entry,
+      id: randomUUID(),
+      created_at: new Date().toISOString()
+    }
+    this.statusHistory.push(record)
+    return { ...record }
+  }
+
+  async getStatusHistory(orderId: string): Promise<StatusHistoryRecord[]> {
+    return this.statusHistory
+      .filter(entry => entry.order_id === orderId)
+      .map(entry => ({ ...entry }))
+  }
+}
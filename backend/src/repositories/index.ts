@@ -0,0 +1,97 @@
+import { InMemoryOrderRepository } from './in-memory-order-repository'
+import { SupabaseOrderRepository } from './supabase-order-repository'
+import { InMemoryCustomerRepository } from './in-memory-customer-repository'
+import { SupabaseCustomerRepository } from './supabase-customer-repository'
+import { InMemoryInventoryRepository } from './in-memory-inventory-repository'
+import { SupabaseInventoryRepository } from './supabase-inventory-repository'
+import type { OrderRepository } from './order-repository'
+import type { CustomerRepository } from './customer-repository'
+import type { InventoryRepository } from './inventory-repository'
+import { logger } from '../utils/logger'
+
+export type {
+  OrderRepository,
+  OrderRecord,
+  AiOriginalValues,
+  NewOrderRecord,
+  OrderUpdate,
+  OrderQuery,
+  StatusHistoryRecord,
+  NewStatusHistoryRecord
+} from './order-repository'
+export type {
+  CustomerRepository,
+  CustomerRecord,
+  NewCustomerRecord,
+  CustomerUpdate,
+  CustomerQuery,
+  TypicalProduct
+} from './customer-repository'
+export type {
+  InventoryRepository,
+  StockMovementType,
+  StockMovementRecord,
+  NewStockMovementRecord,
+  StockMovementQuery,
+  StockBalance,
+  ReservationLine,
+  StockShortage
+} from './inventory-repository'
+export { toBalances } from './inventory-repository'
+export { InMemoryOrderRepository } from './in-memory-order-repository'
+export { SupabaseOrderRepository } from './supabase-order-repository'
+export { InMemoryCustomerRepository } from './in-memory-customer-repository'
+export { SupabaseCustomerRepository } from './supabase-customer-repository'
+export { InMemoryInventoryRepository } from './in-memory-inventory-repository'
+export { SupabaseInventoryRepository } from './supabase-inventory-repository'
+
+/**
+ * Pick the order store from ORDER_STORE (supabase | memory); defaults to
+ * Supabase when credentials are configured, otherwise in-memory
+ */
+export function createOrderRepository(): OrderRepository {
+  const url = process.env.SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  const store = process.env.ORDER_STORE || (url && serviceKey ? 'supabase' : 'memory')
+
+  if (store === 'supabase') {
+    if (!url || !serviceKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required when ORDER_STORE=supabase')
+    }
+    logger.info('Using Supabase order repository')
+    return new SupabaseOrderRepository(url, serviceKey)
+  }
+
+  logger.warn('Using in-memory order repository - orders are lost on restart')
+  return new InMemoryOrderRepository()
+}
+
+/**
+ * Customer store; always lives next to the orders (same ORDER_STORE choice)
+ */
+export function createCustomerRepository(): CustomerRepository {
+  const url = process.env.SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  const store = process.env.ORDER_STORE || (url && serviceKey ? 'supabase' : 'memory')
+
+  if (store === 'supabase' && url && serviceKey) {
+    return new SupabaseCustomerRepository(url, serviceKey)
+  }
+
+  return new InMemoryCustomerRepository()
+}
+
+/**
+ * Stock ledger; kept in the same store as the orders it reserves for
+ */
+export function createInventoryRepository(): InventoryRepository {
+  const url = process.env.SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  const store = process.env.ORDER_STORE || (url && serviceKey ? 'supabase' : 'memory')
+
+  if (store === 'supabase' && url && serviceKey) {
+    return new SupabaseInventoryRepository(url, serviceKey)
+  }
+
+  return new InMemoryInventoryRepository()
+}
@@ -0,0 +1,95 @@
+/**
+ * receipt/shipment move stock on hand, reservation/release move the amount
+ * promised to approved orders, adjustment is a signed stock-count correction
+ */
+export type StockMovementType = 'receipt' | 'reservation' | 'release' | 'shipment' | 'adjustment'
+
+/**
+ * Row of the `stock_movements` ledger (see supabase-schema.sql)
+ */
+export interface StockMovementRecord {
+  id: string
+  sku: string
+  type: StockMovementType
+  // Positive, except for adjustments
+  quantity: number
+  order_id?: string | null
+  actor?: string | null
+  note?: string | null
+  created_at: string
+}
+
+export type NewStockMovementRecord = Omit<StockMovementRecord, 'id' | 'created_at'>
+
+/**
+ * Ledger totals for one SKU; on hand is the catalog stock plus on_hand_change
+ */
+export interface StockBalance {
+  sku: string
+  on_hand_change: number
+  reserved: number
+}
+
+export interface ReservationLine {
+  sku: string
+  quantity: number
+  // Catalog stock the ledger starts from
+  opening_stock: number
+}
+
+export interface StockShortage {
+  sku: string
+  requested: number
+  available: number
+}
+
+export interface StockMovementQuery {
+  sku?: string
+  order_id?: string
+  limit?: number
+}
+
+export interface InventoryRepository {
+  record(movements: NewStockMovementRecord[]): Promise<StockMovementRecord[]>
+  // Newest first
+  listMovements(query?: StockMovementQuery): Promise<StockMovementRecord[]>
+  // Only SKUs with ledger entries are returned
+  getBalances(skus?: string[]): Promise<StockBalance[]>
+  /**
+   * Reserve every line or none, releasing whatever the order already holds in
+   * the same step (its own reservation counts as available): with any
+   * shortage nothing is written and the shortages are returned
+   */
+  reserve(
+    orderId: string,
+    lines: ReservationLine[],
+    actor: string
+  ): Promise<{ movements: StockMovementRecord[], shortages: StockShortage[] }>
+}
+
+/**
+ * Fold movements into per-SKU balances
+ */
+export function toBalances(movements: Pick<StockMovementRecord, 'sku' | 'type' | 'quantity'>[]): Map<string, StockBalance> {
+  const balances = new Map<string, StockBalance>()
+  for (const movement of movements) {
+    const balance = balances.get(movement.sku) || { sku: movement.sku, on_hand_change: 0, reserved: 0 }
+    switch (movement.type) {
+      case 'receipt':
+      case 'adjustment':
+        balance.on_hand_change += movement.quantity
+        break
+      case 'shipment':
+        balance.on_hand_change -= movement.quantity
+        break
+      case 'reservation':
+        balance.reserved += movement.quantity
+        break
+      case 'release':
+        balance.reserved -= movement.quantity
+        break
+    }
+    balances.set(movement.sku, balance)
+  }
+  return balances
+}
@@ -0,0 +1,94 @@
+import type { ConfidenceVector, NextAction, OrderStatus, RawOrder } from '../../../shared/types/core'
+
+/**
+ * Order row as stored in the `orders` table (see supabase-schema.sql)
+ */
+export interface OrderRecord {
+  id: string
+  raw_email: string
+  customer_name?: string
+  customer_email?: string
+  customer_company?: string
+  delivery_address?: string
+  delivery_date?: string
+  urgency: 'low' | 'medium' | 'high' | 'critical'
+  line_items: any[]
+  confidence_score: number
+  confidence_vectors?: {
+    customer_info: ConfidenceVector
+    delivery_info: ConfidenceVector
+  } | null
+  status: OrderStatus
+  flags: any[]
+  suggestions: any[]
+  ai_original?: AiOriginalValues | null
+  processing_notes?: string[]
+  fallback_used?: boolean
+  // Where the email came from; message_id is the RFC 5322 Message-ID used for dedupe
+  source?: RawOrder['source']
+  message_id?: string | null
+  source_metadata?: RawOrder['metadata'] | null
+  // Earlier order this email asked to change
+  amends_order_id?: string | null
+  // Matched customer record, if any
+  customer_id?: string | null
+  // Billing currency (ISO 4217), decided when the order is created
+  currency?: string | null
+  // Earlier order this one likely repeats, until a reviewer merges or dismisses it
+  duplicate_of?: string | null
+  // Order this backorder shipment was split from
+  split_from?: string | null
+  // ISO date the order is planned to leave the warehouse
+  planned_ship_date?: string | null
+  // Approval policy decision taken when the order was created
+  next_action?: NextAction | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Extracted values as the AI produced them, kept once a reviewer edits the order
+ */
+export type AiOriginalValues = Pick<
+  OrderRecord,
+  'customer_name' | 'customer_email' | 'customer_company' | 'delivery_address' | 'delivery_date' | 'urgency' | 'line_items'
+>
+
+export type NewOrderRecord = Omit<OrderRecord, 'created_at' | 'updated_at'>
+
+export type OrderUpdate = Partial<Omit<OrderRecord, 'id' | 'created_at' | 'updated_at'>>
+
+/**
+ * Row of the `order_status_history` table
+ */
+export interface StatusHistoryRecord {
+  id: string
+  order_id: string
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  actor: string
+  reason?: string
+  created_at: string
+}
+
+export type NewStatusHistoryRecord = Omit<StatusHistoryRecord, 'id' | 'created_at'>
+
+export interface OrderQuery {
+  status?: OrderStatus
+  message_id?: string
+  customer_id?: string
+  // ISO timestamp; only orders created at or after it
+  created_after?: string
+  limit?: number
+  offset?: number
+}
+
+export interface OrderRepository {
+  create(order: NewOrderRecord): Promise<OrderRecord>
+  findById(id: string): Promise<OrderRecord | null>
+  list(query?: OrderQuery): Promise<{ orders: OrderRecord[], total: number }>
+  update(id: string, updates: OrderUpdate): Promise<OrderRecord | null>
+  delete(id: string): Promise<boolean>
+  addStatusHistory(entry: NewStatusHistoryRecord): Promise<StatusHistoryRecord>
+  getStatusHistory(orderId: string): Promise<StatusHistoryRecord[]>
+}
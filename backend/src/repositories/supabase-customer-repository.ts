@@ -0,0 +1,128 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type {
+  CustomerQuery,
+  CustomerRecord,
+  CustomerRepository,
+  CustomerUpdate,
+  NewCustomerRecord
+} from './customer-repository'
+
+// PostgREST error code for "no rows returned" on .single()
+const NOT_FOUND = 'PGRST116'
+
+/**
+ * Customer store backed by the Supabase/Postgres `customers` table
+ */
+export class SupabaseCustomerRepository implements CustomerRepository {
+  private client: SupabaseClient
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false }
+    })
+  }
+
+  async create(customer: NewCustomerRecord): Promise<CustomerRecord> {
+    const { data, error } = await this.client
+      .from('customers')
+      .insert(customer)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save customer: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async findById(id: string): Promise<CustomerRecord | null> {
+    const { data, error } = await this.client
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      if (error.code === NOT_FOUND) return null
+      throw new Error(`Failed to fetch customer: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async findByEmail(email: string): Promise<CustomerRecord | null> {
+    const needle = email.trim().toLowerCase()
+    const { data, error } = await this.client
+      .from('customers')
+      .select('*')
+      .or(`email.ilike.${needle},aliases.cs.${JSON.stringify([needle])}`)
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch customer: ${error.message}`)
+    }
+
+    return data?.[0] || null
+  }
+
+  async list(query: CustomerQuery = {}): Promise<{ customers: CustomerRecord[], total: number }> {
+    let request = this.client
+      .from('customers')
+      .select('*', { count: 'exact' })
+      .order('updated_at', { ascending: false })
+
+    if (query.domain) {
+      request = request.eq('domain', query.domain)
+    }
+
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[%,()]/g, '')}%`
+      request = request.or(`name.ilike.${pattern},company.ilike.${pattern},email.ilike.${pattern}`)
+    }
+
+    if (query.offset) {
+      request = request.range(query.offset, query.offset + (query.limit || 10) - 1)
+    } else if (query.limit) {
+      request = request.limit(query.limit)
+    }
+
+    const { data, error, count } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch customers: ${error.message}`)
+    }
+
+    return { customers: data || [], total: count || 0 }
+  }
+
+  async update(id: string, updates: CustomerUpdate): Promise<CustomerRecord | null> {
+    const { data, error } = await this.client
+      .from('customers')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === NOT_FOUND) return null
+      throw new Error(`Failed to update customer: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('customers')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete customer: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+}
@@ -0,0 +1,110 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type {
+  InventoryRepository,
+  NewStockMovementRecord,
+  ReservationLine,
+  StockBalance,
+  StockMovementQuery,
+  StockMovementRecord,
+  StockShortage
+} from './inventory-repository'
+
+/**
+ * Stock ledger backed by the Supabase/Postgres `stock_movements` table;
+ * reservations go through the `reserve_stock` function, which locks each SKU
+ * for the duration of the check and insert
+ */
+export class SupabaseInventoryRepository implements InventoryRepository {
+  private client: SupabaseClient
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false }
+    })
+  }
+
+  async record(movements: NewStockMovementRecord[]): Promise<StockMovementRecord[]> {
+    if (movements.length === 0) return []
+
+    const { data, error } = await this.client
+      .from('stock_movements')
+      .insert(movements)
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to record stock movements: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async listMovements(query: StockMovementQuery = {}): Promise<StockMovementRecord[]> {
+    let request = this.client
+      .from('stock_movements')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (query.sku) {
+      request = request.eq('sku', query.sku)
+    }
+
+    if (query.order_id) {
+      request = request.eq('order_id', query.order_id)
+    }
+
+    if (query.limit) {
+      request = request.limit(query.limit)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch stock movements: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async getBalances(skus?: string[]): Promise<StockBalance[]> {
+    let request = this.client
+      .from('stock_balances')
+      .select('*')
+
+    if (skus) {
+      request = request.in('sku', skus)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch stock balances: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      sku: row.sku,
+      on_hand_change: Number(row.on_hand_change),
+      reserved: Number(row.reserved)
+    }))
+  }
+
+  async reserve(
+    orderId: string,
+    lines: ReservationLine[],
+    actor: string
+  ): Promise<{ movements: StockMovementRecord[], shortages: StockShortage[] }> {
+    const { data, error } = await this.client.rpc('reserve_stock', {
+      p_order_id: orderId,
+      p_lines: lines,
+      p_actor: actor
+    })
+
+    if (error) {
+      throw new Error(`Failed to reserve stock: ${error.message}`)
+    }
+
+    return {
+      movements: data?.movements || [],
+      shortages: data?.shortages || []
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type {
+  NewOrderRecord,
+  NewStatusHistoryRecord,
+  OrderQuery,
+  OrderRecord,
+  OrderRepository,
+  OrderUpdate,
+  StatusHistoryRecord
+} from './order-repository'
+
+// PostgREST error code for "no rows returned" on .single()
+const NOT_FOUND = 'PGRST116'
+
+/**
+ * Order store backed by the Supabase/Postgres `orders` table
+ */
+export class SupabaseOrderRepository implements OrderRepository {
+  private client: SupabaseClient
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false }
+    })
+  }
+
+  async create(order: NewOrderRecord): Promise<OrderRecord> {
+    const { data, error } = await this.client
+      .from('orders')
+      .insert(order)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save order: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async findById(id: string): Promise<OrderRecord | null> {
+    const { data, error } = await this.client
+      .from('orders')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      if (error.code === NOT_FOUND) return null
+      throw new Error(`Failed to fetch order: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async list(query: OrderQuery = {}): Promise<{ orders: OrderRecord[], total: number }> {
+    let request = this.client
+      .from('orders')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+
+    if (query.status) {
+      request = request.eq('status', query.status)
+    }
+
+    if (query.message_id) {
+      request = request.eq('message_id', query.message_id)
+    }
+
+    if (query.customer_id) {
+      request = request.eq('customer_id', query.customer_id)
+    }
+
+    if (query.created_after) {
+      request = request.gte('created_at', query.created_after)
+    }
+
+    if (query.offset) {
+      request = request.range(query.offset, query.offset + (query.limit || 10) - 1)
+    } else if (query.limit) {
+      request = request.limit(query.limit)
+    }
+
+    const { data, error, count } = await request
+
+    if (error) {
+      throw new Error(`Failed to fetch orders: ${error.message}`)
+    }
+
+    return { orders: data || [], total: count || 0 }
+  }
+
+  async update(id: string, updates: OrderUpdate): Promise<OrderRecord | null> {
+    const { data, error } = await this.client
+      .from('orders')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === NOT_FOUND) return null
+      throw new Error(`Failed to update order: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('orders')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete order: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  async addStatusHistory(entry: NewStatusHistoryRecord): Promise<StatusHistoryRecord> {
+    const { data, error } = await this.client
+      .from('order_status_history')
+      .insert(entry)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to record status change: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async getStatusHistory(orderId: string): Promise<StatusHistoryRecord[]> {
+    const { data, error } = await this.client
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch status history: ${error.message}`)
+    }
+
+    return data || []
+  }
+}
@@ -1,4 +1,5 @@
-import app from './app'
+import app, { jobQueue, mailIngestion, realtime } from './app'
+import { createMailListeners } from './services/ingestion'
 import { logger } from './utils/logger'
 
 const PORT = process.env.PORT || 3001
@@ -9,21 +10,25 @@ const server = app.listen(PORT, () => {
   logger.info(`🔍 Product search: http://localhost:${PORT}/api/products/search?q=desk`)
 })
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully')
-  server.close(() => {
-    logger.info('Server closed')
-    process.exit(0)
-  })
-})
+realtime.attach(server)
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully')
-  server.close(() => {
-    logger.info('Server closed')
-    process.exit(0)
-  })
-})
+const mailListeners = createMailListeners(mailIngestion)
+mailListeners.start().catch(error => logger.error('Failed to start mail ingestion', { error }))
+
+// Graceful shutdown: running jobs finish and are saved before the process exits
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`)
+  realtime.close()
+  await Promise.allSettled([
+    mailListeners.stop(),
+    jobQueue.stop(),
+    new Promise<void>(resolve => server.close(() => resolve()))
+  ])
+  logger.info('Server closed')
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => { shutdown('SIGTERM') })
+process.on('SIGINT', () => { shutdown('SIGINT') })
 
 export default server 
\ No newline at end of file
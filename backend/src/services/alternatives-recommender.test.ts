@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryInventoryRepository } from '../repositories'
+import { AlternativesRecommender } from './alternatives-recommender'
+import { InventoryService } from './inventory-service'
+import { ProductCatalogService } from './product-catalog-service'
+
+// DSK-0005: 727.66, out of stock; DSK-0012 is 7% dearer with 46 in stock,
+// DSK-0024 1% dearer with an MOQ of 5
+describe('AlternativesRecommender', () => {
+  const catalog = new ProductCatalogService()
+  let inventory: InventoryService
+  let recommender: AlternativesRecommender
+
+  beforeEach(() => {
+    inventory = new InventoryService(new InMemoryInventoryRepository(), catalog)
+    recommender = new AlternativesRecommender(catalog, inventory)
+  })
+
+  it('ranks in-stock products from the same category', async () => {
+    const alternatives = await recommender.recommendFor('DSK-0005', { quantity: 4 })
+
+    expect(alternatives?.map(alternative => alternative.product.product_code)).toEqual(['DSK-0012', 'DSK-0023', 'DSK-0024'])
+    expect(alternatives![0]).toMatchObject({
+      score: 0.93,
+      quantity: 4,
+      available: 46,
+      price_difference: 0.073,
+      shared_tags: ['modern'],
+      reasoning: 'Same category (Desks); 7% more expensive; 46 available; shares modern',
+      business_impact: 'medium'
+    })
+  })
+
+  it('raises the quantity to the substitute\'s minimum order and scores it lower', async () => {
+    const alternatives = await recommender.recommendFor('DSK-0005', { quantity: 4 })
+    const moq = alternatives!.find(alternative => alternative.product.product_code === 'DSK-0024')
+
+    expect(moq?.quantity).toBe(5)
+    expect(moq?.reasoning).toContain('minimum order is 5, so 5 units instead of 4')
+    // Closest in price, but missing the MOQ costs it the top spot
+    expect(moq!.score).toBeLessThan(alternatives![0].score)
+  })
+
+  it('skips substitutes other orders hold the stock for, unless this order holds it', async () => {
+    await inventory.reserve({ id: 'o2', line_items: [{ sku: 'DSK-0012', quantity: 46 }] }, 'reviewer')
+
+    const elsewhere = await recommender.recommendFor('DSK-0005', { quantity: 4 })
+    expect(elsewhere?.map(alternative => alternative.product.product_code)).not.toContain('DSK-0012')
+
+    const own = await recommender.recommendFor('DSK-0005', { quantity: 4, orderId: 'o2' })
+    expect(own?.[0]).toMatchObject({ product: { product_code: 'DSK-0012' }, available: 46 })
+  })
+
+  it('respects the limit and returns null for unknown SKUs', async () => {
+    expect(await recommender.recommendFor('DSK-0005', { quantity: 4, limit: 1 })).toHaveLength(1)
+    expect(await recommender.recommendFor('NOPE-0000')).toBeNull()
+  })
+})
@@ -0,0 +1,142 @@
+import type { Product, Suggestion } from '../../../shared/types/core'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { InventoryService } from './inventory-service'
+
+/**
+ * In-stock substitute for a product, with why it was picked
+ */
+export interface AlternativeRecommendation {
+  product: Product
+  // 0-1, higher is a closer substitute
+  score: number
+  // Available to promise
+  available: number
+  // Quantity to order, raised to the substitute's MOQ when needed
+  quantity: number
+  // Relative to the original list price, e.g. -0.08 is 8% cheaper
+  price_difference: number
+  shared_tags: string[]
+  reasoning: string
+  business_impact: Suggestion['business_impact']
+}
+
+export interface RecommendOptions {
+  quantity?: number
+  limit?: number
+  // Count this order's own reservation as available
+  orderId?: string
+}
+
+// Price difference still considered the same band
+const PRICE_BAND = 0.25
+
+const WEIGHTS = { price: 0.5, tags: 0.3, moq: 0.2 }
+
+/**
+ * Proposes substitutes from the same category that can be promised in the
+ * requested quantity, ranked by price similarity, tag overlap and whether the
+ * requested quantity already meets their minimum order quantity.
+ */
+export class AlternativesRecommender {
+  constructor(
+    private catalog: ProductCatalogService,
+    private inventory: InventoryService
+  ) {}
+
+  /**
+   * Best substitutes for a SKU, or null when the SKU is not in the catalog
+   */
+  async recommendFor(sku: string, options: RecommendOptions = {}): Promise<AlternativeRecommendation[] | null> {
+    const product = await this.catalog.findBySKU(sku.trim())
+    return product ? this.recommend(product, options) : null
+  }
+
+  async recommend(product: Product, options: RecommendOptions = {}): Promise<AlternativeRecommendation[]> {
+    const quantity = Math.max(1, Math.floor(options.quantity || product.min_order_quantity || 1))
+    const limit = options.limit ?? 3
+
+    const candidates = (await this.catalog.getByCategory(product.category.code))
+      .filter(candidate => candidate.product_code !== product.product_code)
+    const levels = new Map((await this.inventory.levels(candidates.map(candidate => candidate.product_code)))
+      .map(level => [level.sku, level.available]))
+    const reserved = options.orderId ? await this.inventory.reservedFor(options.orderId) : new Map<string, number>()
+
+    const recommendations: AlternativeRecommendation[] = []
+    for (const candidate of candidates) {
+      const available = (levels.get(candidate.product_code) ?? 0) + (reserved.get(candidate.product_code) ?? 0)
+      const orderQuantity = Math.max(quantity, candidate.min_order_quantity)
+      if (available < orderQuantity) continue
+
+      recommendations.push(this.toRecommendation(product, candidate, quantity, orderQuantity, available))
+    }
+
+    return recommendations
+      .sort((a, b) => b.score - a.score || Math.abs(a.price_difference) - Math.abs(b.price_difference))
+      .slice(0, limit)
+  }
+
+  // Private helper methods
+
+  private toRecommendation(
+    original: Product,
+    candidate: Product,
+    quantity: number,
+    orderQuantity: number,
+    available: number
+  ): AlternativeRecommendation {
+    const priceDifference = original.price > 0 ? (candidate.price - original.price) / original.price : 0
+    const priceScore = Math.max(0, 1 - Math.abs(priceDifference) / (2 * PRICE_BAND))
+
+    const originalTags = new Set(original.attributes.tags)
+    const sharedTags = candidate.attributes.tags.filter(tag => originalTags.has(tag))
+    const allTags = new Set([...original.attributes.tags, ...candidate.attributes.tags])
+    const tagScore = allTags.size > 0 ? sharedTags.length / allTags.size : 1
+
+    const meetsMoq = orderQuantity === quantity
+    const score = WEIGHTS.price * priceScore + WEIGHTS.tags * tagScore + WEIGHTS.moq * (meetsMoq ? 1 : 0)
+
+    return {
+      product: candidate,
+      score: Math.round(score * 100) / 100,
+      available,
+      quantity: orderQuantity,
+      price_difference: Math.round(priceDifference * 1000) / 1000,
+      shared_tags: sharedTags,
+      reasoning: this.reasoning(original, candidate, priceDifference, sharedTags, quantity, orderQuantity, available),
+      business_impact: this.businessImpact(priceDifference, meetsMoq)
+    }
+  }
+
+  private reasoning(
+    original: Product,
+    candidate: Product,
+    priceDifference: number,
+    sharedTags: string[],
+    quantity: number,
+    orderQuantity: number,
+    available: number
+  ): string {
+    const percent = Math.round(Math.abs(priceDifference) * 100)
+    const price = percent === 0
+      ? 'same price'
+      : `${percent}% ${priceDifference < 0 ? 'cheaper' : 'more expensive'}${Math.abs(priceDifference) <= PRICE_BAND ? '' : ', outside the usual price band'}`
+
+    const parts = [
+      `Same category (${original.category.name})`,
+      price,
+      `${available} available`
+    ]
+    if (sharedTags.length > 0) parts.push(`shares ${sharedTags.join(', ')}`)
+    if (orderQuantity > quantity) {
+      parts.push(`minimum order is ${candidate.min_order_quantity}, so ${orderQuantity} units instead of ${quantity}`)
+    }
+    return parts.join('; ')
+  }
+
+  private businessImpact(priceDifference: number, meetsMoq: boolean): Suggestion['business_impact'] {
+    const difference = Math.abs(priceDifference)
+    if (difference > PRICE_BAND) return 'high'
+    if (difference > 0.05 || !meetsMoq) return 'medium'
+    return 'low'
+  }
+}
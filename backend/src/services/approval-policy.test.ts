@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryInventoryRepository, type CustomerRecord } from '../repositories'
+import { ApprovalPolicyEngine, ApprovalPolicyError, parseApprovalPolicy, type PolicyOrder } from './approval-policy'
+import type { CustomerMatch } from './customer-service'
+import { CurrencyService } from './currency-service'
+import { InventoryService } from './inventory-service'
+import { PricingEngine } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { TaxService } from './tax-service'
+
+// DSK-0001 lists at 902.78 with 31 in stock, DSK-0002 at 167.87 with 94
+function order(overrides: Partial<PolicyOrder> = {}): PolicyOrder {
+  return {
+    id: 'o1',
+    status: 'ai_parsed',
+    line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 2 }],
+    confidence_score: 0.95,
+    flags: [],
+    suggestions: [],
+    customer_email: 'jane@acme.example',
+    ...overrides
+  }
+}
+
+function customer(overrides: Partial<CustomerRecord> = {}): CustomerRecord {
+  return {
+    id: 'c1',
+    email: 'jane@acme.example',
+    company: 'Acme',
+    domain: 'acme.example',
+    aliases: [],
+    typical_products: [],
+    order_count: 4,
+    total_spent: 8000,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+const matched = (method: CustomerMatch['method'], record = customer()): CustomerMatch => ({ customer: record, method, score: 1 })
+
+describe('ApprovalPolicyEngine', () => {
+  let engine: ApprovalPolicyEngine
+
+  beforeEach(() => {
+    const catalog = new ProductCatalogService()
+    const pricing = new PricingEngine(catalog, new CurrencyService(), new TaxService())
+    engine = new ApprovalPolicyEngine(pricing, new InventoryService(new InMemoryInventoryRepository(), catalog))
+  })
+
+  it('auto-approves a confident order from a sender matched by address', async () => {
+    const decision = await engine.evaluate(order(), matched('email'))
+
+    expect(decision.facts).toMatchObject({ customer: 'known', customer_match: 'email', stock_short: false })
+    expect(decision.next_action).toMatchObject({ type: 'auto_approve', rule_id: 'confident-known-customer', policy_version: 2 })
+  })
+
+  it('does not treat a domain or company match as a known customer', async () => {
+    for (const method of ['domain', 'company', 'name_address'] as const) {
+      const decision = await engine.evaluate(order({ customer_email: 'mallory@acme.example' }), matched(method))
+
+      expect(decision.facts).toMatchObject({ customer: 'new', customer_match: method })
+      expect(decision.next_action).toMatchObject({ type: 'review_required', rule_id: 'loose-customer-match' })
+    }
+  })
+
+  it('sends orders from unmatched senders to review', async () => {
+    const decision = await engine.evaluate(order(), null)
+
+    expect(decision.facts).toMatchObject({ customer: 'new', customer_match: 'none' })
+    expect(decision.next_action).toMatchObject({ type: 'review_required', rule_id: 'new-customer', priority: 'low' })
+  })
+
+  it('does not count an approved order as its own history', async () => {
+    const decision = await engine.evaluate(order({ status: 'approved' }), matched('email', customer({ order_count: 1 })))
+
+    expect(decision.facts.customer).toBe('new')
+  })
+
+  it('checks the rules in order, so duplicates win over everything else', async () => {
+    const decision = await engine.evaluate(order({ duplicate_of: 'o0', confidence_score: 0.3 }), matched('email'))
+
+    expect(decision.next_action).toMatchObject({ type: 'review_required', rule_id: 'duplicate', priority: 'high' })
+    expect(decision.next_action.description).toBe('Suspected duplicate of an earlier order: duplicate')
+  })
+
+  it('escalates large orders and holds back what stock cannot cover', async () => {
+    const large = await engine.evaluate(order({ line_items: [{ sku: 'DSK-0001', quantity: 31 }] }), matched('email'))
+    expect(large.next_action).toMatchObject({ type: 'escalate', rule_id: 'large-order', assignee: 'sales-manager' })
+
+    const short = await engine.evaluate(order({ line_items: [{ sku: 'DSK-0002', quantity: 100 }] }), matched('email'))
+    expect(short.facts.stock_short).toBe(true)
+    expect(short.next_action).toMatchObject({ type: 'review_required', rule_id: 'stock-short' })
+  })
+
+  it('asks for clarification on uncertain extractions and unpriced lines', async () => {
+    const uncertain = await engine.evaluate(order({ confidence_score: 0.4 }), matched('email'))
+    expect(uncertain.next_action).toMatchObject({ type: 'request_clarification', rule_id: 'low-confidence' })
+
+    const unpriced = await engine.evaluate(order({ line_items: [{ description: 'Some chairs', quantity: 4 }] }), matched('email'))
+    expect(unpriced.next_action).toMatchObject({ type: 'request_clarification', rule_id: 'unpriced-items' })
+  })
+
+  it('uses the fallback when no rule matches', () => {
+    const policy = parseApprovalPolicy({
+      version: 7,
+      rules: [{ id: 'never', when: { amendment: true }, action: 'reject' }],
+      fallback: { action: 'review_required', priority: 'medium', description: 'Nothing matched' }
+    })
+
+    const decision = engine.decide({
+      confidence: 0.9,
+      order_value: 100,
+      customer: 'known',
+      customer_match: 'email',
+      flag_severities: [],
+      stock_short: false,
+      unpriced_items: false,
+      fallback_used: false,
+      amendment: false,
+      duplicate: false,
+      quantity_fixes_pending: false
+    }, policy)
+
+    expect(decision.rule).toBeUndefined()
+    expect(decision.next_action).toEqual({
+      type: 'review_required',
+      priority: 'medium',
+      description: 'Nothing matched',
+      policy_version: 7
+    })
+  })
+
+  it('rejects policies with unknown conditions or match methods', () => {
+    expect(() => parseApprovalPolicy({
+      version: 1,
+      rules: [
+        { id: 'a', when: { customer_match: ['fuzzy'] }, action: 'review_required' },
+        { id: 'b', when: { vip: true }, action: 'auto_approve' }
+      ],
+      fallback: { action: 'review_required', priority: 'medium', description: 'Review' }
+    })).toThrow(ApprovalPolicyError)
+  })
+})
@@ -0,0 +1,368 @@
+import fs from 'fs'
+import path from 'path'
+import type { NextAction, ValidationFlag } from '../../../shared/types/core'
+import type { CustomerRecord, OrderRecord } from '../repositories'
+import type { CustomerMatch, CustomerService } from './customer-service'
+import type { InventoryService } from './inventory-service'
+import type { PricingEngine } from './pricing-engine'
+import { REQUIRED_ADJUSTMENTS } from './quantity-advisor'
+import { formatMoney } from '../utils/money'
+import { logger } from '../utils/logger'
+
+/**
+ * What a rule checks; every condition given must hold
+ */
+export interface PolicyConditions {
+  confidence_below?: number
+  confidence_at_least?: number
+  // In the policy currency (the catalog currency), after discounts, before tax
+  order_value_above?: number
+  order_value_at_most?: number
+  // known: the sender's email or an alias of a customer with an approved
+  // order besides this one; looser matches count as new
+  customer?: 'new' | 'known'
+  // How the sender was matched to a customer, any of these
+  customer_match?: CustomerMatchMethod[]
+  // Any open flag with one of these severities
+  flag_severities?: ValidationFlag['severity'][]
+  stock_short?: boolean
+  unpriced_items?: boolean
+  fallback_used?: boolean
+  amendment?: boolean
+  duplicate?: boolean
+  // MOQ or pack-size adjustments not yet applied
+  quantity_fixes_pending?: boolean
+}
+
+export interface PolicyRule {
+  id: string
+  description?: string
+  when: PolicyConditions
+  action: NextAction['type']
+  priority?: NextAction['priority']
+  assignee?: string
+  // Flag added to a new order this rule decides
+  flag?: string
+}
+
+export interface ApprovalPolicy {
+  version: number
+  currency?: string
+  // First matching rule wins
+  rules: PolicyRule[]
+  // When no rule matches
+  fallback: { action: NextAction['type'], priority: NextAction['priority'], description: string }
+}
+
+// `linked`: a stored order's customer that its email no longer matches
+export type CustomerMatchMethod = CustomerMatch['method'] | 'linked' | 'none'
+
+export interface PolicyFacts {
+  confidence: number
+  order_value: number
+  customer: 'new' | 'known'
+  customer_match: CustomerMatchMethod
+  flag_severities: ValidationFlag['severity'][]
+  stock_short: boolean
+  unpriced_items: boolean
+  fallback_used: boolean
+  amendment: boolean
+  duplicate: boolean
+  quantity_fixes_pending: boolean
+}
+
+export interface PolicyDecision {
+  next_action: NextAction
+  rule?: PolicyRule
+  facts: PolicyFacts
+}
+
+export interface PolicyDryRun {
+  policy_version: number
+  current_version: number
+  evaluated: number
+  changed: number
+  // Under the tested policy
+  by_action: Partial<Record<NextAction['type'], number>>
+  orders: Array<{
+    order_id: string
+    status: OrderRecord['status']
+    current: NextAction
+    proposed: NextAction
+    changed: boolean
+  }>
+}
+
+export class ApprovalPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApprovalPolicyError'
+  }
+}
+
+export type PolicyOrder = Pick<OrderRecord,
+  'id' | 'status' | 'line_items' | 'confidence_score' | 'flags' | 'suggestions' |
+  'fallback_used' | 'amends_order_id' | 'duplicate_of' | 'customer_id' | 'customer_email' | 'source_metadata'
+>
+
+export const DEFAULT_APPROVAL_POLICY_PATH = path.join(process.cwd(), '../data/approval-policy.json')
+
+const ACTIONS: NextAction['type'][] = ['auto_approve', 'review_required', 'escalate', 'reject', 'request_clarification']
+const PRIORITIES: NextAction['priority'][] = ['low', 'medium', 'high', 'urgent']
+const SEVERITIES: ValidationFlag['severity'][] = ['info', 'warning', 'error', 'critical']
+const MATCH_METHODS: CustomerMatchMethod[] = ['email', 'domain', 'company', 'name_address', 'linked', 'none']
+const NUMBER_CONDITIONS = ['confidence_below', 'confidence_at_least', 'order_value_above', 'order_value_at_most'] as const
+const BOOLEAN_CONDITIONS = [
+  'stock_short', 'unpriced_items', 'fallback_used', 'amendment', 'duplicate', 'quantity_fixes_pending'
+] as const
+
+// Everything goes to a reviewer
+const NO_POLICY: ApprovalPolicy = {
+  version: 0,
+  rules: [],
+  fallback: { action: 'review_required', priority: 'medium', description: 'No approval policy configured' }
+}
+
+/**
+ * Check a policy document and return it typed, or throw ApprovalPolicyError listing every problem
+ */
+export function parseApprovalPolicy(input: unknown): ApprovalPolicy {
+  const policy = input as ApprovalPolicy
+  const problems: string[] = []
+
+  if (!policy || typeof policy !== 'object') throw new ApprovalPolicyError('Policy must be an object')
+  if (typeof policy.version !== 'number') problems.push('version must be a number')
+  if (!Array.isArray(policy.rules)) problems.push('rules must be an array')
+  if (!policy.fallback || !ACTIONS.includes(policy.fallback.action) || !PRIORITIES.includes(policy.fallback.priority)) {
+    problems.push(`fallback needs an action (${ACTIONS.join(', ')}) and a priority (${PRIORITIES.join(', ')})`)
+  }
+
+  const ids = new Set<string>()
+  for (const [index, rule] of (Array.isArray(policy.rules) ? policy.rules : []).entries()) {
+    const name = rule?.id ? `rule ${rule.id}` : `rules[${index}]`
+    if (!rule?.id) problems.push(`${name} needs an id`)
+    else if (ids.has(rule.id)) problems.push(`${name} is defined twice`)
+    ids.add(rule?.id)
+
+    if (!ACTIONS.includes(rule?.action)) problems.push(`${name} has unknown action ${rule?.action}`)
+    if (rule?.priority && !PRIORITIES.includes(rule.priority)) problems.push(`${name} has unknown priority ${rule.priority}`)
+    if (!rule?.when || typeof rule.when !== 'object') {
+      problems.push(`${name} needs a "when" object`)
+      continue
+    }
+
+    for (const [key, value] of Object.entries(rule.when)) {
+      if ((NUMBER_CONDITIONS as readonly string[]).includes(key)) {
+        if (typeof value !== 'number') problems.push(`${name}: ${key} must be a number`)
+      } else if ((BOOLEAN_CONDITIONS as readonly string[]).includes(key)) {
+        if (typeof value !== 'boolean') problems.push(`${name}: ${key} must be true or false`)
+      } else if (key === 'customer') {
+        if (value !== 'new' && value !== 'known') problems.push(`${name}: customer must be "new" or "known"`)
+      } else if (key === 'customer_match') {
+        if (!Array.isArray(value) || value.some(method => !MATCH_METHODS.includes(method))) {
+          problems.push(`${name}: customer_match must list ${MATCH_METHODS.join(', ')}`)
+        }
+      } else if (key === 'flag_severities') {
+        if (!Array.isArray(value) || value.some(severity => !SEVERITIES.includes(severity))) {
+          problems.push(`${name}: flag_severities must list ${SEVERITIES.join(', ')}`)
+        }
+      } else {
+        problems.push(`${name}: unknown condition ${key}`)
+      }
+    }
+  }
+
+  if (problems.length > 0) throw new ApprovalPolicyError(`Invalid approval policy: ${problems.join('; ')}`)
+  return policy
+}
+
+/**
+ * Read the approval policy; without a valid one every order goes to review
+ */
+export function loadApprovalPolicy(file: string = process.env.APPROVAL_POLICY_PATH || DEFAULT_APPROVAL_POLICY_PATH): ApprovalPolicy {
+  if (!fs.existsSync(file)) {
+    logger.warn('Approval policy not found, every order goes to review', { file })
+    return NO_POLICY
+  }
+
+  try {
+    return parseApprovalPolicy(JSON.parse(fs.readFileSync(file, 'utf-8')))
+  } catch (error) {
+    logger.error('Failed to load approval policy, every order goes to review', { file, error })
+    return NO_POLICY
+  }
+}
+
+/**
+ * Decides what happens to an order from declarative, versioned rules:
+ * auto-approve it, send it to review, escalate it or ask the customer.
+ * Rules are checked in order and the first whose conditions all hold
+ * decides; the resulting NextAction names the rule and policy version.
+ */
+export class ApprovalPolicyEngine {
+  constructor(
+    private pricing: PricingEngine,
+    private inventory: InventoryService,
+    private customers?: CustomerService,
+    private policy: ApprovalPolicy = loadApprovalPolicy()
+  ) {}
+
+  get current(): ApprovalPolicy {
+    return this.policy
+  }
+
+  /**
+   * What the rules can test about an order; pass the sender's customer match
+   * when it is at hand, otherwise the linked customer is matched again
+   */
+  async facts(order: PolicyOrder, match?: CustomerMatch | null): Promise<PolicyFacts> {
+    const { record, method }: { record: CustomerRecord | null, method: CustomerMatchMethod } = match !== undefined
+      ? { record: match?.customer ?? null, method: match?.method ?? 'none' }
+      : await this.linkedCustomer(order)
+    // An approved order is already in the customer's count
+    const counted = order.status === 'approved' || order.status === 'fulfilled' ? 1 : 0
+
+    const pricing = await this.pricing.priceOrder(order.line_items, { customer: record })
+    const quantities = new Map<string, number>()
+    for (const line of pricing.lines) {
+      if (line.list_price !== undefined && line.sku && line.quantity) {
+        quantities.set(line.sku, (quantities.get(line.sku) || 0) + line.quantity)
+      }
+    }
+    let stockShort = false
+    for (const [sku, quantity] of quantities) {
+      if ((await this.inventory.availableToPromise(sku, order.id) ?? 0) < quantity) stockShort = true
+    }
+
+    return {
+      confidence: order.confidence_score,
+      order_value: pricing.total,
+      // Only an exact address counts: a domain or a company name anyone can write
+      customer: record && method === 'email' && record.order_count - counted > 0 ? 'known' : 'new',
+      customer_match: method,
+      flag_severities: [...new Set(order.flags
+        .filter((flag): flag is ValidationFlag => typeof flag === 'object' && flag !== null && Boolean(flag.severity))
+        .map(flag => flag.severity))],
+      stock_short: stockShort,
+      unpriced_items: pricing.lines.some(line => line.list_price === undefined),
+      fallback_used: Boolean(order.fallback_used),
+      amendment: Boolean(order.amends_order_id),
+      duplicate: Boolean(order.duplicate_of),
+      quantity_fixes_pending: (order.suggestions || []).some(suggestion =>
+        typeof suggestion === 'object' && REQUIRED_ADJUSTMENTS.includes(suggestion?.adjustment)
+      )
+    }
+  }
+
+  decide(facts: PolicyFacts, policy: ApprovalPolicy = this.policy): Omit<PolicyDecision, 'facts'> {
+    for (const rule of policy.rules) {
+      const reasons = this.matches(rule.when, facts, policy)
+      if (!reasons) continue
+
+      return {
+        rule,
+        next_action: {
+          type: rule.action,
+          priority: rule.priority || 'medium',
+          description: `${rule.description || rule.id}: ${reasons.join(', ')}`,
+          ...(rule.assignee ? { assignee: rule.assignee } : {}),
+          rule_id: rule.id,
+          policy_version: policy.version
+        }
+      }
+    }
+
+    return {
+      next_action: {
+        type: policy.fallback.action,
+        priority: policy.fallback.priority,
+        description: policy.fallback.description,
+        policy_version: policy.version
+      }
+    }
+  }
+
+  async evaluate(order: PolicyOrder, match?: CustomerMatch | null, policy: ApprovalPolicy = this.policy): Promise<PolicyDecision> {
+    const facts = await this.facts(order, match)
+    return { ...this.decide(facts, policy), facts }
+  }
+
+  /**
+   * Compare a candidate policy with the current one on stored orders, using
+   * today's stock and customer history
+   */
+  async dryRun(orders: OrderRecord[], candidate: ApprovalPolicy): Promise<PolicyDryRun> {
+    const result: PolicyDryRun = {
+      policy_version: candidate.version,
+      current_version: this.policy.version,
+      evaluated: orders.length,
+      changed: 0,
+      by_action: {},
+      orders: []
+    }
+
+    for (const order of orders) {
+      const facts = await this.facts(order)
+      const current = this.decide(facts).next_action
+      const proposed = this.decide(facts, candidate).next_action
+      const changed = current.type !== proposed.type || current.rule_id !== proposed.rule_id
+
+      result.by_action[proposed.type] = (result.by_action[proposed.type] || 0) + 1
+      if (changed) result.changed++
+      result.orders.push({ order_id: order.id, status: order.status, current, proposed, changed })
+    }
+
+    return result
+  }
+
+  // Private helper methods
+
+  // A stored order's customer, and how its email matches that customer today
+  private async linkedCustomer(order: PolicyOrder): Promise<{ record: CustomerRecord | null, method: CustomerMatchMethod }> {
+    const record = order.customer_id ? await this.customers?.getCustomer(order.customer_id) ?? null : null
+    if (!record) return { record: null, method: 'none' }
+
+    const email = order.customer_email || order.source_metadata?.sender_email
+    const match = email ? await this.customers?.match({ email }) : null
+    return { record, method: match?.customer.id === record.id ? match.method : 'linked' }
+  }
+
+  // Why each condition holds, or null as soon as one does not
+  private matches(when: PolicyConditions, facts: PolicyFacts, policy: ApprovalPolicy): string[] | null {
+    const money = (amount: number) => formatMoney(amount, policy.currency || this.pricing.currency)
+    const checks: Array<[boolean | undefined, string]> = []
+
+    if (when.confidence_below !== undefined) {
+      checks.push([facts.confidence < when.confidence_below, `confidence ${facts.confidence.toFixed(2)} < ${when.confidence_below}`])
+    }
+    if (when.confidence_at_least !== undefined) {
+      checks.push([facts.confidence >= when.confidence_at_least, `confidence ${facts.confidence.toFixed(2)} >= ${when.confidence_at_least}`])
+    }
+    if (when.order_value_above !== undefined) {
+      checks.push([facts.order_value > when.order_value_above,
+        `order value ${money(facts.order_value)} > ${money(when.order_value_above)}`])
+    }
+    if (when.order_value_at_most !== undefined) {
+      checks.push([facts.order_value <= when.order_value_at_most,
+        `order value ${money(facts.order_value)} <= ${money(when.order_value_at_most)}`])
+    }
+    if (when.customer !== undefined) {
+      checks.push([facts.customer === when.customer, `${facts.customer} customer`])
+    }
+    if (when.customer_match !== undefined) {
+      checks.push([when.customer_match.includes(facts.customer_match), `customer matched by ${facts.customer_match.replace('_', ' and ')}`])
+    }
+    if (when.flag_severities !== undefined) {
+      const open = facts.flag_severities.filter(severity => when.flag_severities!.includes(severity))
+      checks.push([open.length > 0, `open ${open.join('/')} flag(s)`])
+    }
+    for (const key of BOOLEAN_CONDITIONS) {
+      if (when[key] !== undefined) {
+        checks.push([facts[key] === when[key], `${facts[key] ? '' : 'no '}${key.replace(/_/g, ' ')}`])
+      }
+    }
+
+    if (checks.some(([holds]) => !holds)) return null
+    return checks.length > 0 ? checks.map(([, reason]) => reason) : ['always']
+  }
+}
@@ -0,0 +1,321 @@
+import type {
+  ConfidenceVector,
+  CustomerInfo,
+  DeliveryInfo,
+  LineItem,
+  OrderStatus,
+  ProcessedOrder,
+  RawOrder
+} from '../../../shared/types/core'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { parseLooseDate } from '../utils/date'
+import { countryCode, regionCode } from '../utils/country'
+
+type ExtractedLineItem = EmailProcessingResult['line_items'][number]
+
+export interface ParsedAddress {
+  address_line_1?: string
+  address_line_2?: string
+  city?: string
+  state_province?: string
+  postal_code?: string
+  country?: string
+}
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/
+const POSTAL_CODE_PATTERN = /\b(\d{5}(-\d{4})?|\d{3}-\d{4}|[A-Z]\d[A-Z] ?\d[A-Z]\d|\d{4,6})\b/
+// "IL 62704" or "California 94105"
+const US_STATE_ZIP_PATTERN = /^([A-Za-z][A-Za-z .]*?)\s+(\d{5}(-\d{4})?)$/
+// "ON M5H 1A1" or "Nova Scotia B3H 1A1"
+const CA_PROVINCE_POSTAL_PATTERN = /^([A-Za-z][A-Za-z .]*?)\s+([A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d)$/
+const CA_POSTAL_PATTERN = /^[A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d$/
+
+const KNOWN_COUNTRIES = [
+  'usa', 'united states', 'canada', 'mexico', 'germany', 'france', 'spain', 'italy',
+  'united kingdom', 'uk', 'japan', 'china', 'lebanon', 'sweden', 'norway', 'denmark',
+  'netherlands', 'belgium', 'switzerland', 'austria', 'australia', 'india', 'brazil'
+]
+
+// Cities customers commonly give without a country
+const KNOWN_CITY_COUNTRIES: Record<string, string> = {
+  'mexico city': 'Mexico',
+  'tokyo': 'Japan',
+  'beirut': 'Lebanon',
+  'stuttgart': 'Germany'
+}
+
+// Section weights for overall_confidence; line items carry the order
+const SECTION_WEIGHTS = { customer_info: 0.25, delivery_info: 0.25, line_items: 0.5 }
+
+const RESOLUTION_CONSISTENCY: Record<NonNullable<ExtractedLineItem['resolution']>, number> = {
+  confirmed: 1,
+  resolved: 0.85,
+  corrected: 0.6,
+  unresolved: 0.2
+}
+
+/**
+ * Turns an extraction into per-field confidence vectors by combining the
+ * scores the model reports with deterministic checks (regex-valid contact
+ * details, catalog match quality, parseable dates, address completeness).
+ */
+export class ConfidenceScorer {
+
+  /**
+   * Attach confidence vectors and replace the model's confidence_score with
+   * one derived from them
+   */
+  score(result: EmailProcessingResult, now: Date = new Date()): EmailProcessingResult {
+    const customerVector = this.customerVector(result)
+    const deliveryVector = this.deliveryVector(result, now)
+    const lineItems = result.line_items.map(item => ({
+      ...item,
+      confidence_vector: this.lineItemVector(item, result)
+    }))
+
+    return {
+      ...result,
+      line_items: lineItems,
+      confidence_vectors: {
+        customer_info: customerVector,
+        delivery_info: deliveryVector
+      },
+      confidence_score: this.overallConfidence(
+        customerVector,
+        deliveryVector,
+        lineItems.map(item => item.confidence_vector)
+      )
+    }
+  }
+
+  /**
+   * Shape a scored extraction as a ProcessedOrder
+   */
+  toProcessedOrder(
+    result: EmailProcessingResult,
+    rawOrder: RawOrder,
+    status: OrderStatus = 'ai_parsed'
+  ): ProcessedOrder {
+    const scored = result.confidence_vectors ? result : this.score(result)
+    const vectors = scored.confidence_vectors!
+    const address = scored.delivery_info.address
+    const deliveryDate = this.parseDate(scored.delivery_info.delivery_date)
+
+    const customerInfo: CustomerInfo = {
+      name: scored.customer_info.name,
+      email: scored.customer_info.email,
+      phone: scored.customer_info.phone,
+      company: scored.customer_info.company,
+      confidence: vectors.customer_info
+    }
+
+    const deliveryInfo: DeliveryInfo = {
+      ...(address ? this.parseAddress(address) : {}),
+      formatted_address: address,
+      delivery_date: deliveryDate || undefined,
+      urgency: scored.delivery_info.urgency,
+      confidence: vectors.delivery_info
+    }
+
+    const lineItems: LineItem[] = scored.line_items.map((item, index) => ({
+      id: `${rawOrder.id}_item_${index + 1}`,
+      raw_description: item.description,
+      extracted_sku: item.sku,
+      extracted_product_name: item.match?.product.product_name,
+      quantity: item.quantity,
+      provenance: item.provenance,
+      confidence: item.confidence_vector || this.lineItemVector(item, scored)
+    }))
+
+    return {
+      id: rawOrder.id,
+      raw_order: rawOrder,
+      customer_info: customerInfo,
+      delivery_info: deliveryInfo,
+      line_items: lineItems,
+      overall_confidence: scored.confidence_score,
+      processing_timestamp: new Date(),
+      status,
+      flags: scored.flags || [],
+      suggestions: []
+    }
+  }
+
+  /**
+   * Mean of a vector's seven dimensions
+   */
+  vectorScore(vector: ConfidenceVector): number {
+    const values = Object.values(vector)
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+  }
+
+  parseAddress(address: string): ParsedAddress {
+    const parts = address.split(/,|\n/).map(part => part.trim()).filter(Boolean)
+    const parsed: ParsedAddress = {}
+    if (parts.length === 0) return parsed
+
+    const last = parts[parts.length - 1]
+    if (KNOWN_COUNTRIES.includes(last.toLowerCase())) {
+      parsed.country = last
+      parts.pop()
+    }
+
+    // Canadian postal code on its own line, before its province
+    if (parts.length > 1 && CA_POSTAL_PATTERN.test(parts[parts.length - 1])) {
+      parsed.postal_code = parts.pop()!.toUpperCase()
+      parsed.country = parsed.country || 'Canada'
+    }
+
+    // "IL 62704" style state + ZIP, "ON M5H 1A1" style province + postal code
+    const code = countryCode(parsed.country)
+    const tail = parts.length > 1 && !parsed.postal_code ? parts[parts.length - 1] : ''
+    const stateZip = tail.match(US_STATE_ZIP_PATTERN)
+    const provincePostal = tail.match(CA_PROVINCE_POSTAL_PATTERN)
+    const region = stateZip ? regionCode(stateZip[1], code || 'US')
+      : provincePostal ? regionCode(provincePostal[1], code || 'CA')
+      : parts.length > 1 && (code || parsed.postal_code) ? regionCode(parts[parts.length - 1], code)
+      : undefined
+    if (region) {
+      parsed.state_province = region.region
+      parsed.postal_code = parsed.postal_code || (stateZip?.[2] ?? provincePostal?.[2].toUpperCase())
+      parsed.country = parsed.country || (region.country === 'CA' ? 'Canada' : 'USA')
+      parts.pop()
+    }
+
+    // First part with a house number is the street line
+    const streetIndex = parts.findIndex(part => /\d/.test(part))
+    if (streetIndex >= 0) {
+      parsed.address_line_1 = parts[streetIndex]
+      parts.splice(streetIndex, 1)
+    } else if (parts.length > 1) {
+      parsed.address_line_1 = parts.shift()
+    }
+
+    if (parts.length > 0) {
+      // "70173 Stuttgart" style postal code in front of (or after) the city
+      const city = parts.pop()!
+      const postal = parsed.postal_code ? null : city.match(POSTAL_CODE_PATTERN)
+      if (postal) {
+        parsed.postal_code = postal[1]
+        parsed.city = city.replace(postal[0], '').trim() || undefined
+      } else {
+        parsed.city = city
+      }
+    }
+    if (parts.length > 0) {
+      parsed.address_line_2 = parts.join(', ')
+    }
+
+    const cityCountry = parsed.city ? KNOWN_CITY_COUNTRIES[parsed.city.toLowerCase()] : undefined
+    if (!parsed.country && cityCountry) {
+      parsed.country = cityCountry
+    }
+
+    return parsed
+  }
+
+  parseDate(value?: string): Date | null {
+    return parseLooseDate(value)
+  }
+
+  // Private helper methods
+
+  private customerVector(result: EmailProcessingResult): ConfidenceVector {
+    const { name, email, phone, company } = result.customer_info
+    const model = this.clamp(result.field_confidence?.customer_info ?? result.confidence_score)
+
+    const emailValid = email ? EMAIL_PATTERN.test(email.trim()) : false
+    const phoneValid = phone ? PHONE_PATTERN.test(phone.trim()) : false
+    const present = [name, email, phone, company].filter(Boolean).length
+
+    // Name and some way to reach the customer are what matter most
+    const completeness = (name ? 0.5 : 0) + (emailValid || phoneValid ? 0.3 : 0) + (company ? 0.1 : 0) + (present >= 3 ? 0.1 : 0)
+    const invalidContact = (email && !emailValid) || (phone && !phoneValid)
+
+    return {
+      semantic_clarity: model,
+      data_completeness: completeness,
+      context_consistency: invalidContact ? 0.3 : this.nameMatchesEmail(name, email) ? 1 : 0.8,
+      domain_familiarity: model,
+      temporal_stability: 0.9,
+      cultural_accuracy: name ? 0.9 : 0.6,
+      business_viability: emailValid || phoneValid ? 1 : name ? 0.7 : 0.3
+    }
+  }
+
+  private deliveryVector(result: EmailProcessingResult, now: Date): ConfidenceVector {
+    const { address, delivery_date } = result.delivery_info
+    const model = this.clamp(result.field_confidence?.delivery_info ?? result.confidence_score)
+
+    const parsedAddress = address ? this.parseAddress(address) : {}
+    const addressCompleteness = address
+      ? [parsedAddress.address_line_1, parsedAddress.city, parsedAddress.country || parsedAddress.postal_code]
+          .filter(Boolean).length / 3
+      : 0
+
+    const date = this.parseDate(delivery_date)
+    const dateInPast = date ? date.getTime() < now.getTime() : false
+
+    return {
+      semantic_clarity: model,
+      data_completeness: address ? 0.4 + addressCompleteness * 0.6 : 0,
+      context_consistency: delivery_date && !date ? 0.4 : 0.9,
+      domain_familiarity: model,
+      temporal_stability: date ? (dateInPast ? 0.3 : 0.9) : delivery_date ? 0.4 : 0.6,
+      cultural_accuracy: parsedAddress.country ? 1 : address ? 0.6 : 0.3,
+      business_viability: !address ? 0.2 : dateInPast ? 0.4 : 0.9
+    }
+  }
+
+  private lineItemVector(item: ExtractedLineItem, result: EmailProcessingResult): ConfidenceVector {
+    const model = this.clamp(item.model_confidence ?? result.confidence_score)
+    const product = item.match?.product
+    const matchQuality = item.sku ? item.match?.confidence ?? 0.5 : 0
+    const hasQuantity = typeof item.quantity === 'number' && item.quantity > 0
+
+    let viability = 0.2
+    if (product && hasQuantity) {
+      const inStock = product.available_in_stock >= item.quantity!
+      const meetsMoq = item.quantity! >= product.min_order_quantity
+      viability = inStock && meetsMoq ? 1 : inStock || meetsMoq ? 0.6 : 0.3
+    }
+
+    return {
+      semantic_clarity: model,
+      data_completeness: (item.sku ? 0.5 : 0) + (hasQuantity ? 0.5 : 0),
+      context_consistency: item.resolution ? RESOLUTION_CONSISTENCY[item.resolution] : 0.5,
+      domain_familiarity: matchQuality,
+      temporal_stability: 0.9,
+      cultural_accuracy: 0.9,
+      business_viability: viability
+    }
+  }
+
+  private overallConfidence(
+    customer: ConfidenceVector,
+    delivery: ConfidenceVector,
+    lineItems: ConfidenceVector[]
+  ): number {
+    const itemsScore = lineItems.length > 0
+      ? lineItems.reduce((sum, vector) => sum + this.vectorScore(vector), 0) / lineItems.length
+      : 0
+
+    const overall =
+      this.vectorScore(customer) * SECTION_WEIGHTS.customer_info +
+      this.vectorScore(delivery) * SECTION_WEIGHTS.delivery_info +
+      itemsScore * SECTION_WEIGHTS.line_items
+
+    return Math.round(overall * 1000) / 1000
+  }
+
+  private nameMatchesEmail(name?: string, email?: string): boolean {
+    if (!name || !email) return false
+    const local = email.split('@')[0].toLowerCase()
+    return name.toLowerCase().split(/\s+/).some(part => part.length > 2 && local.includes(part))
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0.5))
+  }
+}
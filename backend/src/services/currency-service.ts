@@ -0,0 +1,106 @@
+import fs from 'fs'
+import path from 'path'
+import { formatMoney, roundMoney } from '../utils/money'
+import { logger } from '../utils/logger'
+
+export interface ExchangeRates {
+  base: string
+  as_of?: string
+  // Units of each currency per one unit of the base currency
+  rates: Record<string, number>
+  // Billing currency and number formatting per ISO country code
+  countries: Record<string, { currency: string, locale: string }>
+}
+
+export class UnsupportedCurrencyError extends Error {
+  constructor(public readonly currency: string) {
+    super(`No exchange rate for ${currency}`)
+    this.name = 'UnsupportedCurrencyError'
+  }
+}
+
+export const DEFAULT_EXCHANGE_RATES_PATH = path.join(process.cwd(), '../data/exchange-rates.json')
+
+const BASE_ONLY: ExchangeRates = { base: 'USD', rates: { USD: 1 }, countries: {} }
+
+/**
+ * Read the exchange rates file; without one only the base currency is available
+ */
+export function loadExchangeRates(file: string = process.env.EXCHANGE_RATES_PATH || DEFAULT_EXCHANGE_RATES_PATH): ExchangeRates {
+  if (!fs.existsSync(file)) {
+    logger.warn('Exchange rates file not found, billing in USD only', { file })
+    return BASE_ONLY
+  }
+
+  try {
+    const rates = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<ExchangeRates>
+    const base = rates.base || BASE_ONLY.base
+    return {
+      base,
+      as_of: rates.as_of,
+      rates: { ...rates.rates, [base]: 1 },
+      countries: rates.countries || {}
+    }
+  } catch (error) {
+    logger.error('Failed to load exchange rates, billing in USD only', { file, error })
+    return BASE_ONLY
+  }
+}
+
+/**
+ * Converts between currencies with the local rates table and decides which
+ * currency an order is billed in
+ */
+export class CurrencyService {
+  constructor(private table: ExchangeRates = loadExchangeRates()) {}
+
+  get base(): string {
+    return this.table.base
+  }
+
+  get asOf(): string | undefined {
+    return this.table.as_of
+  }
+
+  isSupported(currency: string): boolean {
+    return this.table.rates[currency.toUpperCase()] !== undefined
+  }
+
+  /**
+   * Convert and round to the target currency's smallest unit
+   */
+  convert(amount: number, from: string, to: string): number {
+    return roundMoney(this.convertExact(amount, from, to), to)
+  }
+
+  /**
+   * Convert without rounding, for amounts that are summed before display
+   */
+  convertExact(amount: number, from: string, to: string): number {
+    if (from === to) return amount
+    const fromRate = this.table.rates[from.toUpperCase()]
+    const toRate = this.table.rates[to.toUpperCase()]
+    if (fromRate === undefined) throw new UnsupportedCurrencyError(from)
+    if (toRate === undefined) throw new UnsupportedCurrencyError(to)
+    return amount / fromRate * toRate
+  }
+
+  /**
+   * The customer's own billing currency, else the destination country's,
+   * else the base currency
+   */
+  billingCurrency(customerCurrency?: string | null, country?: string): string {
+    if (customerCurrency && this.isSupported(customerCurrency)) return customerCurrency.toUpperCase()
+    const countryCurrency = country ? this.table.countries[country]?.currency : undefined
+    if (countryCurrency && this.isSupported(countryCurrency)) return countryCurrency
+    return this.table.base
+  }
+
+  localeFor(country?: string): string {
+    return (country && this.table.countries[country]?.locale) || 'en-US'
+  }
+
+  format(amount: number, currency: string, country?: string): string {
+    return formatMoney(amount, currency, this.localeFor(country))
+  }
+}
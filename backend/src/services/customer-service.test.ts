@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  InMemoryCustomerRepository,
+  InMemoryOrderRepository,
+  type NewCustomerRecord
+} from '../repositories'
+import { CurrencyService } from './currency-service'
+import { CustomerService } from './customer-service'
+import { PricingEngine } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { TaxService } from './tax-service'
+
+function customer(overrides: Partial<NewCustomerRecord> = {}): NewCustomerRecord {
+  return {
+    aliases: [],
+    typical_products: [],
+    order_count: 0,
+    total_spent: 0,
+    ...overrides
+  }
+}
+
+describe('CustomerService', () => {
+  let customers: InMemoryCustomerRepository
+  let orders: InMemoryOrderRepository
+  let service: CustomerService
+
+  beforeEach(() => {
+    customers = new InMemoryCustomerRepository()
+    orders = new InMemoryOrderRepository()
+    const catalog = new ProductCatalogService()
+    service = new CustomerService(customers, orders, catalog, new PricingEngine(catalog, new CurrencyService(), new TaxService()))
+  })
+
+  describe('match', () => {
+    it('matches the exact email or a known alias first', async () => {
+      const acme = await customers.create(customer({
+        email: 'buyer@acme.com',
+        domain: 'acme.com',
+        aliases: ['orders@acme-group.com']
+      }))
+
+      expect(await service.match({ email: ' Buyer@Acme.com ' }))
+        .toMatchObject({ customer: { id: acme.id }, method: 'email', score: 1 })
+      expect(await service.match({ email: 'orders@acme-group.com' }))
+        .toMatchObject({ customer: { id: acme.id }, method: 'email' })
+    })
+
+    it('matches a company domain, preferring the account whose name fits', async () => {
+      await customers.create(customer({ email: 'a@acme.com', domain: 'acme.com', name: 'Jane Doe', order_count: 9 }))
+      const john = await customers.create(customer({ email: 'b@acme.com', domain: 'acme.com', name: 'John Smith', order_count: 1 }))
+
+      expect(await service.match({ email: 'new@acme.com', name: 'John Smith' }))
+        .toMatchObject({ customer: { id: john.id }, method: 'domain' })
+      expect(await service.match({ email: 'new@acme.com' }))
+        .toMatchObject({ customer: { name: 'Jane Doe' }, method: 'domain' })
+    })
+
+    it('never matches on a free-mail domain', async () => {
+      await customers.create(customer({ email: 'someone@gmail.com', name: 'Someone' }))
+
+      expect(await service.match({ email: 'other@gmail.com' })).toBeNull()
+    })
+
+    it('matches the company name without legal suffixes', async () => {
+      const acme = await customers.create(customer({ email: 'buyer@acme.com', company: 'Acme Corp' }))
+
+      expect(await service.match({ email: 'acme.buyer@gmail.com', company: 'ACME Inc.' }))
+        .toMatchObject({ customer: { id: acme.id }, method: 'company' })
+    })
+
+    it('falls back to name plus delivery address', async () => {
+      const john = await customers.create(customer({
+        name: 'John Smith',
+        address: '123 Main Street, Suite 200, Anytown, CA 90210'
+      }))
+
+      expect(await service.match({ name: 'john smith', address: '123 Main St, Suite 200, Anytown CA 90210' }))
+        .toMatchObject({ customer: { id: john.id }, method: 'name_address' })
+      expect(await service.match({ name: 'John Smith', address: '9 Harbour Road, Portsmouth' })).toBeNull()
+    })
+  })
+
+  describe('merge', () => {
+    it('moves aliases, aggregates and orders to the target and deletes the source', async () => {
+      const target = await customers.create(customer({
+        email: 'buyer@acme.com',
+        domain: 'acme.com',
+        typical_products: [{ sku: 'DSK-0001', quantity: 4, orders: 2 }],
+        order_count: 2,
+        total_spent: 100.1,
+        last_order_at: '2025-01-01T00:00:00.000Z'
+      }))
+      const source = await customers.create(customer({
+        email: 'Acme.Buyer@gmail.com',
+        aliases: ['old@acme.com'],
+        phone: '+1 555 0100',
+        typical_products: [
+          { sku: 'DSK-0001', quantity: 2, orders: 1 },
+          { sku: 'CFT-0167', quantity: 1, orders: 1 }
+        ],
+        order_count: 1,
+        total_spent: 50.2,
+        last_order_at: '2025-03-01T00:00:00.000Z'
+      }))
+      await orders.create({
+        id: 'o1',
+        raw_email: 'Please send 2 x DSK-0001',
+        urgency: 'medium',
+        line_items: [],
+        confidence_score: 0.9,
+        status: 'approved',
+        flags: [],
+        suggestions: [],
+        customer_id: source.id
+      })
+
+      const merged = await service.merge(target.id, source.id)
+
+      expect(merged).toMatchObject({
+        email: 'buyer@acme.com',
+        phone: '+1 555 0100',
+        order_count: 3,
+        total_spent: 150.3,
+        last_order_at: '2025-03-01T00:00:00.000Z',
+        typical_products: [
+          { sku: 'DSK-0001', quantity: 6, orders: 3 },
+          { sku: 'CFT-0167', quantity: 1, orders: 1 }
+        ]
+      })
+      expect(merged!.aliases.sort()).toEqual(['acme.buyer@gmail.com', 'old@acme.com'])
+      expect(await customers.findById(source.id)).toBeNull()
+      expect((await orders.findById('o1'))!.customer_id).toBe(target.id)
+    })
+
+    it('returns null when either customer is missing', async () => {
+      const target = await customers.create(customer({ email: 'buyer@acme.com' }))
+
+      expect(await service.merge(target.id, 'missing')).toBeNull()
+    })
+  })
+})
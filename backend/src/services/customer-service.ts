@@ -0,0 +1,385 @@
+import type {
+  CustomerRecord,
+  CustomerRepository,
+  CustomerUpdate,
+  OrderRecord,
+  OrderRepository,
+  TypicalProduct
+} from '../repositories'
+import type { Suggestion, ValidationFlag } from '../../../shared/types/core'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { PricingEngine } from './pricing-engine'
+import { normalizeForMatching, similarity } from '../utils/text'
+import { logger } from '../utils/logger'
+
+export interface CustomerIdentity {
+  email?: string
+  name?: string
+  company?: string
+  phone?: string
+  address?: string
+}
+
+export interface CustomerMatch {
+  customer: CustomerRecord
+  method: 'email' | 'domain' | 'company' | 'name_address'
+  score: number
+}
+
+/**
+ * What the extraction prompt is told about a known customer
+ */
+export interface CustomerProfile {
+  name?: string
+  company?: string
+  email?: string
+  default_address?: string
+  order_count: number
+  typical_products: string[]
+}
+
+// Mailbox providers whose domain says nothing about the sender's company
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com',
+  'icloud.com', 'me.com', 'aol.com', 'gmx.de', 'gmx.net', 'web.de', 'proton.me', 'protonmail.com',
+  'mail.com', 'yandex.com', 'zoho.com'
+])
+
+const COMPANY_SUFFIX = /\b(inc|llc|ltd|gmbh|ag|co|corp|corporation|company|sa|sarl|bv|plc|limited)\b/g
+
+const MATCH_SCORES = { email: 1, domain: 0.85, company: 0.75, name_address: 0.7 }
+const COMPANY_SIMILARITY = 0.88
+const NAME_SIMILARITY = 0.85
+const ADDRESS_SIMILARITY = 0.7
+
+// Customers compared for fuzzy company and name/address matches
+const CANDIDATE_LIMIT = 1000
+const TYPICAL_PRODUCTS_LIMIT = 20
+
+// Fields that may be changed through PATCH /api/customers/:id
+const EDITABLE_FIELDS = ['name', 'company', 'phone', 'address', 'currency', 'tax_exempt', 'tax_id'] as const
+
+/**
+ * Customer master data: matches incoming orders to known customers, grows
+ * the records as orders are approved and supplies what is known about a
+ * customer to extraction and review
+ */
+export class CustomerService {
+  constructor(
+    private customers: CustomerRepository,
+    private orders: OrderRepository,
+    private catalog: ProductCatalogService,
+    private pricing: PricingEngine
+  ) {}
+
+  /**
+   * Best existing customer for the sender: exact email or alias first, then
+   * company domain, company name, and finally name plus delivery address
+   */
+  async match(identity: CustomerIdentity): Promise<CustomerMatch | null> {
+    const email = identity.email?.trim().toLowerCase()
+
+    if (email) {
+      const byEmail = await this.customers.findByEmail(email)
+      if (byEmail) return { customer: byEmail, method: 'email', score: MATCH_SCORES.email }
+
+      const domain = this.companyDomain(email)
+      if (domain) {
+        const { customers } = await this.customers.list({ domain })
+        // Several accounts on one domain: the one whose name fits, else the busiest
+        const best = customers.length > 1
+          ? this.closestByName(customers, identity) || customers.sort((a, b) => b.order_count - a.order_count)[0]
+          : customers[0]
+        if (best) return { customer: best, method: 'domain', score: MATCH_SCORES.domain }
+      }
+    }
+
+    const { customers } = await this.customers.list({ limit: CANDIDATE_LIMIT })
+
+    const company = identity.company ? this.normalizeCompany(identity.company) : ''
+    if (company) {
+      const byCompany = customers
+        .filter(customer => customer.company)
+        .map(customer => ({ customer, score: similarity(company, this.normalizeCompany(customer.company!)) }))
+        .filter(candidate => candidate.score >= COMPANY_SIMILARITY)
+        .sort((a, b) => b.score - a.score)[0]
+      if (byCompany) return { customer: byCompany.customer, method: 'company', score: MATCH_SCORES.company }
+    }
+
+    if (identity.name && identity.address) {
+      const name = normalizeForMatching(identity.name)
+      const address = normalizeForMatching(identity.address)
+      const byNameAddress = customers.find(customer =>
+        customer.name && customer.address &&
+        similarity(name, normalizeForMatching(customer.name)) >= NAME_SIMILARITY &&
+        similarity(address, normalizeForMatching(customer.address)) >= ADDRESS_SIMILARITY
+      )
+      if (byNameAddress) return { customer: byNameAddress, method: 'name_address', score: MATCH_SCORES.name_address }
+    }
+
+    return null
+  }
+
+  profile(customer: CustomerRecord): CustomerProfile {
+    return {
+      name: customer.name || undefined,
+      company: customer.company || undefined,
+      email: customer.email || undefined,
+      default_address: customer.address || undefined,
+      order_count: customer.order_count,
+      typical_products: customer.typical_products
+        .slice(0, 8)
+        .map(product => `${product.sku}${product.name ? ` ${product.name}` : ''} (usually ${Math.round(product.quantity / Math.max(1, product.orders))})`)
+    }
+  }
+
+  /**
+   * Review hints from the customer record: how the match was made, a missing
+   * address the customer usually ships to, or an unusual delivery address
+   */
+  reviewHints(result: EmailProcessingResult, match: CustomerMatch): { flags: ValidationFlag[], suggestions: Suggestion[] } {
+    const { customer } = match
+    const label = customer.company || customer.name || customer.email || customer.id
+    const flags: ValidationFlag[] = []
+    const suggestions: Suggestion[] = []
+
+    if (match.method !== 'email') {
+      flags.push({
+        type: 'ambiguous_reference',
+        severity: 'info',
+        message: `Matched to existing customer ${label} by ${match.method.replace('_', ' and ')}`,
+        field_path: 'customer_info',
+        suggested_action: 'Confirm this is the same customer',
+        auto_fixable: false
+      })
+    }
+
+    const address = result.delivery_info.address
+    if (!address && customer.address) {
+      flags.push({
+        type: 'missing_data',
+        severity: 'warning',
+        message: `No delivery address in the email; ${label} usually ships to ${customer.address}`,
+        field_path: 'delivery_info.address',
+        suggested_action: 'Confirm the default delivery address with the customer',
+        auto_fixable: true
+      })
+      suggestions.push({
+        id: `suggestion_address_${customer.id}`,
+        type: 'address_correction',
+        confidence: match.score,
+        reasoning: `Default delivery address of ${label}`,
+        original_value: null,
+        suggested_value: customer.address,
+        business_impact: 'medium'
+      })
+    } else if (address && customer.address &&
+      similarity(normalizeForMatching(address), normalizeForMatching(customer.address)) < ADDRESS_SIMILARITY) {
+      flags.push({
+        type: 'data_inconsistency',
+        severity: 'info',
+        message: `Delivery address differs from ${label}'s usual address (${customer.address})`,
+        field_path: 'delivery_info.address',
+        suggested_action: 'Check the new delivery address is intended',
+        auto_fixable: false
+      })
+    }
+
+    return { flags, suggestions }
+  }
+
+  /**
+   * Fold an approved order into the customer record, creating the customer
+   * on their first approved order; re-approvals are not counted twice
+   */
+  async recordApprovedOrder(order: OrderRecord): Promise<CustomerRecord> {
+    const history = await this.orders.getStatusHistory(order.id)
+    const approvals = history.filter(entry => entry.to_status === 'approved').length
+
+    const identity: CustomerIdentity = {
+      email: order.customer_email || order.source_metadata?.sender_email,
+      name: order.customer_name,
+      company: order.customer_company,
+      address: order.delivery_address
+    }
+    const linked = order.customer_id ? await this.customers.findById(order.customer_id) : null
+    const existing = linked || (await this.match(identity))?.customer || null
+    const countOrder = approvals <= 1
+
+    const total = countOrder ? (await this.pricing.priceOrder(order.line_items || [], { customer: existing })).total : 0
+    let customer: CustomerRecord
+
+    if (existing) {
+      customer = (await this.customers.update(existing.id, {
+        ...this.fillGaps(existing, identity),
+        ...(countOrder ? {
+          order_count: existing.order_count + 1,
+          total_spent: Math.round((existing.total_spent + total) * 100) / 100,
+          typical_products: await this.addTypicalProducts(existing.typical_products, order.line_items),
+          last_order_at: new Date().toISOString()
+        } : {})
+      }))!
+    } else {
+      const email = identity.email?.trim().toLowerCase()
+      customer = await this.customers.create({
+        email,
+        name: identity.name,
+        company: identity.company,
+        address: identity.address,
+        domain: email ? this.companyDomain(email) : null,
+        aliases: [],
+        typical_products: await this.addTypicalProducts([], order.line_items),
+        order_count: 1,
+        total_spent: total,
+        last_order_at: new Date().toISOString()
+      })
+      logger.info('Customer created', { customer_id: customer.id, order_id: order.id })
+    }
+
+    if (order.customer_id !== customer.id) {
+      await this.orders.update(order.id, { customer_id: customer.id })
+    }
+
+    return customer
+  }
+
+  /**
+   * Merge a duplicate customer into another: aliases, aggregates and orders
+   * move to the target and the source record is deleted
+   */
+  async merge(targetId: string, sourceId: string): Promise<CustomerRecord | null> {
+    if (targetId === sourceId) return this.customers.findById(targetId)
+
+    const [target, source] = await Promise.all([
+      this.customers.findById(targetId),
+      this.customers.findById(sourceId)
+    ])
+    if (!target || !source) return null
+
+    const aliases = new Set([...target.aliases, ...source.aliases])
+    if (source.email && source.email !== target.email) aliases.add(source.email.toLowerCase())
+
+    const typical = [...target.typical_products]
+    for (const product of source.typical_products) {
+      const known = typical.find(candidate => candidate.sku === product.sku)
+      if (known) {
+        known.quantity += product.quantity
+        known.orders += product.orders
+      } else {
+        typical.push({ ...product })
+      }
+    }
+
+    const { orders } = await this.orders.list({ customer_id: sourceId })
+    await Promise.all(orders.map(order => this.orders.update(order.id, { customer_id: targetId })))
+    await this.customers.delete(sourceId)
+
+    const merged = await this.customers.update(targetId, {
+      ...this.fillGaps(target, {
+        name: source.name || undefined,
+        company: source.company || undefined,
+        phone: source.phone || undefined,
+        address: source.address || undefined
+      }),
+      domain: target.domain || source.domain,
+      currency: target.currency || source.currency,
+      tax_id: target.tax_id || source.tax_id,
+      aliases: Array.from(aliases),
+      typical_products: this.rankTypicalProducts(typical),
+      order_count: target.order_count + source.order_count,
+      total_spent: Math.round((target.total_spent + source.total_spent) * 100) / 100,
+      last_order_at: [target.last_order_at, source.last_order_at].filter(Boolean).sort().pop() || null
+    })
+
+    logger.info('Customers merged', { target: targetId, source: sourceId, orders_moved: orders.length })
+    return merged
+  }
+
+  async getCustomer(id: string): Promise<CustomerRecord | null> {
+    return this.customers.findById(id)
+  }
+
+  /**
+   * Apply edits to the editable fields; anything else in `changes` is ignored
+   */
+  async updateCustomer(id: string, changes: Record<string, unknown>): Promise<CustomerRecord | null> {
+    const updates: CustomerUpdate = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = changes[field]
+      }
+    }
+    if (typeof updates.currency === 'string') updates.currency = updates.currency.toUpperCase()
+
+    return Object.keys(updates).length > 0
+      ? this.customers.update(id, updates)
+      : this.customers.findById(id)
+  }
+
+  async listCustomers(query?: { search?: string, limit?: number, offset?: number }) {
+    return this.customers.list(query)
+  }
+
+  // Private helper methods
+
+  private companyDomain(email: string): string | null {
+    const domain = email.split('@')[1]?.toLowerCase()
+    return domain && !FREE_MAIL_DOMAINS.has(domain) ? domain : null
+  }
+
+  private normalizeCompany(company: string): string {
+    return normalizeForMatching(company).replace(COMPANY_SUFFIX, '').replace(/\s+/g, ' ').trim()
+  }
+
+  private closestByName(customers: CustomerRecord[], identity: CustomerIdentity): CustomerRecord | undefined {
+    if (!identity.name) return undefined
+    const name = normalizeForMatching(identity.name)
+    return customers.find(customer =>
+      customer.name && similarity(name, normalizeForMatching(customer.name)) >= NAME_SIMILARITY
+    )
+  }
+
+  // Missing contact fields filled in; a new sender address becomes an alias
+  private fillGaps(customer: CustomerRecord, identity: CustomerIdentity): CustomerUpdate {
+    const updates: CustomerUpdate = {}
+    if (!customer.name && identity.name) updates.name = identity.name
+    if (!customer.company && identity.company) updates.company = identity.company
+    if (!customer.phone && identity.phone) updates.phone = identity.phone
+    if (!customer.address && identity.address) updates.address = identity.address
+
+    const email = identity.email?.trim().toLowerCase()
+    if (email && !customer.email) {
+      updates.email = email
+      updates.domain = customer.domain || this.companyDomain(email)
+    } else if (email && email !== customer.email?.toLowerCase() && !customer.aliases.includes(email)) {
+      updates.aliases = [...customer.aliases, email]
+    }
+
+    return updates
+  }
+
+  private async addTypicalProducts(current: TypicalProduct[], lineItems: OrderRecord['line_items']): Promise<TypicalProduct[]> {
+    const products = current.map(product => ({ ...product }))
+
+    for (const item of lineItems || []) {
+      if (!item.sku) continue
+      const known = products.find(product => product.sku === item.sku)
+      if (known) {
+        known.quantity += item.quantity || 0
+        known.orders += 1
+      } else {
+        const product = await this.catalog.findBySKU(item.sku)
+        products.push({ sku: item.sku, name: product?.product_name, quantity: item.quantity || 0, orders: 1 })
+      }
+    }
+
+    return this.rankTypicalProducts(products)
+  }
+
+  private rankTypicalProducts(products: TypicalProduct[]): TypicalProduct[] {
+    return products
+      .sort((a, b) => b.orders - a.orders || b.quantity - a.quantity)
+      .slice(0, TYPICAL_PRODUCTS_LIMIT)
+  }
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryOrderRepository, type NewOrderRecord } from '../repositories'
+import { DuplicateDetector } from './duplicate-detector'
+
+function order(overrides: Partial<NewOrderRecord> = {}): NewOrderRecord {
+  return {
+    id: 'o1',
+    raw_email: 'Please send 4 x DSK-0001 and 2 x CFT-0167',
+    customer_email: 'buyer@acme.com',
+    delivery_address: '123 Main Street, Anytown',
+    delivery_date: '2025-06-10',
+    urgency: 'medium',
+    line_items: [
+      { description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 4 },
+      { description: 'Coffee STRÅDAL 620', sku: 'CFT-0167', quantity: 2 }
+    ],
+    confidence_score: 0.9,
+    status: 'needs_review',
+    flags: [],
+    suggestions: [],
+    ...overrides
+  }
+}
+
+describe('DuplicateDetector', () => {
+  let orders: InMemoryOrderRepository
+  let detector: DuplicateDetector
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository()
+    detector = new DuplicateDetector(orders)
+  })
+
+  it('matches a resend from the same customer by fingerprint', async () => {
+    await orders.create(order())
+
+    const match = await detector.findDuplicate(order({
+      id: 'o2',
+      customer_email: ' Buyer@Acme.com ',
+      delivery_address: '123 Main Street Anytown',
+      line_items: [
+        { description: 'desk', sku: 'dsk-0001', quantity: 4 },
+        { description: 'coffee table', sku: 'CFT-0167', quantity: 2 }
+      ]
+    }))
+
+    expect(match).toMatchObject({ order: { id: 'o1' }, score: 1 })
+    expect(match!.reasons).toEqual(['same customer', 'same items and quantities', 'same delivery address', 'same delivery date'])
+    expect(detector.toFlag(match!)).toMatchObject({ field_path: 'duplicate_of', related_order_id: 'o1' })
+  })
+
+  it('accepts delivery dates inside the window and rejects those outside it', async () => {
+    await orders.create(order())
+
+    expect(await detector.findDuplicate(order({ id: 'o2', delivery_date: '2025-06-12' })))
+      .toMatchObject({ order: { id: 'o1' }, reasons: expect.arrayContaining(['delivery dates 2 day(s) apart']) })
+    expect(await detector.findDuplicate(order({ id: 'o2', delivery_date: '2025-06-20' }))).toBeNull()
+  })
+
+  it('ignores other customers and orders that share too few items', async () => {
+    await orders.create(order())
+
+    expect(await detector.findDuplicate(order({ id: 'o2', customer_email: 'someone@else.com' }))).toBeNull()
+    // Half the quantity in common scores 0.7, under the 0.75 threshold
+    expect(await detector.findDuplicate(order({
+      id: 'o2',
+      line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 3 }]
+    }))).toBeNull()
+  })
+
+  it('skips the order itself, the order it amends and rejected orders', async () => {
+    await orders.create(order())
+    await orders.create(order({ id: 'o2', status: 'rejected' }))
+
+    expect(await detector.findDuplicate(order())).toBeNull()
+    expect(await detector.findDuplicate(order({ id: 'o3', amends_order_id: 'o1' }))).toBeNull()
+  })
+
+  it('points a repeat of a suspected duplicate at the original order', async () => {
+    await orders.create(order())
+    await orders.create(order({ id: 'o2', duplicate_of: 'o1', customer_email: 'cc@acme.com', customer_company: 'Acme' }))
+
+    // Only the copy shares the company key, but the original is returned
+    const match = await detector.findDuplicate(order({ id: 'o3', customer_email: undefined, customer_company: 'ACME' }))
+
+    expect(match?.order.id).toBe('o1')
+  })
+})
@@ -0,0 +1,160 @@
+import type { NewOrderRecord, OrderRecord, OrderRepository } from '../repositories'
+import type { ValidationFlag } from '../../../shared/types/core'
+import { parseLooseDate } from '../utils/date'
+import { normalizeForMatching, similarity } from '../utils/text'
+
+/**
+ * What two orders are compared on: who ordered, what, where and when
+ */
+export interface OrderFingerprint {
+  // Any shared key means the same customer (customer ID, email, company or name)
+  customer_keys: string[]
+  // SKU (or description) -> quantity
+  items: Map<string, number>
+  address?: string
+  delivery_date?: Date
+}
+
+export interface DuplicateMatch {
+  order: OrderRecord
+  score: number
+  reasons: string[]
+}
+
+type Comparable = Pick<NewOrderRecord,
+  'customer_id' | 'customer_email' | 'customer_company' | 'customer_name' |
+  'delivery_address' | 'delivery_date' | 'line_items' | 'source_metadata'
+>
+
+// Only orders received this recently are compared
+const LOOKBACK_DAYS = 14
+const CANDIDATE_LIMIT = 200
+// Delivery dates further apart than this are separate orders
+const DATE_WINDOW_DAYS = 3
+const ADDRESS_SIMILARITY = 0.8
+const DUPLICATE_THRESHOLD = 0.75
+
+const WEIGHTS = { items: 0.6, address: 0.2, delivery_date: 0.2 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Spots the same order arriving twice (resent, CC'd to two reps, forwarded
+ * by a colleague) by fingerprint rather than by identical content
+ */
+export class DuplicateDetector {
+  constructor(private repository: OrderRepository) {}
+
+  fingerprint(order: Comparable): OrderFingerprint {
+    const keys: string[] = []
+    if (order.customer_id) keys.push(`id:${order.customer_id}`)
+    for (const email of [order.customer_email, order.source_metadata?.sender_email]) {
+      if (email) keys.push(`email:${email.trim().toLowerCase()}`)
+    }
+    if (order.customer_company) keys.push(`company:${normalizeForMatching(order.customer_company)}`)
+    if (order.customer_name) keys.push(`name:${normalizeForMatching(order.customer_name)}`)
+
+    const items = new Map<string, number>()
+    for (const item of order.line_items || []) {
+      const key = item.sku ? String(item.sku).toUpperCase() : normalizeForMatching(item.description || '')
+      if (!key) continue
+      items.set(key, (items.get(key) || 0) + (Number(item.quantity) || 0))
+    }
+
+    return {
+      customer_keys: [...new Set(keys)],
+      items,
+      address: order.delivery_address ? normalizeForMatching(order.delivery_address) : undefined,
+      delivery_date: parseLooseDate(order.delivery_date) || undefined
+    }
+  }
+
+  /**
+   * Most likely earlier order the new one repeats, if any scores above the threshold
+   */
+  async findDuplicate(order: Comparable & { id?: string, amends_order_id?: string | null }): Promise<DuplicateMatch | null> {
+    const fingerprint = this.fingerprint(order)
+    if (fingerprint.items.size === 0 || fingerprint.customer_keys.length === 0) return null
+
+    const { orders } = await this.repository.list({
+      created_after: new Date(Date.now() - LOOKBACK_DAYS * DAY_MS).toISOString(),
+      limit: CANDIDATE_LIMIT
+    })
+
+    let best: DuplicateMatch | null = null
+    // Newest first; on a tie the earlier order is the original
+    for (const candidate of orders) {
+      if (candidate.id === order.id || candidate.id === order.amends_order_id || candidate.status === 'rejected') continue
+
+      const match = this.compare(fingerprint, this.fingerprint(candidate))
+      if (match && match.score >= DUPLICATE_THRESHOLD && (!best || match.score >= best.score)) {
+        best = { order: candidate, ...match }
+      }
+    }
+
+    // A repeat of a suspected duplicate points at the same original
+    if (best?.order.duplicate_of) {
+      const original = await this.repository.findById(best.order.duplicate_of)
+      if (original) best = { ...best, order: original }
+    }
+
+    return best
+  }
+
+  toFlag(match: DuplicateMatch): ValidationFlag {
+    return {
+      type: 'data_inconsistency',
+      severity: 'warning',
+      message: `Likely duplicate of order ${match.order.id} (${match.reasons.join(', ')})`,
+      field_path: 'duplicate_of',
+      suggested_action: `Merge into order ${match.order.id}, or dismiss if this is a separate order`,
+      auto_fixable: false,
+      related_order_id: match.order.id
+    }
+  }
+
+  // Private helper methods
+
+  private compare(a: OrderFingerprint, b: OrderFingerprint): { score: number, reasons: string[] } | null {
+    if (!a.customer_keys.some(key => b.customer_keys.includes(key))) return null
+
+    // Delivery dates far apart: a repeat order, not a resend
+    const dateGap = a.delivery_date && b.delivery_date
+      ? Math.abs(a.delivery_date.getTime() - b.delivery_date.getTime()) / DAY_MS
+      : null
+    if (dateGap !== null && dateGap > DATE_WINDOW_DAYS) return null
+
+    const reasons = ['same customer']
+
+    const items = this.itemOverlap(a.items, b.items)
+    reasons.push(items === 1 ? 'same items and quantities' : `${Math.round(items * 100)}% item overlap`)
+
+    let address = 0.5
+    if (a.address && b.address) {
+      address = similarity(a.address, b.address) >= ADDRESS_SIMILARITY ? 1 : 0
+      if (address) reasons.push('same delivery address')
+    }
+
+    let deliveryDate = 0.5
+    if (dateGap !== null) {
+      deliveryDate = 1
+      reasons.push(dateGap === 0 ? 'same delivery date' : `delivery dates ${Math.round(dateGap)} day(s) apart`)
+    }
+
+    const score = items * WEIGHTS.items + address * WEIGHTS.address + deliveryDate * WEIGHTS.delivery_date
+    return { score: Math.round(score * 1000) / 1000, reasons }
+  }
+
+  // Shared quantity over total quantity across both multisets
+  private itemOverlap(a: Map<string, number>, b: Map<string, number>): number {
+    let shared = 0
+    let total = 0
+    for (const key of new Set([...a.keys(), ...b.keys()])) {
+      const left = a.get(key) || 0
+      const right = b.get(key) || 0
+      shared += Math.min(left, right)
+      total += Math.max(left, right)
+    }
+    return total > 0 ? shared / total : 0
+  }
+}
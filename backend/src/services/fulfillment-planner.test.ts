@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { Product } from '../../../shared/types/core'
+import { InMemoryInventoryRepository } from '../repositories'
+import { FulfillmentPlanner, type RestockSchedule } from './fulfillment-planner'
+import { InventoryService } from './inventory-service'
+import { ProductCatalogService } from './product-catalog-service'
+import { isoDay } from '../utils/date'
+
+// DSK-0001 starts with 31 units in the catalog, DSK-0002 with 94
+const SCHEDULE: RestockSchedule = {
+  version: 1,
+  transit_days: 5,
+  default_lead_time_days: 28,
+  category_lead_times: { DSK: 14 },
+  inbound: [
+    { sku: 'DSK-0001', quantity: 10, expected_at: '2025-06-20' },
+    { sku: 'DSK-0001', quantity: 50, expected_at: '2025-07-01' }
+  ]
+}
+
+const NOW = new Date('2025-06-10T00:00:00Z')
+
+describe('FulfillmentPlanner', () => {
+  const catalog = new ProductCatalogService()
+  let inventory: InventoryService
+  let planner: FulfillmentPlanner
+  let desk: Product
+
+  beforeEach(async () => {
+    inventory = new InventoryService(new InMemoryInventoryRepository(), catalog)
+    planner = new FulfillmentPlanner(catalog, inventory, SCHEDULE)
+    desk = (await catalog.findBySKU('DSK-0001'))!
+  })
+
+  it('dates a restock by the first inbound shipments that cover the shortage', () => {
+    expect(isoDay(planner.restockDate(desk, 10, NOW))).toBe('2025-06-20')
+    expect(isoDay(planner.restockDate(desk, 11, NOW))).toBe('2025-07-01')
+  })
+
+  it('falls back to the category lead time, never before the last inbound', () => {
+    // 14 days after 2025-06-10 is before the last inbound on 2025-07-01
+    expect(isoDay(planner.restockDate(desk, 100, NOW))).toBe('2025-07-01')
+    expect(isoDay(planner.restockDate(desk, 100, new Date('2025-07-02T00:00:00Z')))).toBe('2025-07-16')
+  })
+
+  it('estimates delivery from today when the stock is there', () => {
+    expect(isoDay(planner.estimatedDelivery(desk, 5, 31, NOW))).toBe('2025-06-15')
+    expect(isoDay(planner.estimatedDelivery(desk, 45, 31, NOW))).toBe('2025-07-06')
+  })
+
+  it('plans nothing when every line is in stock', async () => {
+    expect(await planner.plan('o1', [{ sku: 'DSK-0001', quantity: 31 }], null, NOW)).toEqual([])
+  })
+
+  it('offers a split shipment and a complete shipment for a short line', async () => {
+    const plans = await planner.plan('o1', [
+      { sku: 'DSK-0001', quantity: 40 },
+      { extracted_sku: 'DSK-0002', quantity: '2' }
+    ], null, NOW)
+
+    expect(plans.map(plan => plan.id)).toEqual(['ship-available', 'ship-complete'])
+    expect(plans[0].shipments.map(shipment => [isoDay(shipment.ship_date), shipment.backorder, shipment.lines])).toEqual([
+      ['2025-06-10', false, [{ sku: 'DSK-0001', quantity: 31 }, { sku: 'DSK-0002', quantity: 2 }]],
+      ['2025-06-20', true, [{ sku: 'DSK-0001', quantity: 9 }]]
+    ])
+    expect(plans[1].shipments).toHaveLength(1)
+    expect(isoDay(plans[1].estimated_completion_date)).toBe('2025-06-25')
+    expect(plans[0].meets_requested_date).toBeUndefined()
+  })
+
+  it('puts the plans that meet the requested delivery date first', async () => {
+    // Only the in-stock part arrives in time, so neither plan meets the date
+    const late = await planner.plan('o1', [{ sku: 'DSK-0001', quantity: 40 }], '2025-06-18', NOW)
+    expect(late.map(plan => plan.meets_requested_date)).toEqual([false, false])
+    expect(late[0].description).toContain('after the requested 2025-06-18')
+
+    const onTime = await planner.plan('o1', [{ sku: 'DSK-0001', quantity: 40 }], '2025-06-30', NOW)
+    expect(onTime.map(plan => plan.meets_requested_date)).toEqual([true, true])
+  })
+
+  it('counts the order\'s own reservation as available to it', async () => {
+    await inventory.reserve({ id: 'o1', line_items: [{ sku: 'DSK-0001', quantity: 31 }] }, 'reviewer')
+
+    expect(await planner.plan('o1', [{ sku: 'DSK-0001', quantity: 31 }], null, NOW)).toEqual([])
+    const other = await planner.plan('o2', [{ sku: 'DSK-0001', quantity: 5 }], null, NOW)
+    expect(other.map(plan => plan.id)).toEqual(['ship-complete'])
+  })
+})
@@ -0,0 +1,223 @@
+import fs from 'fs'
+import path from 'path'
+import type { FulfillmentPlan, PlannedShipment, Product } from '../../../shared/types/core'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { InventoryService } from './inventory-service'
+import { addDays, isoDay, parseLooseDate } from '../utils/date'
+import { logger } from '../utils/logger'
+
+/**
+ * Purchase order expected into the warehouse
+ */
+export interface InboundShipment {
+  sku: string
+  quantity: number
+  // ISO date
+  expected_at: string
+  reference?: string
+}
+
+export interface RestockSchedule {
+  version: number
+  // Warehouse to customer
+  transit_days: number
+  // Reorder lead time when no scheduled inbound covers a shortage
+  default_lead_time_days: number
+  category_lead_times: Record<string, number>
+  inbound: InboundShipment[]
+}
+
+export class FulfillmentPlanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FulfillmentPlanError'
+  }
+}
+
+type PlanItem = { sku?: string, extracted_sku?: string, quantity?: number | string }
+
+interface PlanLine {
+  product: Product
+  quantity: number
+  // Available to promise to this order
+  available: number
+}
+
+export const DEFAULT_RESTOCK_SCHEDULE_PATH = path.join(process.cwd(), '../data/restock-schedule.json')
+
+const NO_SCHEDULE: RestockSchedule = {
+  version: 0,
+  transit_days: 5,
+  default_lead_time_days: 28,
+  category_lead_times: {},
+  inbound: []
+}
+
+/**
+ * Read the restock schedule; without one shortages are quoted at the default lead time
+ */
+export function loadRestockSchedule(file: string = process.env.RESTOCK_SCHEDULE_PATH || DEFAULT_RESTOCK_SCHEDULE_PATH): RestockSchedule {
+  if (!fs.existsSync(file)) {
+    logger.warn('Restock schedule not found, using default lead times', { file })
+    return NO_SCHEDULE
+  }
+
+  try {
+    return { ...NO_SCHEDULE, ...JSON.parse(fs.readFileSync(file, 'utf-8')) }
+  } catch (error) {
+    logger.error('Failed to load restock schedule, using default lead times', { file, error })
+    return NO_SCHEDULE
+  }
+}
+
+/**
+ * Turns a stock shortage into concrete ways to ship an order: what is on
+ * hand now with the rest backordered (one shipment per restock date), or
+ * everything together once the last units arrive. Scheduled inbound
+ * quantities are not netted against other orders' backorders.
+ */
+export class FulfillmentPlanner {
+  constructor(
+    private catalog: ProductCatalogService,
+    private inventory: InventoryService,
+    private schedule: RestockSchedule = loadRestockSchedule()
+  ) {}
+
+  /**
+   * Day enough units arrive to cover a shortage: the scheduled inbound that
+   * covers it, else a new purchase order at the category lead time
+   */
+  restockDate(product: Product, shortage: number, now: Date = new Date()): Date {
+    const today = isoDay(now)
+    const inbound = this.schedule.inbound
+      .filter(shipment => shipment.sku === product.product_code && shipment.expected_at >= today)
+      .sort((a, b) => a.expected_at.localeCompare(b.expected_at))
+
+    let covered = 0
+    for (const shipment of inbound) {
+      covered += shipment.quantity
+      if (covered >= shortage) return new Date(`${shipment.expected_at}T00:00:00Z`)
+    }
+
+    const leadTime = this.schedule.category_lead_times[product.category.code] ?? this.schedule.default_lead_time_days
+    const reorder = addDays(now, leadTime)
+    const lastInbound = inbound.length > 0 ? new Date(`${inbound[inbound.length - 1].expected_at}T00:00:00Z`) : null
+    return lastInbound && lastInbound > reorder ? lastInbound : reorder
+  }
+
+  /**
+   * When a line reaches the customer if it ships as soon as it can in full
+   */
+  estimatedDelivery(product: Product, quantity: number, available: number, now: Date = new Date()): Date {
+    const shipDate = available >= quantity ? now : this.restockDate(product, quantity - available, now)
+    return addDays(shipDate, this.schedule.transit_days)
+  }
+
+  /**
+   * Plans for an order with at least one short line (none otherwise), the
+   * ones that meet the requested delivery date first
+   */
+  async plan(
+    orderId: string | undefined,
+    items: PlanItem[],
+    requestedDeliveryDate?: string | null,
+    now: Date = new Date()
+  ): Promise<FulfillmentPlan[]> {
+    const lines = await this.planLines(orderId, items)
+    const short = lines.filter(line => line.available < line.quantity)
+    if (short.length === 0) return []
+
+    const requested = parseLooseDate(requestedDeliveryDate || undefined)
+
+    // Backordered units grouped by the day they can ship
+    const backorders = new Map<string, PlannedShipment['lines']>()
+    for (const line of short) {
+      const day = isoDay(this.restockDate(line.product, line.quantity - line.available, now))
+      backorders.set(day, [...(backorders.get(day) || []), { sku: line.product.product_code, quantity: line.quantity - line.available }])
+    }
+    const restockDays = Array.from(backorders.keys()).sort()
+
+    const inStock = lines
+      .filter(line => line.available > 0)
+      .map(line => ({ sku: line.product.product_code, quantity: Math.min(line.quantity, line.available) }))
+
+    const split = [
+      ...(inStock.length > 0 ? [{ date: now, backorder: false, lines: inStock }] : []),
+      ...restockDays.map(day => ({ date: new Date(`${day}T00:00:00Z`), backorder: true, lines: backorders.get(day)! }))
+    ].map((shipment, index) => this.toShipment(index + 1, shipment.date, shipment.backorder, shipment.lines))
+
+    const plans: FulfillmentPlan[] = []
+    if (split.length > 1) {
+      plans.push(this.toPlan('ship-available', 'split_order', split, requested))
+    }
+
+    const lastRestock = new Date(`${restockDays[restockDays.length - 1]}T00:00:00Z`)
+    const complete = this.toShipment(1, lastRestock, true, lines.map(line => ({ sku: line.product.product_code, quantity: line.quantity })))
+    plans.push(this.toPlan('ship-complete', 'backorder', [complete], requested))
+
+    // Stable sort: the split stays first among equals
+    return plans.sort((a, b) => Number(b.meets_requested_date ?? false) - Number(a.meets_requested_date ?? false))
+  }
+
+  // Private helper methods
+
+  // Catalog lines of the order with summed quantities and what can be promised
+  private async planLines(orderId: string | undefined, items: PlanItem[]): Promise<PlanLine[]> {
+    const lines = new Map<string, PlanLine>()
+    for (const item of items) {
+      const sku = item.extracted_sku || item.sku
+      const quantity = Number(item.quantity)
+      if (!sku || !Number.isFinite(quantity) || quantity <= 0) continue
+
+      const product = await this.catalog.findBySKU(String(sku).trim())
+      if (!product) continue
+
+      const line = lines.get(product.product_code)
+      if (line) {
+        line.quantity += quantity
+        continue
+      }
+      const available = await this.inventory.availableToPromise(product.product_code, orderId)
+      lines.set(product.product_code, { product, quantity, available: available ?? 0 })
+    }
+    return Array.from(lines.values())
+  }
+
+  private toShipment(sequence: number, shipDate: Date, backorder: boolean, lines: PlannedShipment['lines']): PlannedShipment {
+    return {
+      sequence,
+      ship_date: shipDate,
+      estimated_delivery_date: addDays(shipDate, this.schedule.transit_days),
+      backorder,
+      lines
+    }
+  }
+
+  private toPlan(id: string, type: FulfillmentPlan['type'], shipments: PlannedShipment[], requested: Date | null): FulfillmentPlan {
+    const completion = shipments.reduce(
+      (latest, shipment) => shipment.estimated_delivery_date > latest ? shipment.estimated_delivery_date : latest,
+      shipments[0].estimated_delivery_date
+    )
+    const meets = requested ? isoDay(completion) <= isoDay(requested) : undefined
+
+    const describe = (lines: PlannedShipment['lines']) => lines.map(line => `${line.quantity} x ${line.sku}`).join(', ')
+    let description = type === 'split_order'
+      ? [
+          ...shipments.filter(shipment => !shipment.backorder).map(() => 'Ship what is in stock now'),
+          ...shipments.filter(shipment => shipment.backorder)
+            .map(shipment => `backorder ${describe(shipment.lines)} shipping ${isoDay(shipment.ship_date)}`)
+        ].join('; ')
+      : `Ship everything together on ${isoDay(shipments[0].ship_date)}`
+    description = `${description.charAt(0).toUpperCase()}${description.slice(1)} (complete delivery by ${isoDay(completion)})`
+    if (meets === false) description += `, after the requested ${isoDay(requested!)}`
+
+    return {
+      id,
+      type,
+      description,
+      shipments,
+      estimated_completion_date: completion,
+      meets_requested_date: meets
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { CatalogRetriever } from './catalog-retriever'
+import { ProductCatalogService } from '../product-catalog-service'
+
+const EMAIL = [
+  'Hi,',
+  '',
+  'Please send:',
+  '- 9 x Coffee STRÅDAL 620',
+  '- DSK-0001 qty 2',
+  '',
+  'Thanks, Jo'
+].join('\n')
+
+describe('CatalogRetriever', () => {
+  const retriever = new CatalogRetriever(new ProductCatalogService())
+
+  it('picks the lines that look like order lines', () => {
+    expect(retriever.extractCandidatePhrases(EMAIL)).toEqual(['9 x Coffee STRÅDAL 620', 'DSK-0001 qty 2'])
+  })
+
+  it('shortlists the products those lines name', async () => {
+    const context = await retriever.buildContext(EMAIL)
+
+    expect(context.product_catalog_sample?.map(product => product.product_code).sort()).toEqual(['CFT-0167', 'DSK-0001'])
+    expect(context.candidate_phrases).toEqual([
+      { phrase: '9 x Coffee STRÅDAL 620', product_codes: ['CFT-0167'] },
+      { phrase: 'DSK-0001 qty 2', product_codes: ['DSK-0001'] }
+    ])
+  })
+
+  it('stays within the token budget', async () => {
+    const context = await retriever.buildContext(EMAIL, { max_context_tokens: 40 })
+
+    expect(context.product_catalog_sample).toHaveLength(1)
+  })
+
+  it('samples every category when nothing in the email names a product', async () => {
+    const context = await retriever.buildContext('Hello there, please call me back')
+
+    const sample = context.product_catalog_sample || []
+    const categories = new Set(sample.map(product => product.category.code))
+    expect(categories.size).toBeGreaterThan(1)
+    expect(sample).toHaveLength(categories.size * 2)
+  })
+})
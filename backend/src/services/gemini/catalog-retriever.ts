@@ -0,0 +1,109 @@
+import type { Product } from '../../../../shared/types/core'
+import { ProductCatalogService } from '../product-catalog-service'
+import { formatCatalogLine, type PromptContext } from './prompt-builder'
+import { logger } from '../../utils/logger'
+
+export interface RetrievalOptions {
+  top_k?: number
+  max_context_tokens?: number
+}
+
+export interface CandidatePhrase {
+  phrase: string
+  product_codes: string[]
+}
+
+const DEFAULT_TOP_K = 5
+const DEFAULT_MAX_CONTEXT_TOKENS = 1500
+
+// Lines that look like an order line: SKU, ALL-CAPS brand token or a number next to a word
+const SKU_HINT = /\b[A-Z]{3}-?\d{4}\b/
+const BRAND_HINT = /\b[A-ZÅÄÖÆØÜ]{4,}\b/
+const QUANTITY_HINT = /\d+\s*(x|pcs|pieces|units|qty)\b|\b(qty|quantity)\s*:?\s*\d+/i
+
+/**
+ * Builds prompt context from a shortlist of catalog products that are likely
+ * referenced by the email, instead of a fixed slice of the catalog.
+ */
+export class CatalogRetriever {
+  constructor(private productCatalog: ProductCatalogService) {}
+
+  async buildContext(emailContent: string, options: RetrievalOptions = {}): Promise<PromptContext> {
+    const topK = options.top_k ?? DEFAULT_TOP_K
+    const budget = options.max_context_tokens ?? DEFAULT_MAX_CONTEXT_TOKENS
+
+    const phrases = this.extractCandidatePhrases(emailContent)
+    const ranked: Array<{ product: Product; confidence: number; rank: number }> = []
+    const candidates: CandidatePhrase[] = []
+
+    for (const phrase of phrases) {
+      const matches = await this.productCatalog.matchProducts(phrase, topK)
+      candidates.push({ phrase, product_codes: matches.map(m => m.product.product_code) })
+      matches.forEach((match, rank) => ranked.push({ product: match.product, confidence: match.confidence, rank }))
+    }
+
+    // Best hit of every phrase first, then second-best of every phrase, ...
+    ranked.sort((a, b) => a.rank - b.rank || b.confidence - a.confidence)
+
+    if (ranked.length === 0) {
+      const fallback = await this.categorySample()
+      fallback.forEach(product => ranked.push({ product, confidence: 0, rank: 0 }))
+    }
+
+    const shortlist: Product[] = []
+    const seen = new Set<string>()
+    let tokens = 0
+
+    for (const { product } of ranked) {
+      if (seen.has(product.product_code)) continue
+      const cost = this.estimateTokens(formatCatalogLine(product))
+      if (tokens + cost > budget) break
+      seen.add(product.product_code)
+      shortlist.push(product)
+      tokens += cost
+    }
+
+    logger.debug('Catalog context retrieved', {
+      phrases: phrases.length,
+      products: shortlist.length,
+      estimated_tokens: tokens
+    })
+
+    return {
+      product_catalog_sample: shortlist,
+      candidate_phrases: candidates
+    }
+  }
+
+  /**
+   * Pre-scan the email for lines that probably name a product
+   */
+  extractCandidatePhrases(emailContent: string): string[] {
+    const phrases: string[] = []
+
+    for (const rawLine of emailContent.split(/\r?\n/)) {
+      const line = rawLine.replace(/^[\s*\-•>]+/, '').trim()
+      if (!line || line.length > 120) continue
+
+      if (SKU_HINT.test(line) || BRAND_HINT.test(line) || QUANTITY_HINT.test(line)) {
+        phrases.push(line)
+      }
+    }
+
+    return Array.from(new Set(phrases))
+  }
+
+  // Nothing recognisable in the email: give the model a spread over every category
+  private async categorySample(): Promise<Product[]> {
+    const sample: Product[] = []
+    for (const category of this.productCatalog.getCategories()) {
+      sample.push(...await this.productCatalog.getByCategory(category.code, 2))
+    }
+    return sample
+  }
+
+  private estimateTokens(text: string): number {
+    // Rough estimation: ~4 characters per token
+    return Math.ceil(text.length / 4)
+  }
+}
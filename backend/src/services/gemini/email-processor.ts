@@ -1,7 +1,13 @@
-import { GeminiClient } from './gemini-client'
+import { createHash } from 'crypto'
 import { PromptBuilder, type PromptContext } from './prompt-builder'
+import { extractionResponseSchema, parseExtraction, type ExtractionOutput } from './extraction-schema'
 import { CacheService } from '../cache-service'
+import type { LLMProvider } from '../llm'
+import { RuleBasedExtractor } from '../rule-based-extractor'
 import { logger } from '../../utils/logger'
+import type { ConfidenceVector, LineItemProvenance, ValidationFlag } from '../../../../shared/types/core'
+import type { ProductMatch } from '../product-catalog-service'
+import type { AmendmentChange } from '../thread-segmenter'
 
 export interface EmailProcessingRequest {
   email_content: string
@@ -9,6 +15,8 @@ export interface EmailProcessingRequest {
   options?: {
     temperature?: number
     max_tokens?: number
+    // false: rethrow model call failures so the caller can retry later
+    allow_fallback?: boolean
   }
 }
 
@@ -28,31 +36,63 @@ export interface EmailProcessingResult {
     description: string
     quantity?: number
     sku?: string
+    ai_sku?: string
+    match?: ProductMatch
+    resolution?: 'confirmed' | 'corrected' | 'resolved' | 'unresolved'
+    model_confidence?: number
+    confidence_vector?: ConfidenceVector
+    provenance?: LineItemProvenance
   }>
+  // Per-section scores as reported by the model
+  field_confidence?: {
+    customer_info?: number
+    delivery_info?: number
+  }
+  // Per-section vectors computed by the ConfidenceScorer
+  confidence_vectors?: {
+    customer_info: ConfidenceVector
+    delivery_info: ConfidenceVector
+  }
   confidence_score: number
+  // What happened during extraction (schema errors, repairs, fallbacks)
+  processing_notes: string[]
+  fallback_used: boolean
+  // Disagreements between the model and the rule-based cross-check
+  flags?: ValidationFlag[]
+  // Set when the email was a reply or forward; extraction only read the latest message
+  thread?: {
+    message_count: number
+    amendment: AmendmentChange[]
+  }
 }
 
+// Extra model calls allowed to fix an answer that fails schema validation
+const MAX_REPAIR_ATTEMPTS = 2
+
 export class EmailProcessor {
-  private geminiClient: GeminiClient
   private promptBuilder: PromptBuilder
   private cache: CacheService
 
-  constructor() {
-    this.geminiClient = new GeminiClient()
+  constructor(
+    private llm: LLMProvider,
+    private rules: RuleBasedExtractor = new RuleBasedExtractor()
+  ) {
     this.promptBuilder = new PromptBuilder()
     this.cache = new CacheService(300000) // 5 minute cache
   }
 
   async processEmail(request: EmailProcessingRequest): Promise<EmailProcessingResult> {
-    const cacheKey = this.generateCacheKey(request.email_content)
+    const cacheKey = this.generateCacheKey(request.email_content, request.context)
     
-    // Check cache first
+    // Check cache first; callers add to the result, so hand out a copy
     const cached = this.cache.get<EmailProcessingResult>(cacheKey)
     if (cached) {
       logger.info('Returning cached email processing result')
-      return cached
+      return structuredClone(cached)
     }
 
+    const notes: string[] = []
+
     try {
       // Build prompt
       const { systemInstruction, userPrompt } = this.promptBuilder.buildEmailProcessingPrompt(
@@ -60,83 +100,91 @@ export class EmailProcessor {
         request.context
       )
 
-      // Call Gemini API
-      const response = await this.geminiClient.generateContent({
-        prompt: userPrompt,
-        systemInstruction,
-        temperature: request.options?.temperature || 0.1,
-        maxTokens: request.options?.max_tokens || 2000
-      })
-
-      // Parse response
-      const result = this.parseResponse(response.text)
-      
-      // Cache result
-      this.cache.set(cacheKey, result)
-      
-      logger.info('Email processed successfully', { 
-        confidence: result.confidence_score,
-        line_items: result.line_items.length 
-      })
-      
-      return result
-
-    } catch (error) {
-      logger.error('Email processing failed', { error })
-      
-      // Return fallback result
-      return this.createFallbackResult(request.email_content)
-    }
-  }
+      let prompt = userPrompt
 
-  private parseResponse(responseText: string): EmailProcessingResult {
-    try {
-      // Clean up response text
-      const cleanResponse = responseText
-        .replace(/```json/g, '')
-        .replace(/```/g, '')
-        .trim()
-
-      const parsed = JSON.parse(cleanResponse)
-      
-      return {
-        customer_info: parsed.customer_info || {},
-        delivery_info: {
-          address: parsed.delivery_info?.address,
-          delivery_date: parsed.delivery_info?.delivery_date,
-          urgency: parsed.delivery_info?.urgency || 'medium'
-        },
-        line_items: parsed.line_items || [],
-        confidence_score: parsed.confidence_score || 0.5
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        // Call the model in JSON mode
+        const response = await this.llm.generateContent({
+          prompt,
+          systemInstruction,
+          temperature: request.options?.temperature || 0.1,
+          maxTokens: request.options?.max_tokens || 2000,
+          responseFormat: 'json',
+          responseSchema: extractionResponseSchema
+        })
+
+        // Validate response against the extraction schema
+        const parsed = parseExtraction(response.text)
+
+        if (parsed.success) {
+          notes.push(`Extracted with ${this.llm.name} (${response.model})`)
+          notes.push(attempt === 0
+            ? 'Model response passed schema validation'
+            : `Model response passed schema validation after ${attempt} repair attempt(s)`)
+
+          const result = this.toResult(parsed.data, notes)
+          result.flags = this.rules.crossCheck(result, request.email_content)
+          if (result.flags.length > 0) {
+            notes.push(`Rule-based cross-check raised ${result.flags.length} flag(s)`)
+          }
+
+          // Cache result
+          this.cache.set(cacheKey, structuredClone(result))
+
+          logger.info('Email processed successfully', {
+            confidence: result.confidence_score,
+            line_items: result.line_items.length,
+            repairs: attempt
+          })
+
+          return result
+        }
+
+        notes.push(`Attempt ${attempt + 1} failed schema validation: ${parsed.errors.join('; ')}`)
+        logger.warn('Model response failed schema validation', { attempt: attempt + 1, errors: parsed.errors })
+
+        prompt = this.promptBuilder.buildRepairPrompt(userPrompt, response.text, parsed.errors)
       }
-    } catch (error) {
-      logger.error('Failed to parse Gemini response', { error })
-      throw new Error('Invalid response format from AI')
+
+      notes.push(`Gave up after ${MAX_REPAIR_ATTEMPTS} repair attempt(s)`)
+
+    } catch (error: any) {
+      logger.error('Email processing failed', { error })
+      if (request.options?.allow_fallback === false) throw error
+      notes.push(`Model call failed: ${error?.message || 'unknown error'}`)
     }
+
+    // Fall back to the rule-based extractor
+    return this.rules.toFallbackResult(request.email_content, notes)
   }
 
-  private createFallbackResult(emailContent: string): EmailProcessingResult {
+  private toResult(output: ExtractionOutput, notes: string[]): EmailProcessingResult {
     return {
-      customer_info: {
-        email: this.extractEmailWithRegex(emailContent)
-      },
-      delivery_info: {
-        urgency: emailContent.toLowerCase().includes('urgent') ? 'high' : 'medium'
-      },
-      line_items: [],
-      confidence_score: 0.2
+      customer_info: output.customer_info,
+      delivery_info: output.delivery_info,
+      line_items: output.line_items.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        sku: item.sku,
+        model_confidence: item.confidence,
+        provenance: !item.source || /^(email\s+)?body$/i.test(item.source)
+          ? { source: 'body' as const }
+          : { source: 'attachment' as const, attachment_name: item.source }
+      })),
+      field_confidence: output.field_confidence,
+      confidence_score: output.confidence_score,
+      processing_notes: notes,
+      fallback_used: false
     }
   }
 
-  private extractEmailWithRegex(email: string): string | undefined {
-    const emailPattern = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/
-    const match = email.match(emailPattern)
-    return match ? match[1] : undefined
-  }
-
-  private generateCacheKey(emailContent: string): string {
-    // Create hash of email content for caching
-    const hash = Buffer.from(emailContent).toString('base64').substr(0, 16)
+  private generateCacheKey(emailContent: string, context?: PromptContext): string {
+    // Hash the whole email and the prompt context, so the same text with a different catalog shortlist is a miss
+    const hash = createHash('sha256')
+      .update(emailContent)
+      .update('\0')
+      .update(JSON.stringify(context ?? {}))
+      .digest('hex')
     return `email_${hash}`
   }
 } 
\ No newline at end of file
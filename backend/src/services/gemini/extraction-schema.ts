@@ -0,0 +1,121 @@
+import { z } from 'zod'
+import { Type, type Schema } from '@google/genai'
+
+const optionalText = z.string().trim().nullish().transform(value => value || undefined)
+const score = z.number().min(0).max(1)
+
+const quantity = z
+  .union([z.number(), z.string().regex(/^\d+$/).transform(Number)])
+  .pipe(z.number().int().positive())
+  .nullish()
+  .transform(value => value ?? undefined)
+
+/**
+ * Strict shape of the extraction JSON the model must return
+ */
+export const extractionSchema = z.object({
+  customer_info: z.object({
+    name: optionalText,
+    email: optionalText,
+    phone: optionalText,
+    company: optionalText
+  }),
+  delivery_info: z.object({
+    address: optionalText,
+    delivery_date: optionalText,
+    urgency: z.enum(['low', 'medium', 'high', 'critical'])
+  }),
+  line_items: z.array(z.object({
+    description: z.string().trim().min(1),
+    quantity,
+    sku: optionalText,
+    source: optionalText,
+    confidence: score.nullish().transform(value => value ?? undefined)
+  })),
+  field_confidence: z.object({
+    customer_info: score.optional(),
+    delivery_info: score.optional()
+  }).optional(),
+  confidence_score: score
+})
+
+export type ExtractionOutput = z.infer<typeof extractionSchema>
+
+/**
+ * Same contract expressed for Gemini's structured-output mode
+ */
+export const extractionResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    customer_info: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, nullable: true },
+        email: { type: Type.STRING, nullable: true },
+        phone: { type: Type.STRING, nullable: true },
+        company: { type: Type.STRING, nullable: true }
+      }
+    },
+    delivery_info: {
+      type: Type.OBJECT,
+      properties: {
+        address: { type: Type.STRING, nullable: true },
+        delivery_date: { type: Type.STRING, nullable: true },
+        urgency: { type: Type.STRING, enum: ['low', 'medium', 'high', 'critical'] }
+      },
+      required: ['urgency']
+    },
+    line_items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          quantity: { type: Type.INTEGER, nullable: true },
+          sku: { type: Type.STRING, nullable: true },
+          source: { type: Type.STRING, nullable: true },
+          confidence: { type: Type.NUMBER }
+        },
+        required: ['description']
+      }
+    },
+    field_confidence: {
+      type: Type.OBJECT,
+      properties: {
+        customer_info: { type: Type.NUMBER },
+        delivery_info: { type: Type.NUMBER }
+      }
+    },
+    confidence_score: { type: Type.NUMBER }
+  },
+  required: ['customer_info', 'delivery_info', 'line_items', 'confidence_score']
+}
+
+/**
+ * Parse raw model text against the schema; returns readable issues on failure
+ */
+export function parseExtraction(responseText: string):
+  | { success: true, data: ExtractionOutput }
+  | { success: false, errors: string[] } {
+  const cleanResponse = responseText
+    .replace(/```json/g, '')
+    .replace(/```/g, '')
+    .trim()
+
+  let json: unknown
+  try {
+    json = JSON.parse(cleanResponse)
+  } catch (error: any) {
+    return { success: false, errors: [`Response is not valid JSON: ${error.message}`] }
+  }
+
+  const parsed = extractionSchema.safeParse(json)
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    }
+  }
+
+  return { success: true, data: parsed.data }
+}
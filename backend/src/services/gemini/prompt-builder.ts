@@ -1,8 +1,20 @@
 import type { Product } from '../../../../shared/types/core'
+import type { CustomerProfile } from '../customer-service'
 
 export interface PromptContext {
   product_catalog_sample?: Product[]
-  customer_history?: any[]
+  candidate_phrases?: Array<{ phrase: string; product_codes: string[] }>
+  // Known customer the sender was matched to
+  customer_history?: CustomerProfile[]
+  // Earlier messages of the thread, oldest last; never a source of line items
+  thread_history?: string[]
+}
+
+/**
+ * One catalog line as it appears in the prompt (also used for token budgeting)
+ */
+export function formatCatalogLine(product: Product): string {
+  return `- ${product.product_code}: ${product.product_name} ($${product.price}) - ${product.description}`
 }
 
 export class PromptBuilder {
@@ -20,12 +32,17 @@ CRITICAL INSTRUCTIONS:
 3. Identify product SKUs and quantities even with typos
 4. Extract and standardize addresses
 5. Provide confidence scores for each field (0.0 to 1.0)
+6. Attachments follow the email body as "--- Attachment: <filename> ---" sections; set each line item's source to "body" or to the attachment filename it came from
 
 ${context?.product_catalog_sample ? 
-  `PRODUCT CATALOG (Match items to these SKUs):
-${context.product_catalog_sample.slice(0, 30).map(p => 
-  `- ${p.product_code}: ${p.product_name} ($${p.price}) - ${p.description}`
+  `PRODUCT CATALOG (Shortlisted from the full catalog for this email - match items to these SKUs):
+${context.product_catalog_sample.map(formatCatalogLine).join('\n')}
+${context.candidate_phrases?.length ? `
+LIKELY MATCHES PER EMAIL LINE:
+${context.candidate_phrases.map(c => 
+  `- "${c.phrase}" → ${c.product_codes.length ? c.product_codes.join(', ') : 'no catalog match'}`
 ).join('\n')}
+` : ''}
 
 IMPORTANT: When matching products:
 1. Look for exact SKU codes in the email (e.g., "DSK-0001")
@@ -36,7 +53,20 @@ IMPORTANT: When matching products:
   'No product catalog provided - cannot match SKUs'
 }
 
-OUTPUT FORMAT - Return ONLY valid JSON:
+${context?.customer_history?.length ? `KNOWN CUSTOMER (from earlier approved orders, context only):
+${context.customer_history.map(customer => [
+  `- ${[customer.name, customer.company, customer.email].filter(Boolean).join(', ')} (${customer.order_count} previous order(s))`,
+  customer.default_address ? `  Default delivery address: ${customer.default_address}` : '',
+  customer.typical_products.length ? `  Usually orders: ${customer.typical_products.join('; ')}` : ''
+].filter(Boolean).join('\n')).join('\n')}
+Use this to resolve vague references such as "the usual chairs". Leave delivery address null if the email gives none; never add items the email does not ask for.
+
+` : ''}${context?.thread_history?.length ? `EARLIER MESSAGES IN THIS THREAD (context only):
+Do NOT extract line items from these. Use them only for customer or delivery details missing from the latest message.
+If the latest message only amends an earlier order, extract just the items it changes or adds, with their new quantities.
+${context.thread_history.map((message, i) => `[Earlier message ${i + 1}]\n${message}`).join('\n\n')}
+
+` : ''}OUTPUT FORMAT - Return ONLY valid JSON:
 {
   "customer_info": {
     "name": "string or null",
@@ -53,9 +83,15 @@ OUTPUT FORMAT - Return ONLY valid JSON:
     {
       "description": "string",
       "quantity": "number or null",
-      "sku": "string or null"
+      "sku": "string or null",
+      "source": "body or attachment filename",
+      "confidence": 0.9
     }
   ],
+  "field_confidence": {
+    "customer_info": 0.9,
+    "delivery_info": 0.8
+  },
   "confidence_score": 0.8
 }
 `
@@ -72,4 +108,24 @@ Return only the JSON response as specified in the system instructions.
 
     return { systemInstruction, userPrompt }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Follow-up prompt that sends schema validation errors back to the model
+   */
+  buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: string[]): string {
+    return `
+${originalPrompt}
+
+Your previous answer did not match the required JSON format:
+
+---
+${previousResponse}
+---
+
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON only, following the OUTPUT FORMAT exactly.
+`
+  }
+}
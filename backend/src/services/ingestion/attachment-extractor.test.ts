@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import ExcelJS from 'exceljs'
+import { AttachmentExtractor, stripHtml } from './attachment-extractor'
+
+// Minimal single-page PDF (Helvetica, ASCII text) with a classic cross-reference table
+function pdfWith(lines: string[]): Buffer {
+  const stream = lines.map((line, index) => `BT /F1 12 Tf 50 ${700 - index * 20} Td (${line}) Tj ET`).join('\n')
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return Buffer.from(pdf, 'latin1')
+}
+
+async function xlsxWith(sheets: Record<string, unknown[][]>): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  for (const [name, rows] of Object.entries(sheets)) {
+    workbook.addWorksheet(name).addRows(rows)
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+describe('AttachmentExtractor', () => {
+  const extractor = new AttachmentExtractor()
+
+  it('reads the text of a PDF purchase order', async () => {
+    const extracted = await extractor.extract({
+      filename: 'PO-1042.pdf',
+      contentType: 'application/pdf',
+      content: pdfWith(['Purchase Order 1042', '9 x Coffee STRADAL 620'])
+    })
+
+    expect(extracted?.kind).toBe('pdf')
+    expect(extracted?.text).toContain('Purchase Order 1042')
+    expect(extracted?.text).toContain('9 x Coffee STRADAL 620')
+  })
+
+  it('renders CSV order tables as order lines and keeps other rows', async () => {
+    const csv = 'SKU,Product,Qty\nCFT-0167,Coffee STRÅDAL 620,9\nDSK-0001,,2\nDeliver by Friday,,\n'
+
+    const extracted = await extractor.extract({ filename: 'order.csv', contentType: 'text/csv', content: Buffer.from(csv) })
+
+    expect(extracted?.kind).toBe('csv')
+    expect(extracted?.text.split('\n')).toEqual([
+      '9 x Coffee STRÅDAL 620 (CFT-0167)',
+      '2 x DSK-0001',
+      'Deliver by Friday'
+    ])
+    expect(extracted?.tables?.[0]).toHaveLength(4)
+  })
+
+  it('reads every sheet of an XLSX workbook', async () => {
+    const content = await xlsxWith({
+      Order: [['Item code', 'Description', 'Quantity'], ['CFT-0167', 'Coffee STRÅDAL 620', 9]],
+      Notes: [['Deliver to loading dock B']]
+    })
+
+    const extracted = await extractor.extract({
+      filename: 'order.xlsx',
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content
+    })
+
+    expect(extracted?.kind).toBe('xlsx')
+    expect(extracted?.text).toBe('Sheet Order:\n9 x Coffee STRÅDAL 620 (CFT-0167)\n\nSheet Notes:\nDeliver to loading dock B')
+    expect(extracted?.tables).toHaveLength(2)
+  })
+
+  it('skips unsupported and unreadable attachments', async () => {
+    expect(await extractor.extract({ filename: 'logo.png', contentType: 'image/png', content: Buffer.from('png') })).toBeNull()
+    expect(await extractor.extract({ filename: 'legacy.xls', contentType: 'application/vnd.ms-excel', content: Buffer.from('xls') })).toBeNull()
+    expect(await extractor.extract({ filename: 'broken.pdf', contentType: 'application/pdf', content: Buffer.from('not a pdf') })).toBeNull()
+  })
+
+  it('reduces HTML to text', () => {
+    expect(stripHtml('<html><head><title>x</title></head><body><p>Hello&nbsp;there</p><table><tr><td>2</td><td>Desk</td></tr></table></body></html>'))
+      .toBe('Hello there\n2 | Desk |')
+  })
+})
@@ -0,0 +1,160 @@
+import path from 'path'
+import pdfParse from 'pdf-parse'
+import Papa from 'papaparse'
+import ExcelJS from 'exceljs'
+import { logger } from '../../utils/logger'
+
+export interface AttachmentInput {
+  filename?: string
+  contentType: string
+  content: Buffer
+}
+
+export interface ExtractedAttachment {
+  filename: string
+  content_type: string
+  kind: 'pdf' | 'csv' | 'xlsx' | 'text' | 'html'
+  // Plain text handed to extraction; order tables are rendered as "qty x product (sku)" lines
+  text: string
+  tables?: string[][][]
+}
+
+const QUANTITY_HEADER = /\b(?:qty|quantity|units?|pcs|pieces|amount|count)\b/i
+const SKU_HEADER = /\b(?:sku|product\s*code|item\s*code|code|part\s*(?:no|number|#))\b/i
+const PRODUCT_HEADER = /\b(?:product|item|description|name|article)\b/i
+
+// Longest attachment text passed on, so a large PDF cannot swamp the prompt
+const MAX_ATTACHMENT_CHARS = 20000
+
+/**
+ * Pulls text and tables out of purchase-order attachments (PDF, CSV, XLSX,
+ * plain text and HTML). Unsupported types such as images and legacy .xls
+ * workbooks are skipped.
+ */
+export class AttachmentExtractor {
+
+  async extract(attachment: AttachmentInput): Promise<ExtractedAttachment | null> {
+    const filename = attachment.filename || 'attachment'
+    const kind = this.detectKind(filename, attachment.contentType)
+    if (!kind) return null
+
+    try {
+      const base = { filename, content_type: attachment.contentType, kind }
+
+      switch (kind) {
+        case 'pdf': {
+          // pdf.js mis-copies Node Buffers into its loopback worker ("bad XRef entry"); hand it plain bytes
+          const result = await pdfParse(new Uint8Array(attachment.content) as Buffer)
+          return { ...base, text: this.limit(result.text.trim()) }
+        }
+        case 'csv': {
+          const rows = Papa.parse<string[]>(attachment.content.toString('utf-8'), { skipEmptyLines: true }).data
+          return { ...base, text: this.limit(this.renderTable(rows)), tables: [rows] }
+        }
+        case 'xlsx': {
+          const workbook = new ExcelJS.Workbook()
+          await workbook.xlsx.load(attachment.content)
+          const sheets = workbook.worksheets.map(sheet => ({ name: sheet.name, rows: this.sheetRows(sheet) }))
+          const text = sheets
+            .map(({ name, rows }) => `Sheet ${name}:\n${this.renderTable(rows)}`)
+            .join('\n\n')
+          return { ...base, text: this.limit(text), tables: sheets.map(({ rows }) => rows) }
+        }
+        case 'html':
+          return { ...base, text: this.limit(stripHtml(attachment.content.toString('utf-8'))) }
+        case 'text':
+          return { ...base, text: this.limit(attachment.content.toString('utf-8').trim()) }
+      }
+    } catch (error: any) {
+      logger.warn('Failed to extract attachment', { filename, error: error.message })
+      return null
+    }
+  }
+
+  /**
+   * Render rows as order lines when a quantity and product/SKU column can be
+   * identified, otherwise as pipe-separated rows
+   */
+  renderTable(rows: string[][]): string {
+    const headerIndex = rows.slice(0, 5).findIndex(row =>
+      row.some(cell => QUANTITY_HEADER.test(cell)) &&
+      row.some(cell => SKU_HEADER.test(cell) || PRODUCT_HEADER.test(cell))
+    )
+
+    if (headerIndex < 0) {
+      return rows.map(row => row.filter(Boolean).join(' | ')).filter(Boolean).join('\n')
+    }
+
+    const header = rows[headerIndex]
+    const quantityColumn = header.findIndex(cell => QUANTITY_HEADER.test(cell))
+    const skuColumn = header.findIndex(cell => SKU_HEADER.test(cell))
+    const productColumn = header.findIndex((cell, index) => index !== skuColumn && PRODUCT_HEADER.test(cell))
+
+    const lines: string[] = []
+    for (const row of rows.slice(headerIndex + 1)) {
+      const quantity = parseInt(String(row[quantityColumn] || '').replace(/[^\d]/g, ''), 10)
+      const product = productColumn >= 0 ? row[productColumn]?.trim() : ''
+      const sku = skuColumn >= 0 ? row[skuColumn]?.trim() : ''
+
+      if (!(quantity > 0) || (!product && !sku)) {
+        // Totals, notes and other non-item rows stay visible as plain text
+        const other = row.filter(Boolean).join(' | ')
+        if (other) lines.push(other)
+        continue
+      }
+
+      lines.push(`${quantity} x ${product || sku}${product && sku ? ` (${sku})` : ''}`)
+    }
+    return lines.join('\n')
+  }
+
+  // Non-empty rows as displayed in Excel (formula results, formatted dates)
+  private sheetRows(sheet: ExcelJS.Worksheet): string[][] {
+    const rows: string[][] = []
+    sheet.eachRow(row => {
+      const cells: string[] = []
+      for (let column = 1; column <= row.cellCount; column++) {
+        cells.push(row.getCell(column).text.trim())
+      }
+      rows.push(cells)
+    })
+    return rows
+  }
+
+  private detectKind(filename: string, contentType: string): ExtractedAttachment['kind'] | null {
+    const extension = path.extname(filename).toLowerCase()
+    const type = contentType.toLowerCase()
+
+    if (type === 'application/pdf' || extension === '.pdf') return 'pdf'
+    if (type === 'text/csv' || extension === '.csv') return 'csv'
+    if (type.includes('spreadsheetml') || extension === '.xlsx') return 'xlsx'
+    if (type === 'text/html' || ['.html', '.htm'].includes(extension)) return 'html'
+    if (type === 'text/plain' || extension === '.txt') return 'text'
+    return null
+  }
+
+  private limit(text: string): string {
+    return text.length > MAX_ATTACHMENT_CHARS ? `${text.slice(0, MAX_ATTACHMENT_CHARS)}\n[truncated]` : text
+  }
+}
+
+/**
+ * Reduce an HTML document to readable text (block elements become line breaks)
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|table)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import AdmZip from 'adm-zip'
+import { BatchFormatError, BatchParser, MAX_BATCH_SIZE, MAX_ZIP_ENTRY_BYTES } from './batch-parser'
+
+function zipOf(files: Record<string, string>): Buffer {
+  const zip = new AdmZip()
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.from(content))
+  }
+  return zip.toBuffer()
+}
+
+describe('BatchParser', () => {
+  const parser = new BatchParser()
+
+  it('accepts JSON arrays of strings or named emails and drops empty ones', () => {
+    expect(parser.parse({ emails: ['Send 2 desks', { name: 'po.eml', content: 'Send 3 sofas' }, '  '] })).toEqual([
+      { name: 'email_1', content: 'Send 2 desks' },
+      { name: 'po.eml', content: 'Send 3 sofas' }
+    ])
+    expect(parser.parse(['Send 2 desks'])).toHaveLength(1)
+  })
+
+  it('rejects input that is not a batch', () => {
+    expect(() => parser.parse({ email: 'Send 2 desks' })).toThrow(BatchFormatError)
+    expect(() => parser.parse({ emails: [42] })).toThrow('Email 1 must be a string')
+    expect(() => parser.parse({ emails: ['', ' '] })).toThrow('no emails')
+    expect(() => parser.parse({ emails: Array(MAX_BATCH_SIZE + 1).fill('Send 2 desks') })).toThrow(`at most ${MAX_BATCH_SIZE}`)
+    expect(() => parser.parse({ emails: [] }, 'application/zip')).toThrow('raw request body')
+  })
+
+  it('reads .eml and .txt files from a zip in name order', () => {
+    const archive = zipOf({
+      'b.txt': 'Send 3 sofas',
+      'a.eml': 'Send 2 desks',
+      'notes.pdf': 'not an email',
+      '__MACOSX/a.eml': 'resource fork'
+    })
+
+    expect(parser.parse(archive, 'application/zip')).toEqual([
+      { name: 'a.eml', content: 'Send 2 desks' },
+      { name: 'b.txt', content: 'Send 3 sofas' }
+    ])
+    expect(() => parser.parse(Buffer.from('not a zip'), 'application/zip')).toThrow('Could not read zip archive')
+  })
+
+  it('refuses zip entries over the uncompressed size limit', () => {
+    const archive = zipOf({ 'huge.eml': 'a'.repeat(MAX_ZIP_ENTRY_BYTES + 1) })
+
+    expect(() => parser.parse(archive, 'application/zip')).toThrow('huge.eml is larger than 10 MB')
+  })
+
+  it('splits an mbox mailbox and undoes From-quoting', () => {
+    const mailbox = [
+      'From john@example.com Mon Jun  2 10:00:00 2025',
+      'Subject: Order',
+      '',
+      'Send 2 desks',
+      '>From the warehouse, thanks',
+      'From jane@example.com Tue Jun  3 10:00:00 2025',
+      'Subject: Order 2',
+      '',
+      'Send 3 sofas',
+      ''
+    ].join('\n')
+
+    const items = parser.parse(Buffer.from(mailbox), 'application/mbox')
+
+    expect(items.map(item => item.name)).toEqual(['message_1', 'message_2'])
+    expect(items[0].content).toBe('Subject: Order\n\nSend 2 desks\nFrom the warehouse, thanks')
+    expect(() => parser.parse(Buffer.from('Subject: nope'), 'application/mbox')).toThrow('"From " line')
+  })
+})
@@ -0,0 +1,131 @@
+import AdmZip from 'adm-zip'
+
+export interface BatchItem {
+  // File name inside the archive, or the index for JSON and mbox input
+  name: string
+  content: string
+}
+
+// Largest number of emails accepted in one batch
+export const MAX_BATCH_SIZE = 500
+
+// Uncompressed size limits for zip uploads, checked before anything is inflated
+export const MAX_ZIP_ENTRY_BYTES = 10 * 1024 * 1024
+export const MAX_ZIP_TOTAL_BYTES = 100 * 1024 * 1024
+
+const EMAIL_FILE = /\.(eml|txt)$/i
+// mboxrd envelope line that starts every message
+const MBOX_SEPARATOR = /^From \S+.*$/m
+
+/**
+ * Thrown for input that is not a batch of emails
+ */
+export class BatchFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BatchFormatError'
+  }
+}
+
+/**
+ * Splits a batch upload into individual emails: a JSON array (strings or
+ * { name, content }), a zip of .eml/.txt files or an mbox mailbox
+ */
+export class BatchParser {
+
+  parse(body: unknown, contentType: string = 'application/json'): BatchItem[] {
+    const type = contentType.split(';')[0].trim().toLowerCase()
+    let items: BatchItem[]
+
+    if (type === 'application/zip' || type === 'application/x-zip-compressed') {
+      items = this.parseZip(this.toBuffer(body))
+    } else if (type === 'application/mbox') {
+      items = this.parseMbox(this.toBuffer(body).toString('utf8'))
+    } else {
+      items = this.parseJson(body)
+    }
+
+    items = items.filter(item => item.content.trim())
+    if (items.length === 0) {
+      throw new BatchFormatError('The batch contains no emails')
+    }
+    if (items.length > MAX_BATCH_SIZE) {
+      throw new BatchFormatError(`A batch may hold at most ${MAX_BATCH_SIZE} emails (got ${items.length})`)
+    }
+
+    return items
+  }
+
+  parseJson(body: unknown): BatchItem[] {
+    const emails = Array.isArray(body) ? body : (body as { emails?: unknown })?.emails
+    if (!Array.isArray(emails)) {
+      throw new BatchFormatError('Send { "emails": [...] }, a zip of .eml/.txt files or an mbox file')
+    }
+
+    return emails.map((email, index) => {
+      if (typeof email === 'string') {
+        return { name: `email_${index + 1}`, content: email }
+      }
+      if (email && typeof email.content === 'string') {
+        return { name: String(email.name || `email_${index + 1}`), content: email.content }
+      }
+      throw new BatchFormatError(`Email ${index + 1} must be a string or { name, content }`)
+    })
+  }
+
+  parseZip(archive: Buffer): BatchItem[] {
+    let zip: AdmZip
+    try {
+      zip = new AdmZip(archive)
+    } catch (error: any) {
+      throw new BatchFormatError(`Could not read zip archive: ${error.message}`)
+    }
+
+    const entries = zip.getEntries()
+      .filter(entry => !entry.isDirectory && EMAIL_FILE.test(entry.entryName) && !entry.entryName.startsWith('__MACOSX/'))
+      .sort((a, b) => a.entryName.localeCompare(b.entryName))
+    if (entries.length > MAX_BATCH_SIZE) {
+      throw new BatchFormatError(`A batch may hold at most ${MAX_BATCH_SIZE} emails (got ${entries.length})`)
+    }
+
+    // The declared size also caps inflation, so a zip bomb stops there
+    let total = 0
+    for (const entry of entries) {
+      if (entry.header.size > MAX_ZIP_ENTRY_BYTES) {
+        throw new BatchFormatError(`${entry.entryName} is larger than ${MAX_ZIP_ENTRY_BYTES / 1024 / 1024} MB uncompressed`)
+      }
+      total += entry.header.size
+    }
+    if (total > MAX_ZIP_TOTAL_BYTES) {
+      throw new BatchFormatError(`The archive holds more than ${MAX_ZIP_TOTAL_BYTES / 1024 / 1024} MB of email uncompressed`)
+    }
+
+    // An entry declaring no size would inflate without a cap; it is empty or lying
+    return entries.map(entry => ({
+      name: entry.entryName,
+      content: entry.header.size > 0 ? entry.getData().toString('utf8') : ''
+    }))
+  }
+
+  parseMbox(mailbox: string): BatchItem[] {
+    const text = mailbox.replace(/\r\n/g, '\n')
+    if (!MBOX_SEPARATOR.test(text.split('\n')[0])) {
+      throw new BatchFormatError('Mailbox does not start with a "From " line')
+    }
+
+    return text
+      .split(/^From \S+.*\n/m)
+      .slice(1)
+      // Undo mboxrd quoting of body lines that began with "From "
+      .map(message => message.replace(/^>(>*From )/gm, '$1').trimEnd())
+      .map((content, index) => ({ name: `message_${index + 1}`, content }))
+  }
+
+  // Private helper methods
+
+  private toBuffer(body: unknown): Buffer {
+    if (Buffer.isBuffer(body)) return body
+    if (typeof body === 'string') return Buffer.from(body)
+    throw new BatchFormatError('Send the archive or mailbox as the raw request body')
+  }
+}
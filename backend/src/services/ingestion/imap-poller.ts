@@ -0,0 +1,102 @@
+import { ImapFlow } from 'imapflow'
+import { MailIngestionService } from './mail-ingestion-service'
+import { logger } from '../../utils/logger'
+
+export interface ImapPollerConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string
+  password: string
+  mailbox: string
+  intervalMs: number
+}
+
+/**
+ * Periodically fetches unseen messages from an IMAP mailbox, ingests them
+ * and marks them as seen. Messages ingestion rejects stay unseen and are
+ * flagged for a person to look at; flagged messages are not fetched again.
+ */
+export class ImapPoller {
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+
+  constructor(
+    private config: ImapPollerConfig,
+    private ingestion: MailIngestionService
+  ) {}
+
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.poll(), this.config.intervalMs)
+    this.poll()
+    logger.info('IMAP poller started', { host: this.config.host, mailbox: this.config.mailbox })
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Fetch and ingest the mailbox's unseen messages once; returns how many
+   * messages ingestion accepted or recognised as duplicates
+   */
+  async pollOnce(): Promise<number> {
+    const client = new ImapFlow({
+      host: this.config.host,
+      port: this.config.port,
+      secure: this.config.secure,
+      auth: { user: this.config.user, pass: this.config.password },
+      logger: false
+    })
+
+    await client.connect()
+    const lock = await client.getMailboxLock(this.config.mailbox)
+    let count = 0
+
+    try {
+      const uids = await client.search({ seen: false, flagged: false }, { uid: true }) || []
+
+      for (const uid of uids) {
+        const message = await client.fetchOne(String(uid), { source: true }, { uid: true })
+        if (!message || !message.source) continue
+
+        const result = await this.ingestion.ingest(message.source, 'forward')
+        if (result.status === 'rejected') {
+          logger.warn('IMAP message rejected, left unseen and flagged', { uid, reason: result.reason })
+          await client.messageFlagsAdd(String(uid), ['\\Flagged'], { uid: true })
+          continue
+        }
+
+        // Only mark as seen once ingestion accepted (or deduped) the message
+        await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true })
+        count++
+      }
+    } finally {
+      lock.release()
+      await client.logout()
+    }
+
+    return count
+  }
+
+  private async poll() {
+    // Skip a tick rather than overlap with a slow poll
+    if (this.polling) return
+    this.polling = true
+
+    try {
+      const count = await this.pollOnce()
+      if (count > 0) {
+        logger.info('IMAP poll ingested messages', { count })
+      }
+    } catch (error) {
+      logger.error('IMAP poll failed', { error })
+    } finally {
+      this.polling = false
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { ImapPoller } from './imap-poller'
+import { SmtpReceiver } from './smtp-receiver'
+import { MailIngestionService } from './mail-ingestion-service'
+import { logger } from '../../utils/logger'
+
+export { MailIngestionService, type IngestResult, type RawOrderHandler } from './mail-ingestion-service'
+export { ImapPoller, type ImapPollerConfig } from './imap-poller'
+export { SmtpReceiver, type SmtpReceiverConfig } from './smtp-receiver'
+export { MimeParser, ATTACHMENT_SECTION, type ParsedEmail } from './mime-parser'
+export { AttachmentExtractor, type ExtractedAttachment } from './attachment-extractor'
+export { BatchParser, BatchFormatError, MAX_BATCH_SIZE, type BatchItem } from './batch-parser'
+
+export interface MailListeners {
+  start(): Promise<void>
+  stop(): Promise<void>
+}
+
+/**
+ * Build the IMAP poller and SMTP receiver enabled by the environment
+ * (IMAP_HOST, SMTP_INBOUND_PORT); neither runs unless configured
+ */
+export function createMailListeners(ingestion: MailIngestionService): MailListeners {
+  const imapHost = process.env.IMAP_HOST
+  const smtpPort = process.env.SMTP_INBOUND_PORT
+
+  const poller = imapHost
+    ? new ImapPoller({
+        host: imapHost,
+        port: Number(process.env.IMAP_PORT || 993),
+        secure: process.env.IMAP_TLS !== 'false',
+        user: process.env.IMAP_USER || '',
+        password: process.env.IMAP_PASSWORD || '',
+        mailbox: process.env.IMAP_MAILBOX || 'INBOX',
+        intervalMs: Number(process.env.IMAP_POLL_INTERVAL_MS || 60000)
+      }, ingestion)
+    : null
+
+  const receiver = smtpPort
+    ? new SmtpReceiver({
+        host: process.env.SMTP_INBOUND_HOST || '0.0.0.0',
+        port: Number(smtpPort),
+        allowedRecipients: (process.env.SMTP_INBOUND_RECIPIENTS || '').split(',').map(s => s.trim()).filter(Boolean),
+        maxMessageBytes: Number(process.env.SMTP_INBOUND_MAX_BYTES || 25 * 1024 * 1024)
+      }, ingestion)
+    : null
+
+  return {
+    async start() {
+      if (!poller && !receiver) {
+        logger.info('Mail ingestion disabled (set IMAP_HOST or SMTP_INBOUND_PORT to enable)')
+        return
+      }
+      poller?.start()
+      await receiver?.listen()
+    },
+    async stop() {
+      poller?.stop()
+      await receiver?.close()
+    }
+  }
+}
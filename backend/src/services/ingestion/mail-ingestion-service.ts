@@ -0,0 +1,110 @@
+import { createHash } from 'crypto'
+import type { RawOrder } from '../../../../shared/types/core'
+import { MimeParser, type ParsedEmail } from './mime-parser'
+import { logger } from '../../utils/logger'
+
+export type RawOrderHandler = (rawOrder: RawOrder) => Promise<void>
+
+export interface IngestResult {
+  status: 'queued' | 'duplicate' | 'rejected'
+  message_id?: string
+  raw_order?: RawOrder
+  reason?: string
+}
+
+/**
+ * Common entry point for every mail channel (IMAP, SMTP, webhook): parses the
+ * MIME message, drops Message-IDs that were already seen and hands the
+ * resulting RawOrder to the handler one at a time, in arrival order
+ */
+export class MailIngestionService {
+  private inFlight: Set<string> = new Set()
+  private queue: Promise<void> = Promise.resolve()
+  private pending = 0
+
+  constructor(
+    private handler: RawOrderHandler,
+    // Looks up Message-IDs that already produced an order
+    private isKnownMessage: (messageId: string) => Promise<boolean>,
+    private mimeParser: MimeParser = new MimeParser()
+  ) {}
+
+  async ingest(message: Buffer | string, source: RawOrder['source'] = 'forward'): Promise<IngestResult> {
+    let parsed: ParsedEmail
+    try {
+      parsed = await this.mimeParser.parse(message)
+    } catch (error: any) {
+      logger.warn('Rejected unparseable email', { error: error.message })
+      return { status: 'rejected', reason: `Could not parse message: ${error.message}` }
+    }
+
+    const rawOrder = this.toRawOrder(parsed, message, source)
+    const messageId = rawOrder.metadata.headers!['message-id']
+
+    if (!rawOrder.raw_email.trim()) {
+      return { status: 'rejected', message_id: messageId, reason: 'Message has no text content' }
+    }
+
+    if (this.inFlight.has(messageId) || await this.isKnownMessage(messageId)) {
+      logger.info('Skipping duplicate email', { message_id: messageId })
+      return { status: 'duplicate', message_id: messageId }
+    }
+
+    this.enqueue(messageId, rawOrder)
+    return { status: 'queued', message_id: messageId, raw_order: rawOrder }
+  }
+
+  /**
+   * Map a parsed MIME message to a RawOrder; messages without a Message-ID get
+   * a content hash so retries still dedupe
+   */
+  toRawOrder(parsed: ParsedEmail, message: Buffer | string, source: RawOrder['source']): RawOrder {
+    const messageId = parsed.message_id ||
+      `<${createHash('sha256').update(message).digest('hex').slice(0, 32)}@generated>`
+    const headers = { ...parsed.headers, 'message-id': messageId }
+
+    return {
+      id: `mail_${createHash('sha1').update(messageId).digest('hex').slice(0, 16)}`,
+      raw_email: parsed.extraction_text,
+      source,
+      timestamp: parsed.date || new Date(),
+      metadata: {
+        sender_email: parsed.sender_email,
+        subject: parsed.subject,
+        headers,
+        attachments: [
+          ...parsed.attachments.map(attachment => attachment.filename),
+          ...parsed.skipped_attachments
+        ]
+      }
+    }
+  }
+
+  get queueLength(): number {
+    return this.pending
+  }
+
+  /**
+   * Resolves once everything queued so far has been processed
+   */
+  async drain(): Promise<void> {
+    await this.queue
+  }
+
+  private enqueue(messageId: string, rawOrder: RawOrder) {
+    this.inFlight.add(messageId)
+    this.pending++
+
+    this.queue = this.queue.then(async () => {
+      try {
+        await this.handler(rawOrder)
+        logger.info('Ingested email processed', { message_id: messageId, raw_order_id: rawOrder.id })
+      } catch (error) {
+        logger.error('Ingested email processing failed', { error, message_id: messageId })
+      } finally {
+        this.inFlight.delete(messageId)
+        this.pending--
+      }
+    })
+  }
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { AddressInfo } from 'net'
+import nodemailer from 'nodemailer'
+import hoodiecrow from 'hoodiecrow-imap'
+import type { RawOrder } from '../../../../shared/types/core'
+import { ImapPoller } from './imap-poller'
+import { SmtpReceiver } from './smtp-receiver'
+import { MailIngestionService } from './mail-ingestion-service'
+
+const ORDER_EMAIL = [
+  'From: Jane Buyer <jane@acme.example>',
+  'To: orders@furniture.example',
+  'Subject: Order',
+  'Message-ID: <order-1@acme.example>',
+  '',
+  'Please send 4 x DSK-0001.'
+].join('\r\n')
+
+const EMPTY_EMAIL = [
+  'From: Jane Buyer <jane@acme.example>',
+  'Subject: Order',
+  'Message-ID: <empty-1@acme.example>',
+  '',
+  ''
+].join('\r\n')
+
+function collectingIngestion(known: string[] = []) {
+  const received: RawOrder[] = []
+  const ingestion = new MailIngestionService(
+    async rawOrder => { received.push(rawOrder) },
+    async messageId => known.includes(messageId)
+  )
+  return { ingestion, received }
+}
+
+describe('ImapPoller', () => {
+  let server: ReturnType<typeof hoodiecrow>
+  let port: number
+
+  beforeEach(async () => {
+    server = hoodiecrow({
+      storage: {
+        INBOX: { messages: [{ raw: ORDER_EMAIL }, { raw: EMPTY_EMAIL }] },
+        '': {}
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.server.address() as AddressInfo).port
+  })
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  const poller = (ingestion: MailIngestionService) => new ImapPoller({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    user: 'testuser',
+    password: 'testpass',
+    mailbox: 'INBOX',
+    intervalMs: 60000
+  }, ingestion)
+
+  it('ingests unseen mail, marks it seen and leaves rejected mail unseen and flagged', async () => {
+    const { ingestion, received } = collectingIngestion()
+
+    expect(await poller(ingestion).pollOnce()).toBe(1)
+    await ingestion.drain()
+
+    expect(received.map(order => order.metadata.headers?.['message-id'])).toEqual(['<order-1@acme.example>'])
+    const [order, empty] = server.getMailbox('INBOX').messages
+    expect(order.flags).toContain('\\Seen')
+    expect(empty.flags).toContain('\\Flagged')
+    expect(empty.flags).not.toContain('\\Seen')
+  })
+
+  it('does not fetch flagged or seen mail again', async () => {
+    const { ingestion, received } = collectingIngestion()
+    await poller(ingestion).pollOnce()
+    await ingestion.drain()
+
+    expect(await poller(ingestion).pollOnce()).toBe(0)
+    expect(received).toHaveLength(1)
+  })
+
+  it('marks mail that already produced an order as seen without queueing it', async () => {
+    const { ingestion, received } = collectingIngestion(['<order-1@acme.example>'])
+
+    expect(await poller(ingestion).pollOnce()).toBe(1)
+    await ingestion.drain()
+
+    expect(received).toHaveLength(0)
+    expect(server.getMailbox('INBOX').messages[0].flags).toContain('\\Seen')
+  })
+})
+
+describe('SmtpReceiver', () => {
+  let receiver: SmtpReceiver | undefined
+
+  afterEach(async () => {
+    await receiver?.close()
+    receiver = undefined
+  })
+
+  const send = (port: number, to: string) => nodemailer.createTransport({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    ignoreTLS: true
+  }).sendMail({ envelope: { from: 'jane@acme.example', to }, raw: ORDER_EMAIL })
+
+  it('hands accepted mail to ingestion', async () => {
+    const { ingestion, received } = collectingIngestion()
+    receiver = new SmtpReceiver({ host: '127.0.0.1', port: 0, allowedRecipients: [], maxMessageBytes: 1024 * 1024 }, ingestion)
+    const port = await receiver.listen()
+
+    await send(port, 'orders@furniture.example')
+    await ingestion.drain()
+
+    expect(received).toHaveLength(1)
+    expect(received[0].source).toBe('forward')
+    expect(received[0].raw_email).toContain('4 x DSK-0001')
+  })
+
+  it('refuses recipients outside the allowed list', async () => {
+    const { ingestion, received } = collectingIngestion()
+    receiver = new SmtpReceiver({
+      host: '127.0.0.1',
+      port: 0,
+      allowedRecipients: ['orders@furniture.example'],
+      maxMessageBytes: 1024 * 1024
+    }, ingestion)
+    const port = await receiver.listen()
+
+    await expect(send(port, 'someone@furniture.example')).rejects.toThrow(/not accepted/)
+    expect(received).toHaveLength(0)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { ATTACHMENT_SECTION, MimeParser } from './mime-parser'
+
+const CSV = 'SKU,Product,Qty\nCFT-0167,Coffee STRÅDAL 620,9\n'
+
+const MESSAGE = [
+  'From: Lena Müller <lena@example.com>',
+  'To: orders@example.com',
+  'Subject: Purchase order 1042',
+  'Message-ID: <po-1042@example.com>',
+  'Date: Tue, 01 Jul 2025 09:30:00 +0000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Hi, please see the attached order. Deliver to K=C3=B6nigstra=C3=9Fe 45.',
+  '--b1',
+  'Content-Type: text/csv; name="order.csv"',
+  'Content-Disposition: attachment; filename="order.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from(CSV).toString('base64'),
+  '--b1',
+  'Content-Type: image/png; name="logo.png"',
+  'Content-Disposition: attachment; filename="logo.png"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('not really a png').toString('base64'),
+  '--b1--',
+  ''
+].join('\r\n')
+
+describe('MimeParser', () => {
+  const parser = new MimeParser()
+
+  it('tells raw messages from pasted bodies', () => {
+    expect(parser.looksLikeMime(MESSAGE)).toBe(true)
+    expect(parser.looksLikeMime('Hi team,\nFrom: the warehouse\nPlease send 4 desks')).toBe(false)
+  })
+
+  it('decodes the body and headers and extracts supported attachments', async () => {
+    const parsed = await parser.parse(MESSAGE)
+
+    expect(parsed).toMatchObject({
+      message_id: '<po-1042@example.com>',
+      subject: 'Purchase order 1042',
+      sender_email: 'lena@example.com',
+      body_text: 'Hi, please see the attached order. Deliver to Königstraße 45.',
+      skipped_attachments: ['logo.png']
+    })
+    expect(parsed.headers.to).toBe('orders@example.com')
+    expect(parsed.attachments.map(attachment => attachment.filename)).toEqual(['order.csv'])
+  })
+
+  it('appends one section per attachment to the extraction text', async () => {
+    const { extraction_text } = await parser.parse(MESSAGE)
+    const [body, header, line] = extraction_text.split('\n').filter(Boolean)
+
+    expect(body).toContain('attached order')
+    expect(header).toMatch(ATTACHMENT_SECTION)
+    expect(header.match(ATTACHMENT_SECTION)?.[1]).toBe('order.csv')
+    expect(line).toBe('9 x Coffee STRÅDAL 620 (CFT-0167)')
+  })
+})
@@ -0,0 +1,83 @@
+import { simpleParser } from 'mailparser'
+import { AttachmentExtractor, stripHtml, type ExtractedAttachment } from './attachment-extractor'
+
+export interface ParsedEmail {
+  message_id?: string
+  subject?: string
+  sender_email?: string
+  date?: Date
+  headers: Record<string, string>
+  body_text: string
+  attachments: ExtractedAttachment[]
+  skipped_attachments: string[]
+  // Body followed by one section per attachment; this is what extraction sees
+  extraction_text: string
+}
+
+// Marks where an attachment's content starts inside extraction_text
+export const ATTACHMENT_SECTION = /^--- Attachment: (.+) ---$/
+
+const MIME_HEADER = /^(?:from|to|subject|date|message-id|mime-version|content-type|received|return-path):/i
+
+/**
+ * Parses complete MIME messages (.eml): decodes quoted-printable and base64
+ * parts, reduces HTML bodies to text and extracts supported attachments
+ */
+export class MimeParser {
+  constructor(private attachmentExtractor: AttachmentExtractor = new AttachmentExtractor()) {}
+
+  /**
+   * Whether pasted content is a raw message with headers rather than a body
+   */
+  looksLikeMime(content: string): boolean {
+    const headerBlock = content.replace(/\r\n/g, '\n').split('\n\n')[0].split('\n')
+    const headers = headerBlock.filter(line => MIME_HEADER.test(line))
+    return headers.length >= 2 && MIME_HEADER.test(headerBlock[0])
+  }
+
+  async parse(message: Buffer | string): Promise<ParsedEmail> {
+    const parsed = await simpleParser(message)
+
+    const headers: Record<string, string> = {}
+    for (const { key, line } of parsed.headerLines) {
+      const value = line.slice(line.indexOf(':') + 1).trim()
+      headers[key] = headers[key] ? `${headers[key]}\n${value}` : value
+    }
+
+    const attachments: ExtractedAttachment[] = []
+    const skipped: string[] = []
+    for (const attachment of parsed.attachments) {
+      const extracted = await this.attachmentExtractor.extract({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content
+      })
+      if (extracted && extracted.text) {
+        attachments.push(extracted)
+      } else {
+        skipped.push(attachment.filename || attachment.contentType)
+      }
+    }
+
+    const bodyText = (parsed.text || (parsed.html ? stripHtml(parsed.html) : '')).trim()
+
+    return {
+      message_id: parsed.messageId,
+      subject: parsed.subject,
+      sender_email: parsed.from?.value[0]?.address,
+      date: parsed.date,
+      headers,
+      body_text: bodyText,
+      attachments,
+      skipped_attachments: skipped,
+      extraction_text: composeExtractionText(bodyText, attachments)
+    }
+  }
+}
+
+export function composeExtractionText(bodyText: string, attachments: ExtractedAttachment[]): string {
+  return [
+    bodyText,
+    ...attachments.map(attachment => `--- Attachment: ${attachment.filename} ---\n${attachment.text}`)
+  ].filter(Boolean).join('\n\n')
+}
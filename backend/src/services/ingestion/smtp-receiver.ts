@@ -0,0 +1,86 @@
+import { SMTPServer, type SMTPServerDataStream, type SMTPServerSession } from 'smtp-server'
+import type { AddressInfo } from 'net'
+import { MailIngestionService } from './mail-ingestion-service'
+import { logger } from '../../utils/logger'
+
+export interface SmtpReceiverConfig {
+  host: string
+  port: number
+  // Accept mail only for these addresses; empty accepts any recipient
+  allowedRecipients: string[]
+  maxMessageBytes: number
+}
+
+/**
+ * Minimal inbound SMTP listener: mail forwarded to the order address is
+ * accepted and handed straight to ingestion
+ */
+export class SmtpReceiver {
+  private server: SMTPServer
+
+  constructor(
+    private config: SmtpReceiverConfig,
+    private ingestion: MailIngestionService
+  ) {
+    const allowed = config.allowedRecipients.map(address => address.toLowerCase())
+
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['AUTH'],
+      size: config.maxMessageBytes,
+      logger: false,
+      onRcptTo: (address, _session, callback) => {
+        if (allowed.length > 0 && !allowed.includes(address.address.toLowerCase())) {
+          return callback(new Error(`Mailbox ${address.address} not accepted here`))
+        }
+        callback()
+      },
+      onData: (stream, session, callback) => this.receive(stream, session, callback)
+    })
+
+    this.server.on('error', error => logger.error('SMTP receiver error', { error }))
+  }
+
+  /**
+   * Start listening; resolves with the bound port (useful when port is 0)
+   */
+  listen(): Promise<number> {
+    return new Promise(resolve => {
+      this.server.listen(this.config.port, this.config.host, () => {
+        const port = (this.server.server.address() as AddressInfo).port
+        logger.info('SMTP receiver listening', { host: this.config.host, port })
+        resolve(port)
+      })
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()))
+  }
+
+  private receive(
+    stream: SMTPServerDataStream,
+    session: SMTPServerSession,
+    callback: (error?: Error | null) => void
+  ) {
+    const chunks: Buffer[] = []
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+    stream.on('end', async () => {
+      if (stream.sizeExceeded) {
+        return callback(Object.assign(new Error('Message exceeds size limit'), { responseCode: 552 }))
+      }
+
+      try {
+        const result = await this.ingestion.ingest(Buffer.concat(chunks), 'forward')
+        logger.info('SMTP message received', {
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : undefined,
+          status: result.status
+        })
+        callback()
+      } catch (error: any) {
+        logger.error('SMTP message ingestion failed', { error })
+        callback(Object.assign(new Error('Temporary failure, try again later'), { responseCode: 451 }))
+      }
+    })
+  }
+}
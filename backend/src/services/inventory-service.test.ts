@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryInventoryRepository } from '../repositories'
+import { InsufficientStockError, InventoryService } from './inventory-service'
+import { ProductCatalogService } from './product-catalog-service'
+
+// DSK-0001 starts with 31 units in the catalog, DSK-0002 with 94
+const desks = (first: number, second = 0) => [
+  { sku: 'DSK-0001', quantity: first },
+  ...(second > 0 ? [{ sku: 'DSK-0002', quantity: second }] : [])
+]
+
+describe('InventoryService', () => {
+  let inventory: InventoryService
+
+  beforeEach(() => {
+    inventory = new InventoryService(new InMemoryInventoryRepository(), new ProductCatalogService())
+  })
+
+  it('reserves order lines against available stock', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(10, 5) }, 'reviewer')
+
+    expect(await inventory.level('DSK-0001')).toEqual({ sku: 'DSK-0001', on_hand: 31, reserved: 10, available: 21 })
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 10], ['DSK-0002', 5]]))
+  })
+
+  it('sums repeated SKUs and skips lines without a catalog product or quantity', async () => {
+    await inventory.reserve({
+      id: 'o1',
+      line_items: [
+        { sku: 'dsk-0001', quantity: 2 },
+        { extracted_sku: 'DSK-0001', quantity: '3' },
+        { sku: 'NOPE-0000', quantity: 5 },
+        { sku: 'DSK-0002' }
+      ]
+    }, 'reviewer')
+
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 5]]))
+  })
+
+  it('refuses a reservation other orders already hold the stock for', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(30) }, 'reviewer')
+
+    const error = await inventory.reserve({ id: 'o2', line_items: desks(2, 5) }, 'reviewer').catch(e => e)
+    expect(error).toBeInstanceOf(InsufficientStockError)
+    expect(error.shortages).toEqual([{ sku: 'DSK-0001', requested: 2, available: 1 }])
+    // Nothing is reserved for the order, not even the lines that were in stock
+    expect((await inventory.reservedFor('o2')).size).toBe(0)
+  })
+
+  it('replaces an order\'s reservation in one step, counting its own stock as available', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(20, 5) }, 'reviewer')
+
+    await inventory.reserve({ id: 'o1', line_items: desks(31) }, 'reviewer')
+
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 31]]))
+    expect((await inventory.level('DSK-0002'))?.reserved).toBe(0)
+  })
+
+  it('keeps the existing reservation when the replacement falls short', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(20) }, 'reviewer')
+    await inventory.reserve({ id: 'o2', line_items: desks(5) }, 'reviewer')
+
+    await expect(inventory.reserve({ id: 'o1', line_items: desks(30) }, 'reviewer'))
+      .rejects.toBeInstanceOf(InsufficientStockError)
+
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 20]]))
+    expect((await inventory.level('DSK-0001'))?.available).toBe(6)
+  })
+
+  it('counts an order\'s own reservation as available to promise to it', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(20) }, 'reviewer')
+
+    expect(await inventory.availableToPromise('DSK-0001')).toBe(11)
+    expect(await inventory.availableToPromise('DSK-0001', 'o1')).toBe(31)
+  })
+
+  it('releases everything an order holds', async () => {
+    await inventory.reserve({ id: 'o1', line_items: desks(10, 5) }, 'reviewer')
+
+    const released = await inventory.release('o1', 'reviewer', 'Order deleted')
+
+    expect(released.map(movement => [movement.type, movement.sku, movement.quantity]).sort()).toEqual([
+      ['release', 'DSK-0001', 10],
+      ['release', 'DSK-0002', 5]
+    ])
+    expect((await inventory.level('DSK-0001'))?.available).toBe(31)
+    expect(await inventory.release('o1', 'reviewer')).toEqual([])
+  })
+})
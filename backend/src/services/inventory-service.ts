@@ -0,0 +1,223 @@
+import {
+  toBalances,
+  type InventoryRepository,
+  type NewStockMovementRecord,
+  type OrderRecord,
+  type StockBalance,
+  type StockMovementRecord,
+  type StockShortage
+} from '../repositories'
+import type { Product } from '../../../shared/types/core'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { EventBus } from './realtime'
+import { logger } from '../utils/logger'
+
+export interface StockLevel {
+  sku: string
+  on_hand: number
+  reserved: number
+  // Available to promise: on hand minus what approved orders hold
+  available: number
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly orderId: string, public readonly shortages: StockShortage[]) {
+    super(`Insufficient stock for order ${orderId}: ${shortages
+      .map(shortage => `${shortage.sku} requested ${shortage.requested}, available ${shortage.available}`)
+      .join('; ')}`)
+    this.name = 'InsufficientStockError'
+  }
+}
+
+type StockOrder = Pick<OrderRecord, 'id' | 'line_items'>
+
+/**
+ * Stock on hand and available-to-promise per SKU, from the catalog stock
+ * count plus the movement ledger. Approved orders hold reservations until
+ * they ship or are rejected.
+ */
+export class InventoryService {
+  constructor(
+    private repository: InventoryRepository,
+    private catalog: ProductCatalogService,
+    private events?: EventBus
+  ) {}
+
+  async level(sku: string): Promise<StockLevel | null> {
+    const product = await this.catalog.findBySKU(sku)
+    if (!product) return null
+    const [balance] = await this.repository.getBalances([product.product_code])
+    return this.toLevel(product, balance)
+  }
+
+  /**
+   * Levels for the given SKUs (unknown ones are skipped), or the whole catalog
+   */
+  async levels(skus?: string[]): Promise<StockLevel[]> {
+    const products = skus
+      ? (await Promise.all(skus.map(sku => this.catalog.findBySKU(sku)))).filter((p): p is Product => Boolean(p))
+      : await this.catalog.getAllProducts()
+    if (products.length === 0) return []
+
+    const balances = new Map((await this.repository.getBalances(skus && products.map(p => p.product_code)))
+      .map(balance => [balance.sku, balance]))
+    return products.map(product => this.toLevel(product, balances.get(product.product_code)))
+  }
+
+  /**
+   * Units of a SKU that can still be promised; an order's own reservation
+   * counts as available to that order
+   */
+  async availableToPromise(sku: string, orderId?: string): Promise<number | null> {
+    const level = await this.level(sku)
+    if (!level) return null
+    const own = orderId ? (await this.reservedFor(orderId)).get(level.sku) || 0 : 0
+    return level.available + own
+  }
+
+  /**
+   * Outstanding reservations of an order per SKU
+   */
+  async reservedFor(orderId: string): Promise<Map<string, number>> {
+    const movements = await this.repository.listMovements({ order_id: orderId })
+    const reserved = new Map<string, number>()
+    for (const balance of toBalances(movements).values()) {
+      if (balance.reserved > 0) reserved.set(balance.sku, balance.reserved)
+    }
+    return reserved
+  }
+
+  /**
+   * Reserve every catalog line of an order, or throw InsufficientStockError
+   * and change nothing. Replaces any reservation the order already holds in
+   * the same step, so the order never gives up stock it cannot get back.
+   */
+  async reserve(order: StockOrder, actor: string): Promise<StockMovementRecord[]> {
+    const quantities = await this.orderQuantities(order)
+    if (quantities.size === 0) {
+      return this.release(order.id, actor, 'Replaced by a new reservation')
+    }
+
+    const lines = Array.from(quantities.values()).map(({ product, quantity }) => ({
+      sku: product.product_code,
+      quantity,
+      opening_stock: product.available_in_stock
+    }))
+
+    const { movements, shortages } = await this.repository.reserve(order.id, lines, actor)
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(order.id, shortages)
+    }
+
+    logger.info('Stock reserved', { order_id: order.id, skus: lines.map(line => line.sku) })
+    await this.publish(movements.map(movement => movement.sku))
+    return movements
+  }
+
+  /**
+   * Give back whatever an order still holds (rejected, edited or deleted)
+   */
+  async release(orderId: string, actor: string, note?: string): Promise<StockMovementRecord[]> {
+    const reserved = await this.reservedFor(orderId)
+    if (reserved.size === 0) return []
+
+    const movements = await this.repository.record(Array.from(reserved.entries()).map(([sku, quantity]) => ({
+      sku,
+      type: 'release' as const,
+      quantity,
+      order_id: orderId,
+      actor,
+      note
+    })))
+
+    logger.info('Stock released', { order_id: orderId, skus: Array.from(reserved.keys()) })
+    await this.publish(Array.from(reserved.keys()))
+    return movements
+  }
+
+  /**
+   * Fulfilled order leaves the warehouse: its reservation turns into a shipment.
+   * Orders approved before they held a reservation ship their line quantities.
+   */
+  async ship(order: StockOrder, actor: string): Promise<StockMovementRecord[]> {
+    const reserved = await this.reservedFor(order.id)
+    const shipped = reserved.size > 0
+      ? reserved
+      : new Map(Array.from((await this.orderQuantities(order)).entries()).map(([sku, line]) => [sku, line.quantity]))
+    if (shipped.size === 0) return []
+
+    const movements: NewStockMovementRecord[] = []
+    for (const [sku, quantity] of shipped) {
+      if (reserved.has(sku)) {
+        movements.push({ sku, type: 'release', quantity, order_id: order.id, actor, note: 'Shipped' })
+      }
+      movements.push({ sku, type: 'shipment', quantity, order_id: order.id, actor })
+    }
+
+    const recorded = await this.repository.record(movements)
+    await this.publish(Array.from(shipped.keys()))
+    return recorded
+  }
+
+  /**
+   * Goods received into stock; null for an unknown SKU
+   */
+  async receive(sku: string, quantity: number, actor: string, note?: string): Promise<StockLevel | null> {
+    return this.recordMovement({ sku, type: 'receipt', quantity, actor, note })
+  }
+
+  /**
+   * Signed stock-count correction; null for an unknown SKU
+   */
+  async adjust(sku: string, change: number, actor: string, note?: string): Promise<StockLevel | null> {
+    return this.recordMovement({ sku, type: 'adjustment', quantity: change, actor, note })
+  }
+
+  async history(sku: string, limit = 50): Promise<StockMovementRecord[]> {
+    return this.repository.listMovements({ sku: sku.trim().toUpperCase(), limit })
+  }
+
+  // Private helper methods
+
+  private async recordMovement(movement: NewStockMovementRecord): Promise<StockLevel | null> {
+    const product = await this.catalog.findBySKU(movement.sku)
+    if (!product) return null
+
+    await this.repository.record([{ ...movement, sku: product.product_code }])
+    await this.publish([product.product_code])
+    return this.level(product.product_code)
+  }
+
+  // Catalog SKUs of an order with their summed quantities
+  private async orderQuantities(order: StockOrder): Promise<Map<string, { product: Product, quantity: number }>> {
+    const quantities = new Map<string, { product: Product, quantity: number }>()
+    for (const item of order.line_items || []) {
+      const sku = item.sku || item.extracted_sku
+      const quantity = Number(item.quantity)
+      if (!sku || !Number.isFinite(quantity) || quantity <= 0) continue
+
+      const product = await this.catalog.findBySKU(String(sku).trim())
+      if (!product) continue
+
+      const line = quantities.get(product.product_code)
+      quantities.set(product.product_code, { product, quantity: (line?.quantity || 0) + quantity })
+    }
+    return quantities
+  }
+
+  private toLevel(product: Product, balance?: StockBalance): StockLevel {
+    const onHand = product.available_in_stock + (balance?.on_hand_change || 0)
+    const reserved = balance?.reserved || 0
+    return {
+      sku: product.product_code,
+      on_hand: onHand,
+      reserved,
+      available: Math.max(0, onHand - reserved)
+    }
+  }
+
+  private async publish(skus: string[]) {
+    if (!this.events) return
+    this.events.publish({ type: 'inventory.changed', levels: await this.levels([...new Set(skus)]) })
+  }
+}
@@ -0,0 +1,68 @@
+import { compareJobs, type Job, type JobCounts, type JobStore } from './job-store'
+
+// Finished jobs kept for status lookups before the oldest are dropped
+const MAX_FINISHED_JOBS = 1000
+
+/**
+ * Process-local job store; jobs are lost on restart
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map()
+  private finished: string[] = []
+
+  async add(job: Job): Promise<Job> {
+    if (job.dedupe_key) {
+      const pending = Array.from(this.jobs.values()).find(existing =>
+        existing.dedupe_key === job.dedupe_key && !['completed', 'dead'].includes(existing.status)
+      )
+      if (pending) return { ...pending }
+    }
+
+    this.jobs.set(job.id, { ...job })
+    return { ...job }
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id)
+    return job ? { ...job } : null
+  }
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job })
+
+    if (job.status === 'completed' || job.status === 'dead') {
+      this.finished.push(job.id)
+      // Dead letters stay until retried; only completed jobs are evicted
+      while (this.finished.length > MAX_FINISHED_JOBS) {
+        const oldest = this.finished.shift()!
+        if (this.jobs.get(oldest)?.status === 'completed') this.jobs.delete(oldest)
+      }
+    }
+  }
+
+  async claimNext(now: Date): Promise<Job | null> {
+    const due = now.toISOString()
+    const next = Array.from(this.jobs.values())
+      .filter(job => (job.status === 'queued' || job.status === 'retrying') && job.run_at <= due)
+      .sort(compareJobs)[0]
+
+    if (!next) return null
+    next.status = 'running'
+    next.updated_at = due
+    return { ...next }
+  }
+
+  async listDead(limit: number = 100): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === 'dead')
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .slice(0, limit)
+      .map(job => ({ ...job }))
+  }
+
+  async counts(): Promise<JobCounts> {
+    const counts: JobCounts = { queued: 0, running: 0, retrying: 0, completed: 0, dead: 0 }
+    this.jobs.forEach(job => { counts[job.status]++ })
+    return counts
+  }
+}
@@ -0,0 +1,40 @@
+import { InMemoryJobStore } from './in-memory-job-store'
+import { RedisJobStore } from './redis-job-store'
+import type { JobStore } from './job-store'
+import { logger } from '../../utils/logger'
+
+export type { Job, JobStatus, JobPriority, JobCounts, JobStore } from './job-store'
+export { PRIORITY_RANK } from './job-store'
+export {
+  JobQueue,
+  NonRetryableJobError,
+  type JobHandler,
+  type JobQueueOptions,
+  type EnqueueOptions
+} from './job-queue'
+export { InMemoryJobStore } from './in-memory-job-store'
+export { RedisJobStore } from './redis-job-store'
+
+/**
+ * Pick the job store from JOB_QUEUE (redis | memory); defaults to Redis when
+ * REDIS_URL is configured, otherwise in-process
+ */
+export function createJobStore(): JobStore {
+  const redisUrl = process.env.REDIS_URL
+  const backend = process.env.JOB_QUEUE || (redisUrl ? 'redis' : 'memory')
+
+  if (backend === 'redis') {
+    if (!redisUrl) {
+      throw new Error('REDIS_URL is required when JOB_QUEUE=redis')
+    }
+    logger.info('Using Redis job queue')
+    return new RedisJobStore(
+      redisUrl,
+      process.env.JOB_QUEUE_PREFIX,
+      process.env.JOB_LEASE_MS ? Number(process.env.JOB_LEASE_MS) : undefined
+    )
+  }
+
+  logger.info('Using in-process job queue - queued jobs are lost on restart')
+  return new InMemoryJobStore()
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { Job } from './job-store'
+import { InMemoryJobStore } from './in-memory-job-store'
+import { JobQueue, NonRetryableJobError, type JobHandler } from './job-queue'
+
+const FAST = { concurrency: 1, maxAttempts: 3, backoffMs: 20, maxBackoffMs: 1000, pollIntervalMs: 5 }
+
+// Poll until the job has completed or been dead-lettered
+async function settled(jobs: JobQueue<string>, id: string, timeoutMs = 2000): Promise<Job<string> | null> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    const job = await jobs.get(id)
+    if (job && (job.status === 'completed' || job.status === 'dead')) return job
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+  return jobs.get(id)
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue<string> | undefined
+
+  afterEach(async () => {
+    await queue?.stop()
+    queue = undefined
+  })
+
+  function start(handler: JobHandler<string>, options = FAST) {
+    queue = new JobQueue(new InMemoryJobStore(), handler, options)
+    queue.start()
+    return queue
+  }
+
+  it('completes a job and keeps the handler result', async () => {
+    const jobs = start(async job => job.payload.toUpperCase())
+
+    const { id } = await jobs.enqueue('hello')
+    const done = await settled(jobs, id)
+
+    expect(done).toMatchObject({ status: 'completed', attempts: 1, result: 'HELLO' })
+  })
+
+  it('retries a failing job with growing delays until it succeeds', async () => {
+    const attemptsAt: number[] = []
+    const jobs = start(async job => {
+      attemptsAt.push(Date.now())
+      if (job.attempts < 3) throw new Error('Model timed out')
+      return 'ok'
+    })
+
+    const { id } = await jobs.enqueue('flaky')
+    const done = await settled(jobs, id)
+
+    expect(done).toMatchObject({ status: 'completed', attempts: 3, result: 'ok' })
+    expect(done?.last_error).toBeUndefined()
+    // 20ms after the first failure, 40ms after the second
+    expect(attemptsAt[1] - attemptsAt[0]).toBeGreaterThanOrEqual(15)
+    expect(attemptsAt[2] - attemptsAt[1]).toBeGreaterThanOrEqual(35)
+  })
+
+  it('dead-letters a job after max attempts and can retry it', async () => {
+    let healthy = false
+    const jobs = start(async () => {
+      if (!healthy) throw new Error('Model unavailable')
+      return 'ok'
+    })
+
+    const { id } = await jobs.enqueue('doomed')
+    const dead = await settled(jobs, id)
+
+    expect(dead).toMatchObject({ status: 'dead', attempts: 3, last_error: 'Model unavailable' })
+    expect((await jobs.listDead()).map(job => job.id)).toEqual([id])
+    expect((await jobs.counts()).dead).toBe(1)
+
+    healthy = true
+    expect(await jobs.retry(id)).toMatchObject({ status: 'queued', attempts: 0 })
+    expect(await settled(jobs, id)).toMatchObject({ status: 'completed', attempts: 1 })
+    expect(await jobs.listDead()).toEqual([])
+  })
+
+  it('dead-letters at once on a non-retryable error', async () => {
+    const jobs = start(async () => {
+      throw new NonRetryableJobError('Email has no content')
+    })
+
+    const { id } = await jobs.enqueue('empty')
+
+    expect(await settled(jobs, id)).toMatchObject({ status: 'dead', attempts: 1, last_error: 'Email has no content' })
+  })
+
+  it('honours per-job max attempts and reports every state change', async () => {
+    const statuses: Job<string>['status'][] = []
+    const jobs = start(async () => {
+      throw new Error('Still failing')
+    })
+    jobs.onChange(job => statuses.push(job.status))
+
+    const { id } = await jobs.enqueue('once', { max_attempts: 2 })
+
+    expect(await settled(jobs, id)).toMatchObject({ status: 'dead', attempts: 2 })
+    expect(statuses).toEqual(['queued', 'running', 'retrying', 'running', 'dead'])
+  })
+
+  it('returns the pending job for a repeated dedupe key', async () => {
+    const jobs = new JobQueue<string>(new InMemoryJobStore(), async () => 'ok', FAST)
+
+    const first = await jobs.enqueue('a', { dedupe_key: '<msg-1@example.com>' })
+    const second = await jobs.enqueue('b', { dedupe_key: '<msg-1@example.com>' })
+
+    expect(second.id).toBe(first.id)
+    expect((await jobs.counts()).queued).toBe(1)
+  })
+})
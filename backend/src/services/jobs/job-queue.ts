@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto'
+import type { Job, JobCounts, JobPriority, JobStore } from './job-store'
+import { logger } from '../../utils/logger'
+
+export type JobHandler<TPayload> = (job: Job<TPayload>) => Promise<unknown>
+
+export interface JobQueueOptions {
+  // Jobs processed at the same time
+  concurrency: number
+  // Attempts before a job is dead-lettered
+  maxAttempts: number
+  // First retry delay; doubles on every further attempt
+  backoffMs: number
+  maxBackoffMs: number
+  // How often to look for retries that became due
+  pollIntervalMs: number
+}
+
+export interface EnqueueOptions {
+  priority?: JobPriority
+  dedupe_key?: string
+  max_attempts?: number
+}
+
+/**
+ * Thrown by a handler when retrying cannot help; the job is dead-lettered at once
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NonRetryableJobError'
+  }
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  maxAttempts: 4,
+  backoffMs: 2000,
+  maxBackoffMs: 60000,
+  pollIntervalMs: 1000
+}
+
+/**
+ * Runs queued jobs through a handler, highest priority first, at most
+ * `concurrency` at a time. Failed jobs are retried with exponential backoff
+ * and moved to the dead-letter list after `maxAttempts`.
+ */
+export class JobQueue<TPayload> {
+  private options: JobQueueOptions
+  private active = 0
+  private timer?: NodeJS.Timeout
+  private pumping = false
+  private idleWaiters: Array<() => void> = []
+  private listeners: Array<(job: Job<TPayload>) => void> = []
+
+  constructor(
+    private store: JobStore,
+    private handler: JobHandler<TPayload>,
+    options: Partial<JobQueueOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  async enqueue(payload: TPayload, options: EnqueueOptions = {}): Promise<Job<TPayload>> {
+    const now = new Date().toISOString()
+    const job = await this.store.add({
+      id: `job_${randomUUID()}`,
+      payload,
+      priority: options.priority || 'medium',
+      status: 'queued',
+      attempts: 0,
+      max_attempts: options.max_attempts || this.options.maxAttempts,
+      dedupe_key: options.dedupe_key,
+      run_at: now,
+      created_at: now,
+      updated_at: now
+    }) as Job<TPayload>
+
+    this.notify(job)
+    this.pump()
+    return job
+  }
+
+  async get(id: string): Promise<Job<TPayload> | null> {
+    return await this.store.get(id) as Job<TPayload> | null
+  }
+
+  async listDead(limit?: number): Promise<Job<TPayload>[]> {
+    return await this.store.listDead(limit) as Job<TPayload>[]
+  }
+
+  async counts(): Promise<JobCounts> {
+    return this.store.counts()
+  }
+
+  /**
+   * Resolves once the job completed or was dead-lettered, or with its current
+   * state when timeoutMs runs out
+   */
+  async waitFor(id: string, timeoutMs: number): Promise<Job<TPayload> | null> {
+    const deadline = Date.now() + timeoutMs
+
+    for (;;) {
+      const job = await this.get(id)
+      if (!job || job.status === 'completed' || job.status === 'dead' || Date.now() >= deadline) {
+        return job
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs))
+    }
+  }
+
+  /**
+   * Put a dead-lettered job back on the queue with a fresh set of attempts
+   */
+  async retry(id: string): Promise<Job<TPayload> | null> {
+    const job = await this.get(id)
+    if (!job || job.status !== 'dead') return null
+
+    const now = new Date().toISOString()
+    const requeued: Job<TPayload> = { ...job, status: 'queued', attempts: 0, run_at: now, updated_at: now }
+    await this.store.save(requeued)
+
+    this.notify(requeued)
+    this.pump()
+    return requeued
+  }
+
+  /**
+   * Called whenever a job is queued or changes state
+   */
+  onChange(listener: (job: Job<TPayload>) => void) {
+    this.listeners.push(listener)
+  }
+
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.pump(), this.options.pollIntervalMs)
+    this.timer.unref()
+    this.pump()
+  }
+
+  /**
+   * Stop taking new jobs and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    if (this.active > 0) {
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve))
+    }
+    await this.store.close?.()
+  }
+
+  // Private helper methods
+
+  private async pump() {
+    if (!this.timer || this.pumping) return
+    this.pumping = true
+
+    try {
+      while (this.timer && this.active < this.options.concurrency) {
+        const job = await this.store.claimNext(new Date()) as Job<TPayload> | null
+        if (!job) break
+
+        this.active++
+        this.notify(job)
+        this.run(job).finally(() => {
+          this.active--
+          if (this.active === 0) this.idleWaiters.splice(0).forEach(resolve => resolve())
+          this.pump()
+        })
+      }
+    } catch (error) {
+      logger.error('Failed to claim job', { error })
+    } finally {
+      this.pumping = false
+    }
+  }
+
+  private async run(job: Job<TPayload>) {
+    job.attempts++
+
+    try {
+      job.result = await this.handler(job)
+      job.status = 'completed'
+      job.last_error = undefined
+      job.completed_at = new Date().toISOString()
+      logger.info('Job completed', { job_id: job.id, attempts: job.attempts })
+    } catch (error: any) {
+      job.last_error = error?.message || String(error)
+
+      if (error instanceof NonRetryableJobError || job.attempts >= job.max_attempts) {
+        job.status = 'dead'
+        logger.error('Job moved to dead-letter list', { job_id: job.id, attempts: job.attempts, error: job.last_error })
+      } else {
+        const delay = Math.min(this.options.maxBackoffMs, this.options.backoffMs * 2 ** (job.attempts - 1))
+        job.status = 'retrying'
+        job.run_at = new Date(Date.now() + delay).toISOString()
+        logger.warn('Job failed, retrying', { job_id: job.id, attempts: job.attempts, delay_ms: delay, error: job.last_error })
+      }
+    }
+
+    job.updated_at = new Date().toISOString()
+
+    try {
+      await this.store.save(job)
+    } catch (error) {
+      logger.error('Failed to save job state', { error, job_id: job.id })
+    }
+    this.notify(job)
+  }
+
+  private notify(job: Job<TPayload>) {
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...job })
+      } catch (error) {
+        logger.error('Job listener failed', { error, job_id: job.id })
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'dead'
+
+// Same scale as an order's urgency
+export type JobPriority = 'low' | 'medium' | 'high' | 'critical'
+
+export const PRIORITY_RANK: Record<JobPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+}
+
+export interface Job<TPayload = unknown> {
+  id: string
+  payload: TPayload
+  priority: JobPriority
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  // Jobs with the same key are not queued twice while one is pending (e.g. a Message-ID)
+  dedupe_key?: string
+  // Earliest time the job may (re)start
+  run_at: string
+  last_error?: string
+  result?: unknown
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
+
+export type JobCounts = Record<JobStatus, number>
+
+/**
+ * Persistence behind the JobQueue; claimNext must hand each job to only one worker
+ */
+export interface JobStore {
+  // Returns the already pending job instead when dedupe_key is taken
+  add(job: Job): Promise<Job>
+  get(id: string): Promise<Job | null>
+  // Persist a job the caller holds; requeues it when status is queued/retrying
+  save(job: Job): Promise<void>
+  // Highest-priority job whose run_at has passed, marked running; shared stores
+  // requeue a running job whose worker did not save it within its lease
+  claimNext(now: Date): Promise<Job | null>
+  listDead(limit?: number): Promise<Job[]>
+  counts(): Promise<JobCounts>
+  close?(): Promise<void>
+}
+
+/**
+ * Queue order: priority first, then creation time (FIFO within a priority)
+ */
+export function compareJobs(a: Job, b: Job): number {
+  return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.created_at.localeCompare(b.created_at)
+}
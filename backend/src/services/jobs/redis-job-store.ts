@@ -0,0 +1,160 @@
+import Redis from 'ioredis'
+import { PRIORITY_RANK, type Job, type JobCounts, type JobStore } from './job-store'
+
+// Completed jobs stay readable through GET /api/jobs/:id for a day
+const COMPLETED_TTL_SECONDS = 24 * 60 * 60
+
+// A claimed job not saved within this long is assumed lost with its worker
+const DEFAULT_LEASE_MS = 15 * 60 * 1000
+
+// Requeues running jobs whose lease ran out and moves due retries into the
+// ready set, then pops the best ready job and leases it.
+// KEYS: delayed zset, ready zset, scores hash, leases zset; ARGV: now (ms), lease (ms)
+const CLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[4], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[4], id)
+  redis.call('ZADD', KEYS[2], redis.call('HGET', KEYS[3], id) or 0, id)
+end
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(due) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], redis.call('HGET', KEYS[3], id) or 0, id)
+end
+local popped = redis.call('ZPOPMIN', KEYS[2])
+if popped[1] then
+  redis.call('ZADD', KEYS[4], tonumber(ARGV[1]) + tonumber(ARGV[2]), popped[1])
+end
+return popped[1]
+`
+
+/**
+ * Job store shared by every API instance: jobs are JSON strings, waiting jobs
+ * sit in a priority-ordered sorted set and retries in a delayed set keyed by
+ * run_at; the dead-letter list keeps failed jobs until they are retried.
+ * Running jobs hold a lease: when their worker dies before saving them, the
+ * next claim puts them back on the queue.
+ */
+export class RedisJobStore implements JobStore {
+  private redis: Redis
+
+  constructor(
+    redisUrl: string,
+    private prefix: string = 'order-jobs',
+    private leaseMs: number = DEFAULT_LEASE_MS
+  ) {
+    this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 3 })
+  }
+
+  async add(job: Job): Promise<Job> {
+    if (job.dedupe_key) {
+      const claimed = await this.redis.set(this.key('dedupe', job.dedupe_key), job.id, 'NX')
+      if (!claimed) {
+        const pendingId = await this.redis.get(this.key('dedupe', job.dedupe_key))
+        const pending = pendingId ? await this.get(pendingId) : null
+        if (pending) return pending
+        await this.redis.set(this.key('dedupe', job.dedupe_key), job.id)
+      }
+    }
+
+    await this.save(job)
+    return job
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const json = await this.redis.get(this.key('job', id))
+    return json ? JSON.parse(json) as Job : null
+  }
+
+  async save(job: Job): Promise<void> {
+    const multi = this.redis.multi()
+      .zrem(this.key('leases'), job.id)
+      .zrem(this.key('ready'), job.id)
+      .zrem(this.key('delayed'), job.id)
+      .lrem(this.key('dead'), 0, job.id)
+
+    if (job.status === 'completed') {
+      multi.set(this.key('job', job.id), JSON.stringify(job), 'EX', COMPLETED_TTL_SECONDS)
+      multi.hdel(this.key('scores'), job.id)
+      multi.incr(this.key('completed'))
+    } else {
+      multi.set(this.key('job', job.id), JSON.stringify(job))
+    }
+
+    if (job.status === 'queued' || job.status === 'retrying') {
+      const runAt = new Date(job.run_at).getTime()
+      multi.hset(this.key('scores'), job.id, this.readyScore(job))
+      if (runAt > Date.now()) {
+        multi.zadd(this.key('delayed'), runAt, job.id)
+      } else {
+        multi.zadd(this.key('ready'), this.readyScore(job), job.id)
+      }
+    } else if (job.status === 'running') {
+      multi.zadd(this.key('leases'), Date.now() + this.leaseMs, job.id)
+    } else if (job.status === 'dead') {
+      multi.lpush(this.key('dead'), job.id)
+    }
+
+    if ((job.status === 'completed' || job.status === 'dead') && job.dedupe_key) {
+      multi.del(this.key('dedupe', job.dedupe_key))
+    }
+
+    await multi.exec()
+  }
+
+  async claimNext(now: Date): Promise<Job | null> {
+    const id = await this.redis.eval(
+      CLAIM_SCRIPT,
+      4,
+      this.key('delayed'),
+      this.key('ready'),
+      this.key('scores'),
+      this.key('leases'),
+      String(now.getTime()),
+      String(this.leaseMs)
+    ) as string | null
+    if (!id) return null
+
+    const job = await this.get(id)
+    if (!job) return null
+
+    job.status = 'running'
+    job.updated_at = now.toISOString()
+    await this.redis.set(this.key('job', id), JSON.stringify(job))
+    return job
+  }
+
+  async listDead(limit: number = 100): Promise<Job[]> {
+    const ids = await this.redis.lrange(this.key('dead'), 0, limit - 1)
+    const jobs = await Promise.all(ids.map(id => this.get(id)))
+    return jobs.filter((job): job is Job => job !== null)
+  }
+
+  async counts(): Promise<JobCounts> {
+    const [ready, delayed, running, dead, completed] = await Promise.all([
+      this.redis.zcard(this.key('ready')),
+      this.redis.zcard(this.key('delayed')),
+      this.redis.zcard(this.key('leases')),
+      this.redis.llen(this.key('dead')),
+      this.redis.get(this.key('completed'))
+    ])
+
+    // Delayed jobs are all retries; a retry past its run_at is counted as queued
+    return { queued: ready, retrying: delayed, running, completed: Number(completed || 0), dead }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit()
+  }
+
+  // Private helper methods
+
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts].join(':')
+  }
+
+  private readyScore(job: Job): number {
+    // Priority band first, creation time within it
+    return PRIORITY_RANK[job.priority] * 1e13 + new Date(job.created_at).getTime()
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { LineItemResolver } from './line-item-resolver'
+import { ProductCatalogService } from './product-catalog-service'
+
+describe('LineItemResolver', () => {
+  const resolver = new LineItemResolver(new ProductCatalogService())
+
+  it('confirms a model SKU the catalog agrees with', async () => {
+    const item = await resolver.resolveItem({ description: 'Coffee Table STRÅDAL 620', sku: 'cft-0167', quantity: 9 })
+
+    expect(item).toMatchObject({ sku: 'CFT-0167', ai_sku: 'CFT-0167', resolution: 'confirmed', quantity: 9 })
+  })
+
+  it('corrects a model SKU that belongs to another product', async () => {
+    const item = await resolver.resolveItem({ description: 'Sofa STRÅDAL 39', sku: 'SFA-0149', quantity: 1 })
+
+    expect(item).toMatchObject({ sku: 'SFA-0146', ai_sku: 'SFA-0149', resolution: 'corrected' })
+  })
+
+  it('resolves descriptions without a SKU, ignoring case and diacritics', async () => {
+    expect(await resolver.resolveItem({ description: 'Desk TRANHOLM 19', quantity: 2 }))
+      .toMatchObject({ sku: 'DSK-0001', resolution: 'resolved' })
+    expect(await resolver.resolveItem({ description: 'CFT-0167', quantity: 1 }))
+      .toMatchObject({ sku: 'CFT-0167', resolution: 'resolved', match: { match_type: 'exact_sku' } })
+  })
+
+  it('leaves ambiguous and unknown items unresolved and drops the model SKU', async () => {
+    // Two sofas share the STRÅDAL name; only the number tells them apart
+    expect(await resolver.resolveItem({ description: 'Sofa STRÅDAL', quantity: 1 }))
+      .toMatchObject({ sku: undefined, resolution: 'unresolved' })
+    expect(await resolver.resolveItem({ description: 'Spaceship', sku: 'XYZ-1', quantity: 1 }))
+      .toMatchObject({ sku: undefined, ai_sku: 'XYZ-1', resolution: 'unresolved' })
+  })
+
+  it('resolves every line of an extraction', async () => {
+    const result = await resolver.resolve({
+      customer_info: {},
+      delivery_info: { urgency: 'medium' },
+      line_items: [
+        { description: 'Coffee STRÅDAL 620', quantity: 9 },
+        { description: 'Spaceship', quantity: 1 }
+      ],
+      confidence_score: 0.9,
+      processing_notes: [],
+      fallback_used: false
+    })
+
+    expect(result.line_items.map(item => item.resolution)).toEqual(['resolved', 'unresolved'])
+  })
+})
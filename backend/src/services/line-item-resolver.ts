@@ -0,0 +1,80 @@
+import { ProductCatalogService, type ProductMatch } from './product-catalog-service'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { logger } from '../utils/logger'
+
+type ExtractedLineItem = EmailProcessingResult['line_items'][number]
+
+// Below this the resolver will not assign a SKU on its own
+const MIN_MATCH_CONFIDENCE = 0.7
+
+/**
+ * Deterministic post-extraction stage: every line item is matched against the
+ * full catalog, and the SKU proposed by the model is only kept when the
+ * catalog match agrees with it.
+ */
+export class LineItemResolver {
+  constructor(private productCatalog: ProductCatalogService) {}
+
+  async resolve(result: EmailProcessingResult): Promise<EmailProcessingResult> {
+    const lineItems = await Promise.all(result.line_items.map(item => this.resolveItem(item)))
+
+    logger.info('Line items resolved against catalog', {
+      total: lineItems.length,
+      unresolved: lineItems.filter(item => item.resolution === 'unresolved').length,
+      corrected: lineItems.filter(item => item.resolution === 'corrected').length
+    })
+
+    return { ...result, line_items: lineItems }
+  }
+
+  async resolveItem(item: ExtractedLineItem): Promise<ExtractedLineItem> {
+    const aiSku = item.sku ? item.sku.trim().toUpperCase() : undefined
+    const matches = await this.productCatalog.matchProducts(item.description, 5)
+    const best = matches[0]
+
+    // The model's SKU survives only if the catalog ranks it as a plausible match
+    const agreeing = aiSku
+      ? matches.find(match => match.product.product_code === aiSku && match.confidence >= MIN_MATCH_CONFIDENCE)
+      : undefined
+
+    if (agreeing && this.isUnambiguous(agreeing, matches)) {
+      return this.withMatch(item, aiSku, agreeing, 'confirmed')
+    }
+
+    if (best && best.confidence >= MIN_MATCH_CONFIDENCE && this.isUnambiguous(best, matches)) {
+      return this.withMatch(item, aiSku, best, aiSku ? 'corrected' : 'resolved')
+    }
+
+    return {
+      ...item,
+      sku: undefined,
+      ai_sku: aiSku,
+      match: best,
+      resolution: 'unresolved'
+    }
+  }
+
+  private withMatch(
+    item: ExtractedLineItem,
+    aiSku: string | undefined,
+    match: ProductMatch,
+    resolution: ExtractedLineItem['resolution']
+  ): ExtractedLineItem {
+    return {
+      ...item,
+      sku: match.product.product_code,
+      ai_sku: aiSku,
+      match,
+      resolution
+    }
+  }
+
+  // Two equally good candidates (e.g. "Dining STRÅDAL" without a number) are not a resolution
+  private isUnambiguous(candidate: ProductMatch, matches: ProductMatch[]): boolean {
+    return !matches.some(match =>
+      match !== candidate &&
+      match.product.product_code !== candidate.product.product_code &&
+      match.confidence >= candidate.confidence
+    )
+  }
+}
@@ -1,40 +1,27 @@
 import { GoogleGenAI } from '@google/genai'
 import { logger } from '../../utils/logger'
 import { RateLimiter } from '../../utils/rate-limiter'
+import { estimateTokens, type LLMProvider, type LLMRequest, type LLMResponse } from './llm-provider'
 
-export interface GeminiApiRequest {
-  prompt: string
-  systemInstruction?: string
-  temperature?: number
-  maxTokens?: number
-}
-
-export interface GeminiApiResponse {
-  text: string
-  tokens_used: number
-}
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash'
 
-export class GeminiClient {
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
   private client: GoogleGenAI
   private rateLimiter: RateLimiter
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required')
-    }
-
+  constructor(apiKey: string, private model: string = DEFAULT_GEMINI_MODEL) {
     this.client = new GoogleGenAI({ apiKey })
     this.rateLimiter = new RateLimiter(100, 60000) // 100 requests per minute
   }
 
-  async generateContent(request: GeminiApiRequest): Promise<GeminiApiResponse> {
+  async generateContent(request: LLMRequest): Promise<LLMResponse> {
     // Check rate limit
     await this.rateLimiter.waitForSlot()
 
     try {
       const response = await this.client.models.generateContent({
-        model: "gemini-2.0-flash",
+        model: this.model,
         contents: [
           {
             role: "user",
@@ -46,7 +33,9 @@ export class GeminiClient {
           temperature: request.temperature || 0.1,
           maxOutputTokens: request.maxTokens || 2000,
           topP: 0.8,
-          topK: 40
+          topK: 40,
+          responseMimeType: request.responseFormat === 'json' ? 'application/json' : undefined,
+          responseSchema: request.responseSchema
         }
       })
 
@@ -56,7 +45,8 @@ export class GeminiClient {
 
       return {
         text: response.text,
-        tokens_used: this.estimateTokens(request.prompt + (response.text || ''))
+        tokens_used: estimateTokens(request.prompt + (response.text || '')),
+        model: this.model
       }
 
     } catch (error: any) {
@@ -64,9 +54,4 @@ export class GeminiClient {
       throw error
     }
   }
-
-  private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4)
-  }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { GeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini-provider'
+import { OpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openai-provider'
+import { ReplayProvider } from './replay-provider'
+import type { LLMProvider } from './llm-provider'
+import { logger } from '../../utils/logger'
+
+export type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider'
+export { GeminiProvider } from './gemini-provider'
+export { OpenAICompatibleProvider } from './openai-provider'
+export { ReplayProvider, type ReplayFixture } from './replay-provider'
+
+/**
+ * Pick the LLM backend from LLM_PROVIDER (gemini | openai | replay); defaults
+ * to Gemini when GEMINI_API_KEY is set, otherwise the offline replay provider
+ */
+export function createLLMProvider(): LLMProvider {
+  const geminiKey = process.env.GEMINI_API_KEY
+  const provider = process.env.LLM_PROVIDER || (geminiKey ? 'gemini' : 'replay')
+
+  switch (provider) {
+    case 'gemini':
+      if (!geminiKey) {
+        throw new Error('GEMINI_API_KEY is required when LLM_PROVIDER=gemini')
+      }
+      logger.info('Using Gemini LLM provider')
+      return new GeminiProvider(geminiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL)
+
+    case 'openai':
+      logger.info('Using OpenAI-compatible LLM provider')
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+      )
+
+    case 'replay':
+      logger.warn('Using replay LLM provider - only recorded sample emails are answered')
+      return new ReplayProvider(process.env.LLM_REPLAY_DIR || undefined)
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected gemini, openai or replay)`)
+  }
+}
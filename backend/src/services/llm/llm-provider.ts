@@ -0,0 +1,31 @@
+import type { Schema } from '@google/genai'
+
+export interface LLMRequest {
+  prompt: string
+  systemInstruction?: string
+  temperature?: number
+  maxTokens?: number
+  // 'json' asks the provider for a bare JSON answer
+  responseFormat?: 'text' | 'json'
+  // OpenAPI-style schema; used by providers that support structured output
+  responseSchema?: Schema
+}
+
+export interface LLMResponse {
+  text: string
+  tokens_used: number
+  model: string
+}
+
+/**
+ * A text-generation backend the extraction pipeline can run against
+ */
+export interface LLMProvider {
+  readonly name: string
+  generateContent(request: LLMRequest): Promise<LLMResponse>
+}
+
+export function estimateTokens(text: string): number {
+  // Rough estimation: ~4 characters per token
+  return Math.ceil(text.length / 4)
+}
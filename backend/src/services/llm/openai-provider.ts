@@ -0,0 +1,73 @@
+import { logger } from '../../utils/logger'
+import { RateLimiter } from '../../utils/rate-limiter'
+import { estimateTokens, type LLMProvider, type LLMRequest, type LLMResponse } from './llm-provider'
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+/**
+ * Any server speaking the OpenAI chat-completions API (OpenAI, Azure, vLLM,
+ * Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai'
+  private rateLimiter: RateLimiter
+
+  constructor(
+    private apiKey: string | undefined,
+    private model: string = DEFAULT_OPENAI_MODEL,
+    private baseUrl: string = DEFAULT_OPENAI_BASE_URL
+  ) {
+    this.rateLimiter = new RateLimiter(100, 60000)
+  }
+
+  async generateContent(request: LLMRequest): Promise<LLMResponse> {
+    await this.rateLimiter.waitForSlot()
+
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt }
+    ]
+
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          temperature: request.temperature || 0.1,
+          max_tokens: request.maxTokens || 2000,
+          // Schema support varies between servers; plain JSON mode is widely available
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Chat completion request failed with HTTP ${response.status}: ${await response.text()}`)
+      }
+
+      const body = await response.json() as {
+        choices?: Array<{ message?: { content?: string | null } }>
+        usage?: { total_tokens?: number }
+      }
+      const text = body.choices?.[0]?.message?.content
+      if (!text) {
+        throw new Error('Empty response from chat completion API')
+      }
+
+      return {
+        text,
+        tokens_used: body.usage?.total_tokens ?? estimateTokens(request.prompt + text),
+        model: this.model
+      }
+
+    } catch (error: any) {
+      logger.error('OpenAI-compatible API call failed', { error: error.message })
+      throw error
+    }
+  }
+}
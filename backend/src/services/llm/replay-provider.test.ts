@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import { createLLMProvider, ReplayProvider } from '.'
+import { EmailProcessor } from '../gemini/email-processor'
+
+const SAMPLE_EMAIL = fs.readFileSync(path.join(process.cwd(), '../data/sample_email_1.txt'), 'utf-8')
+
+describe('createLLMProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the replay provider when no Gemini key is configured', () => {
+    vi.stubEnv('GEMINI_API_KEY', '')
+    vi.stubEnv('LLM_PROVIDER', '')
+
+    expect(createLLMProvider()).toBeInstanceOf(ReplayProvider)
+  })
+
+  it('refuses Gemini without a key and unknown providers', () => {
+    vi.stubEnv('GEMINI_API_KEY', '')
+    vi.stubEnv('LLM_PROVIDER', 'gemini')
+    expect(() => createLLMProvider()).toThrow('GEMINI_API_KEY is required')
+
+    vi.stubEnv('LLM_PROVIDER', 'nonsense')
+    expect(() => createLLMProvider()).toThrow('Unknown LLM_PROVIDER')
+  })
+})
+
+describe('ReplayProvider', () => {
+  it('answers with the recording for a sample email, whatever its whitespace', async () => {
+    const provider = new ReplayProvider()
+    const response = await provider.generateContent({
+      prompt: `Extract the order:\n\n${SAMPLE_EMAIL.replace(/\n/g, '\r\n  ')}`
+    })
+
+    expect(response.model).toBe('replay:sample_email_1')
+    expect(JSON.parse(response.text).customer_info.name).toBe('John Smith')
+  })
+
+  it('throws for an email without a recording', async () => {
+    await expect(new ReplayProvider().generateContent({ prompt: 'Please send 3 chairs' }))
+      .rejects.toThrow('No recorded response')
+  })
+
+  it('runs the extraction pipeline offline', async () => {
+    const processor = new EmailProcessor(new ReplayProvider())
+    const result = await processor.processEmail({ email_content: SAMPLE_EMAIL })
+
+    expect(result.fallback_used).toBe(false)
+    expect(result.line_items.map(item => [item.sku, item.quantity])).toEqual([
+      ['CFT-0167', 9],
+      ['LVS-0439', 2],
+      ['SFA-0142', 10],
+      ['WRD-0267', 8]
+    ])
+    expect(result.processing_notes).toContain('Extracted with replay (replay:sample_email_1)')
+  })
+
+  it('falls back to the rule-based extractor when nothing was recorded', async () => {
+    const processor = new EmailProcessor(new ReplayProvider())
+    const result = await processor.processEmail({ email_content: 'Hi, please send 4 x DSK-0001 to our office.' })
+
+    expect(result.fallback_used).toBe(true)
+    expect(result.processing_notes.some(note => note.includes('No recorded response'))).toBe(true)
+  })
+  it('caches per email and prompt context and hands out copies', async () => {
+    const provider = new ReplayProvider()
+    const generate = vi.spyOn(provider, 'generateContent')
+    const processor = new EmailProcessor(provider)
+    const context = { product_catalog_sample: [] }
+
+    const first = await processor.processEmail({ email_content: SAMPLE_EMAIL, context })
+    first.line_items.pop()
+    const second = await processor.processEmail({ email_content: SAMPLE_EMAIL, context })
+    expect(generate).toHaveBeenCalledTimes(1)
+    expect(second.line_items).toHaveLength(4)
+
+    await processor.processEmail({ email_content: SAMPLE_EMAIL, context: { ...context, candidate_phrases: [{ phrase: 'Coffee STRÅDAL 620', product_codes: ['CFT-0167'] }] } })
+    expect(generate).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,80 @@
+import fs from 'fs'
+import path from 'path'
+import { logger } from '../../utils/logger'
+import { estimateTokens, type LLMProvider, type LLMRequest, type LLMResponse } from './llm-provider'
+
+/**
+ * A recorded model answer, keyed by the email file it was produced for
+ */
+export interface ReplayFixture {
+  email_file: string
+  response: unknown
+}
+
+interface LoadedFixture {
+  name: string
+  emailText: string
+  responseText: string
+}
+
+export const DEFAULT_REPLAY_DIR = path.join(process.cwd(), '../data/llm-replay')
+
+/**
+ * Deterministic provider for offline development and CI: answers with the
+ * recorded response whose source email appears in the prompt
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay'
+  private fixtures: LoadedFixture[] | null = null
+
+  constructor(private fixtureDir: string = DEFAULT_REPLAY_DIR) {}
+
+  async generateContent(request: LLMRequest): Promise<LLMResponse> {
+    const prompt = this.normalize(request.prompt)
+    const fixture = this.loadFixtures().find(candidate => prompt.includes(candidate.emailText))
+
+    if (!fixture) {
+      throw new Error('No recorded response matches this email')
+    }
+
+    logger.debug('Replaying recorded LLM response', { fixture: fixture.name })
+    return {
+      text: fixture.responseText,
+      tokens_used: estimateTokens(request.prompt + fixture.responseText),
+      model: `replay:${fixture.name}`
+    }
+  }
+
+  private loadFixtures(): LoadedFixture[] {
+    if (this.fixtures) return this.fixtures
+
+    this.fixtures = []
+    if (!fs.existsSync(this.fixtureDir)) {
+      logger.warn('Replay fixture directory not found', { dir: this.fixtureDir })
+      return this.fixtures
+    }
+
+    for (const file of fs.readdirSync(this.fixtureDir).filter(name => name.endsWith('.json')).sort()) {
+      try {
+        const fixture = JSON.parse(fs.readFileSync(path.join(this.fixtureDir, file), 'utf-8')) as ReplayFixture
+        // Email paths are relative to the fixture directory
+        const emailText = fs.readFileSync(path.resolve(this.fixtureDir, fixture.email_file), 'utf-8')
+
+        this.fixtures.push({
+          name: path.basename(file, '.json'),
+          emailText: this.normalize(emailText),
+          responseText: JSON.stringify(fixture.response, null, 2)
+        })
+      } catch (error) {
+        logger.error('Failed to load replay fixture', { file, error })
+      }
+    }
+
+    logger.info('Replay fixtures loaded', { count: this.fixtures.length })
+    return this.fixtures
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\r\n/g, '\n').replace(/\s+/g, ' ').trim()
+  }
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { OrderStatus } from '../../../shared/types/core'
+import { InMemoryInventoryRepository, InMemoryOrderRepository, type NewOrderRecord } from '../repositories'
+import { InventoryService } from './inventory-service'
+import { OrderLifecycle, OrderTransitionError } from './order-lifecycle'
+import { ProductCatalogService } from './product-catalog-service'
+
+const REVIEWER = { actor: 'reviewer@example.com' }
+
+const CRITICAL_FLAG = {
+  type: 'data_inconsistency',
+  severity: 'critical',
+  message: 'Unknown SKU',
+  field_path: 'line_items[0].sku',
+  suggested_action: 'Pick a catalog product',
+  auto_fixable: false
+}
+
+function order(id: string, status: OrderStatus, overrides: Partial<NewOrderRecord> = {}): NewOrderRecord {
+  return {
+    id,
+    raw_email: 'Please send 4 x DSK-0001',
+    urgency: 'medium',
+    line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 4 }],
+    confidence_score: 0.9,
+    status,
+    flags: [],
+    suggestions: [],
+    ...overrides
+  }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<OrderTransitionError> {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof OrderTransitionError) return error
+    throw error
+  }
+  throw new Error('Expected the transition to be rejected')
+}
+
+describe('OrderLifecycle', () => {
+  let orders: InMemoryOrderRepository
+  let inventory: InventoryService
+  let lifecycle: OrderLifecycle
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository()
+    inventory = new InventoryService(new InMemoryInventoryRepository(), new ProductCatalogService())
+    lifecycle = new OrderLifecycle(orders, undefined, inventory)
+  })
+
+  it('rejects moves that are not in the transition table', async () => {
+    await orders.create(order('o1', 'fulfilled'))
+
+    const error = await rejection(lifecycle.transition('o1', 'approved', REVIEWER))
+    expect(error.code).toBe('ILLEGAL_TRANSITION')
+    expect((await orders.findById('o1'))?.status).toBe('fulfilled')
+    expect(lifecycle.allowedTransitions('fulfilled')).toEqual([])
+  })
+
+  it('blocks approval while critical flags are open', async () => {
+    await orders.create(order('o1', 'needs_review', { flags: [CRITICAL_FLAG] }))
+
+    const error = await rejection(lifecycle.transition('o1', 'approved', REVIEWER))
+    expect(error.code).toBe('GUARD_FAILED')
+    expect(error.message).toContain('Unknown SKU')
+  })
+
+  it('blocks approval of an order without line items', async () => {
+    await orders.create(order('o1', 'needs_review', { line_items: [] }))
+
+    expect((await rejection(lifecycle.transition('o1', 'approved', REVIEWER))).code).toBe('GUARD_FAILED')
+  })
+
+  it('requires a reason to reject', async () => {
+    await orders.create(order('o1', 'needs_review'))
+
+    expect((await rejection(lifecycle.transition('o1', 'rejected', REVIEWER))).code).toBe('GUARD_FAILED')
+    const rejected = await lifecycle.transition('o1', 'rejected', { ...REVIEWER, reason: 'Customer cancelled' })
+    expect(rejected.status).toBe('rejected')
+  })
+
+  it('judges guards against the edited order and saves nothing when they fail', async () => {
+    await orders.create(order('o1', 'needs_review'))
+
+    const error = await rejection(lifecycle.transition('o1', 'approved', REVIEWER, { line_items: [] }))
+    expect(error.code).toBe('GUARD_FAILED')
+    const stored = await orders.findById('o1')
+    expect(stored?.status).toBe('needs_review')
+    expect(stored?.line_items).toHaveLength(1)
+  })
+
+  it('reserves stock on approval, releases it on rejection and records the history', async () => {
+    await orders.create(order('o1', 'needs_review'))
+
+    await lifecycle.transition('o1', 'approved', REVIEWER)
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 4]]))
+    await lifecycle.transition('o1', 'rejected', { ...REVIEWER, reason: 'Customer cancelled' })
+    expect((await inventory.reservedFor('o1')).size).toBe(0)
+
+    const history = await lifecycle.getHistory('o1')
+    expect(history.map(entry => [entry.from_status, entry.to_status])).toEqual([
+      ['needs_review', 'approved'],
+      ['approved', 'rejected']
+    ])
+    expect(history[1].reason).toBe('Customer cancelled')
+  })
+
+  it('refuses an approval the stock cannot cover and leaves the order alone', async () => {
+    await orders.create(order('o1', 'needs_review'))
+
+    // DSK-0001 has 31 units in the catalog
+    const edits = { line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 10000 }] }
+    expect((await rejection(lifecycle.transition('o1', 'approved', REVIEWER, edits))).code).toBe('INSUFFICIENT_STOCK')
+    const stored = await orders.findById('o1')
+    expect(stored?.status).toBe('needs_review')
+    expect(stored?.line_items[0].quantity).toBe(4)
+    expect((await inventory.reservedFor('o1')).size).toBe(0)
+  })
+
+  it('reserves stock for the edited lines', async () => {
+    await orders.create(order('o1', 'needs_review'))
+
+    await lifecycle.transition('o1', 'approved', REVIEWER, { line_items: [{ sku: 'DSK-0001', quantity: 6 }] })
+
+    expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 6]]))
+  })
+
+  it('turns the reservation into a shipment when an approved order is fulfilled', async () => {
+    await orders.create(order('o1', 'needs_review'))
+    const before = await inventory.level('DSK-0001')
+
+    await lifecycle.transition('o1', 'approved', REVIEWER)
+    await lifecycle.transition('o1', 'fulfilled', REVIEWER)
+
+    const after = await inventory.level('DSK-0001')
+    expect(after?.on_hand).toBe(before!.on_hand - 4)
+    expect(after?.reserved).toBe(0)
+  })
+})
@@ -0,0 +1,197 @@
+import type { OrderStatus, ValidationFlag } from '../../../shared/types/core'
+import type { OrderRecord, OrderRepository, OrderUpdate, StatusHistoryRecord } from '../repositories'
+import type { EventBus } from './realtime'
+import { InsufficientStockError, type InventoryService } from './inventory-service'
+import { logger } from '../utils/logger'
+
+/**
+ * Legal status moves. Anything not listed here is rejected.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  received: ['processing', 'error'],
+  processing: ['ai_parsed', 'needs_review', 'error'],
+  ai_parsed: ['validating', 'needs_review', 'modified', 'error'],
+  validating: ['needs_review', 'approved', 'rejected', 'error'],
+  needs_review: ['validating', 'modified', 'approved', 'rejected'],
+  modified: ['validating', 'needs_review', 'modified', 'approved', 'rejected'],
+  approved: ['fulfilled', 'modified', 'rejected'],
+  rejected: ['needs_review'],
+  fulfilled: [],
+  error: ['processing', 'needs_review']
+}
+
+export interface TransitionRequest {
+  actor: string
+  reason?: string
+}
+
+export type TransitionErrorCode = 'ORDER_NOT_FOUND' | 'ILLEGAL_TRANSITION' | 'GUARD_FAILED' | 'INSUFFICIENT_STOCK'
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public readonly code: TransitionErrorCode,
+    message: string,
+    public readonly from?: OrderStatus,
+    public readonly to?: OrderStatus
+  ) {
+    super(message)
+    this.name = 'OrderTransitionError'
+  }
+}
+
+type TransitionGuard = (order: OrderRecord, request: TransitionRequest) => string | null
+
+// Guard conditions per target status: return a reason to block the move
+const GUARDS: Partial<Record<OrderStatus, TransitionGuard[]>> = {
+  approved: [
+    order => {
+      const critical = openCriticalFlags(order)
+      return critical.length > 0
+        ? `Cannot approve while ${critical.length} critical flag(s) are open: ${critical.map(f => f.message).join('; ')}`
+        : null
+    },
+    order => order.line_items.length === 0 ? 'Cannot approve an order without line items' : null
+  ],
+  rejected: [
+    (_order, request) => !request.reason?.trim() ? 'A reason is required to reject an order' : null
+  ]
+}
+
+function openCriticalFlags(order: OrderRecord): ValidationFlag[] {
+  return order.flags.filter((flag): flag is ValidationFlag =>
+    typeof flag === 'object' && flag !== null && flag.severity === 'critical'
+  )
+}
+
+/**
+ * Order status state machine: validates moves against ORDER_TRANSITIONS and
+ * the guards, keeps stock reservations in step with approval, and records
+ * every change in the status history
+ */
+export class OrderLifecycle {
+  constructor(
+    private repository: OrderRepository,
+    private events?: EventBus,
+    private inventory?: InventoryService
+  ) {}
+
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from]?.includes(to) ?? false
+  }
+
+  /**
+   * Statuses an order may move to next (guards are checked on the move itself)
+   */
+  allowedTransitions(from: OrderStatus): OrderStatus[] {
+    return [...(ORDER_TRANSITIONS[from] || [])]
+  }
+
+  /**
+   * Throws OrderTransitionError if the order may not move to `to`
+   */
+  assertTransition(order: OrderRecord, to: OrderStatus, request: TransitionRequest): void {
+    if (!this.canTransition(order.status, to)) {
+      throw new OrderTransitionError(
+        'ILLEGAL_TRANSITION',
+        `Order ${order.id} cannot move from ${order.status} to ${to}`,
+        order.status,
+        to
+      )
+    }
+
+    for (const guard of GUARDS[to] || []) {
+      const blocked = guard(order, request)
+      if (blocked) {
+        throw new OrderTransitionError('GUARD_FAILED', blocked, order.status, to)
+      }
+    }
+  }
+
+  /**
+   * Move an order to `to`, saving `edits` in the same write; guards judge the
+   * order as it will be after the edits, and a refused move saves nothing
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    request: TransitionRequest,
+    edits: OrderUpdate = {}
+  ): Promise<OrderRecord> {
+    const order = await this.repository.findById(orderId)
+    if (!order) {
+      throw new OrderTransitionError('ORDER_NOT_FOUND', `Order ${orderId} not found`)
+    }
+
+    this.assertTransition({ ...order, ...edits }, to, request)
+
+    // Reserve before the status changes, so an approval the stock cannot cover never lands
+    if (to === 'approved') await this.reserveStock({ ...order, ...edits }, request)
+
+    const updated = await this.repository.update(orderId, { ...edits, status: to })
+    if (!updated) {
+      if (to === 'approved') await this.inventory?.release(orderId, request.actor, 'Order disappeared during approval')
+      throw new OrderTransitionError('ORDER_NOT_FOUND', `Order ${orderId} not found`)
+    }
+
+    if (order.status === 'approved' && to === 'fulfilled') {
+      await this.inventory?.ship(updated, request.actor)
+    } else if (order.status === 'approved') {
+      await this.inventory?.release(orderId, request.actor, request.reason || `Order moved to ${to}`)
+    }
+
+    await this.recordTransition(orderId, order.status, to, request)
+    this.events?.publish({ type: 'order.status_changed', order: updated, from: order.status, to, actor: request.actor })
+
+    logger.info('Order status changed', {
+      order_id: orderId,
+      from: order.status,
+      to,
+      actor: request.actor
+    })
+
+    return updated
+  }
+
+  /**
+   * Record a status change (also used for the initial status of new orders)
+   */
+  async recordTransition(
+    orderId: string,
+    from: OrderStatus | null,
+    to: OrderStatus,
+    request: TransitionRequest
+  ): Promise<StatusHistoryRecord> {
+    return this.repository.addStatusHistory({
+      order_id: orderId,
+      from_status: from,
+      to_status: to,
+      actor: request.actor,
+      reason: request.reason
+    })
+  }
+
+  /**
+   * Give back whatever stock an order holds, outside a status change (before deletion)
+   */
+  async releaseStock(orderId: string, request: TransitionRequest): Promise<void> {
+    await this.inventory?.release(orderId, request.actor, request.reason)
+  }
+
+  async getHistory(orderId: string): Promise<StatusHistoryRecord[]> {
+    return this.repository.getStatusHistory(orderId)
+  }
+
+  // Private helper methods
+
+  private async reserveStock(order: OrderRecord, request: TransitionRequest) {
+    if (!this.inventory) return
+    try {
+      await this.inventory.reserve(order, request.actor)
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        throw new OrderTransitionError('INSUFFICIENT_STOCK', error.message, order.status, 'approved')
+      }
+      throw error
+    }
+  }
+}
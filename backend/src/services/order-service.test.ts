@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryInventoryRepository, InMemoryOrderRepository, type NewOrderRecord } from '../repositories'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { CurrencyService } from './currency-service'
+import { FulfillmentPlanner } from './fulfillment-planner'
+import { InventoryService } from './inventory-service'
+import { OrderLifecycle, OrderTransitionError } from './order-lifecycle'
+import { OrderService } from './order-service'
+import { PricingEngine } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { QuantityAdvisor } from './quantity-advisor'
+import { TaxService } from './tax-service'
+
+const REVIEWER = { actor: 'reviewer@example.com' }
+
+const CRITICAL_FLAG = {
+  type: 'data_inconsistency',
+  severity: 'critical',
+  message: 'Unknown SKU',
+  field_path: 'line_items[0].sku',
+  suggested_action: 'Pick a catalog product',
+  auto_fixable: false
+}
+
+function order(overrides: Partial<NewOrderRecord> = {}): NewOrderRecord {
+  return {
+    id: 'o1',
+    raw_email: 'Please send 4 x DSK-0001',
+    urgency: 'medium',
+    line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 4 }],
+    confidence_score: 0.9,
+    status: 'needs_review',
+    flags: [],
+    suggestions: [],
+    ...overrides
+  }
+}
+
+function extraction(overrides: Partial<EmailProcessingResult> = {}): EmailProcessingResult {
+  return {
+    customer_info: { email: 'john@example.com' },
+    delivery_info: { urgency: 'medium' },
+    line_items: [],
+    confidence_score: 0.9,
+    processing_notes: [],
+    fallback_used: false,
+    ...overrides
+  }
+}
+
+const AMENDMENT = {
+  message_count: 2,
+  amendment: [{ action: 'set_quantity' as const, target: 'desks', previous_quantity: 3, quantity: 5, text: '5 desks instead of 3' }]
+}
+
+describe('OrderService', () => {
+  let orders: InMemoryOrderRepository
+  let inventory: InventoryService
+  let lifecycle: OrderLifecycle
+  let quantities: QuantityAdvisor
+  let service: OrderService
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository()
+    const catalog = new ProductCatalogService()
+    inventory = new InventoryService(new InMemoryInventoryRepository(), catalog)
+    lifecycle = new OrderLifecycle(orders, undefined, inventory)
+    const pricing = new PricingEngine(catalog, new CurrencyService(), new TaxService())
+    const fulfillment = new FulfillmentPlanner(catalog, inventory)
+    quantities = new QuantityAdvisor(catalog, inventory, pricing)
+    service = new OrderService(orders, lifecycle, undefined, undefined, undefined, pricing, fulfillment, quantities)
+  })
+
+  describe('updateOrder', () => {
+    it('saves edits and the new status together', async () => {
+      await orders.create(order())
+
+      const updated = await service.updateOrder('o1', { status: 'approved', delivery_address: '1 Dock Road' }, REVIEWER)
+
+      expect(updated?.status).toBe('approved')
+      expect(updated?.delivery_address).toBe('1 Dock Road')
+    })
+
+    it('leaves the edits unsaved when the status change is refused', async () => {
+      await orders.create(order())
+
+      await expect(service.updateOrder('o1', { status: 'approved', line_items: [], delivery_address: '1 Dock Road' }, REVIEWER))
+        .rejects.toBeInstanceOf(OrderTransitionError)
+
+      const stored = await orders.findById('o1')
+      expect(stored?.status).toBe('needs_review')
+      expect(stored?.line_items).toHaveLength(1)
+      expect(stored?.delivery_address).toBeUndefined()
+    })
+
+    it('does not let a PATCH clear critical flags on the way to approval', async () => {
+      await orders.create(order({ flags: [CRITICAL_FLAG] }))
+
+      const error = await service.updateOrder('o1', { status: 'approved', flags: [] }, REVIEWER).catch(e => e)
+
+      expect(error).toBeInstanceOf(OrderTransitionError)
+      expect(error.code).toBe('GUARD_FAILED')
+      expect((await orders.findById('o1'))?.flags).toHaveLength(1)
+    })
+
+    it('leaves the edits unsaved when the stock cannot cover the approval', async () => {
+      await orders.create(order())
+
+      const error = await service.updateOrder('o1', {
+        status: 'approved',
+        line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 10000 }]
+      }, REVIEWER).catch(e => e)
+
+      expect(error.code).toBe('INSUFFICIENT_STOCK')
+      const stored = await orders.findById('o1')
+      expect(stored?.status).toBe('needs_review')
+      expect(stored?.line_items[0].quantity).toBe(4)
+    })
+
+    it('refuses edits to fulfilled and rejected orders', async () => {
+      await orders.create(order({ id: 'o1', status: 'fulfilled' }))
+      await orders.create(order({ id: 'o2', status: 'rejected' }))
+
+      for (const id of ['o1', 'o2']) {
+        const error = await service.updateOrder(id, { delivery_address: '1 Dock Road' }, REVIEWER).catch(e => e)
+        expect(error).toBeInstanceOf(OrderTransitionError)
+        expect(error.code).toBe('ILLEGAL_TRANSITION')
+        expect((await orders.findById(id))?.delivery_address).toBeUndefined()
+      }
+    })
+
+    it('sends an edited approved order back to modified and releases its stock', async () => {
+      await orders.create(order())
+      await service.updateOrder('o1', { status: 'approved' }, REVIEWER)
+
+      const updated = await service.updateOrder('o1', { line_items: [{ sku: 'DSK-0001', quantity: 6 }] }, REVIEWER)
+
+      expect(updated?.status).toBe('modified')
+      expect((await inventory.reservedFor('o1')).size).toBe(0)
+      expect((await lifecycle.getHistory('o1')).map(entry => entry.to_status)).toEqual(['approved', 'modified'])
+    })
+
+    it('re-approves an edited approved order when asked, reserving the edited lines', async () => {
+      await orders.create(order())
+      await service.updateOrder('o1', { status: 'approved' }, REVIEWER)
+
+      const updated = await service.updateOrder('o1', {
+        status: 'approved',
+        line_items: [{ sku: 'DSK-0001', quantity: 6 }]
+      }, REVIEWER)
+
+      expect(updated?.status).toBe('approved')
+      expect(await inventory.reservedFor('o1')).toEqual(new Map([['DSK-0001', 6]]))
+      expect((await lifecycle.getHistory('o1')).map(entry => entry.to_status)).toEqual(['approved', 'modified', 'approved'])
+    })
+  })
+
+  describe('applyReviewEdits', () => {
+    it('keeps the AI values and saves the edits with the move to modified', async () => {
+      await orders.create(order({ customer_name: 'J Smith' }))
+
+      const updated = await service.applyReviewEdits('o1', { customer_name: 'John Smith' }, REVIEWER)
+
+      expect(updated?.status).toBe('modified')
+      expect(updated?.customer_name).toBe('John Smith')
+      expect(updated?.ai_original?.customer_name).toBe('J Smith')
+    })
+
+    it('saves nothing when the order may not be modified', async () => {
+      await orders.create(order({ status: 'fulfilled', customer_name: 'J Smith' }))
+
+      await expect(service.applyReviewEdits('o1', { customer_name: 'John Smith' }, REVIEWER))
+        .rejects.toBeInstanceOf(OrderTransitionError)
+
+      const stored = await orders.findById('o1')
+      expect(stored?.customer_name).toBe('J Smith')
+      expect(stored?.ai_original).toBeUndefined()
+    })
+  })
+
+  describe('applyFulfillmentPlan', () => {
+    it('keeps the in-stock lines and moves the backorder to a linked order', async () => {
+      // DSK-0001 has 31 units in the catalog
+      await orders.create(order({
+        line_items: [
+          { description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 40 },
+          { description: 'Gift wrapping', quantity: 1 }
+        ]
+      }))
+
+      const result = await service.applyFulfillmentPlan('o1', 'ship-available', REVIEWER)
+
+      expect(result?.order.status).toBe('modified')
+      expect(result?.order.line_items).toEqual([
+        { description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 31 },
+        { description: 'Gift wrapping', quantity: 1 }
+      ])
+      expect(result?.order.ai_original?.line_items).toHaveLength(2)
+      expect(result?.shipments).toHaveLength(1)
+      expect(result?.shipments[0]).toMatchObject({
+        status: 'needs_review',
+        split_from: 'o1',
+        line_items: [{ description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001', quantity: 9 }]
+      })
+    })
+
+    it('refuses a plan that is no longer on offer', async () => {
+      await orders.create(order())
+
+      await expect(service.applyFulfillmentPlan('o1', 'ship-available', REVIEWER)).rejects.toThrow('not available')
+    })
+  })
+
+  describe('acceptSuggestion', () => {
+    it('applies the quantity adjustment and moves the order to modified', async () => {
+      // DSK-0004 has a minimum order of 10
+      const lineItems = [{ description: 'Desk', sku: 'DSK-0004', quantity: 3 }]
+      const [suggestion] = await quantities.suggest('o1', lineItems)
+      await orders.create(order({ line_items: lineItems, suggestions: [suggestion] }))
+
+      const updated = await service.acceptSuggestion('o1', suggestion.id, REVIEWER)
+
+      expect(updated?.status).toBe('modified')
+      expect(updated?.line_items[0].quantity).toBe(10)
+      expect(updated?.suggestions).toEqual([])
+      expect(updated?.ai_original?.line_items[0].quantity).toBe(3)
+    })
+  })
+
+  describe('dismissFlag', () => {
+    it('removes the flag and records who dismissed it and why', async () => {
+      await orders.create(order({ flags: [CRITICAL_FLAG] }))
+
+      const updated = await service.dismissFlag('o1', 0, { ...REVIEWER, reason: 'SKU checked by phone' })
+
+      expect(updated?.flags).toEqual([])
+      const history = await lifecycle.getHistory('o1')
+      expect(history).toHaveLength(1)
+      expect(history[0]).toMatchObject({ from_status: 'needs_review', to_status: 'needs_review', actor: REVIEWER.actor })
+      expect(history[0].reason).toContain('Unknown SKU')
+      expect(history[0].reason).toContain('SKU checked by phone')
+    })
+
+    it('requires a reason and an existing flag', async () => {
+      await orders.create(order({ flags: [CRITICAL_FLAG] }))
+
+      await expect(service.dismissFlag('o1', 0, REVIEWER)).rejects.toBeInstanceOf(OrderTransitionError)
+      expect(await service.dismissFlag('o1', 3, { ...REVIEWER, reason: 'n/a' })).toBeNull()
+      expect((await orders.findById('o1'))?.flags).toHaveLength(1)
+    })
+  })
+  describe('amendments', () => {
+    it('links a reply to the order created from the message it answers', async () => {
+      await orders.create(order({ message_id: '<po-1@example.com>' }))
+
+      const amendment = await service.createFromExtraction('Make it 5 desks instead of 3', extraction({ thread: AMENDMENT }), {
+        id: 'raw-2',
+        raw_email: 'Make it 5 desks instead of 3',
+        source: 'webhook',
+        timestamp: new Date(),
+        metadata: { headers: { 'in-reply-to': '<po-1@example.com>' } }
+      })
+
+      expect(amendment.amends_order_id).toBe('o1')
+      expect(amendment.status).toBe('needs_review')
+      expect(amendment.flags).toContainEqual(expect.objectContaining({
+        message: 'Amends order o1: change Desk TRÄNHOLM 19 from 4 to 5'
+      }))
+    })
+
+    it('links by an order ID quoted in the text', async () => {
+      await orders.create(order({ id: 'order_1750000000000_abc123' }))
+
+      const amended = await service.findAmendedOrder('Re: order_1750000000000_abc123 - please add 2 chairs')
+
+      expect(amended?.id).toBe('order_1750000000000_abc123')
+    })
+
+    it('flags an amendment whose original order cannot be found', async () => {
+      const amendment = await service.createFromExtraction('Make it 5 desks instead of 3', extraction({ thread: AMENDMENT }))
+
+      expect(amendment.amends_order_id).toBeUndefined()
+      expect(amendment.flags).toContainEqual(expect.objectContaining({ type: 'ambiguous_reference' }))
+    })
+  })
+})
@@ -0,0 +1,667 @@
+import type { AiOriginalValues, CustomerRecord, NewOrderRecord, OrderRecord, OrderRepository, OrderUpdate, OrderQuery } from '../repositories'
+import type { OrderStatus, RawOrder, Suggestion, ValidationFlag } from '../../../shared/types/core'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { OrderLifecycle, OrderTransitionError, type TransitionRequest } from './order-lifecycle'
+import type { AmendmentChange } from './thread-segmenter'
+import type { EventBus } from './realtime'
+import type { CustomerService } from './customer-service'
+import type { DuplicateDetector } from './duplicate-detector'
+import type { PricingEngine } from './pricing-engine'
+import { FulfillmentPlanError, type FulfillmentPlanner } from './fulfillment-planner'
+import { QuantityAdjustmentError, type QuantityAdvisor } from './quantity-advisor'
+import type { ApprovalPolicyEngine, PolicyDecision } from './approval-policy'
+import { normalizeForMatching } from '../utils/text'
+import { isoDay } from '../utils/date'
+import { logger } from '../utils/logger'
+
+type ExtractedLineItem = EmailProcessingResult['line_items'][number]
+
+export interface OrderStats {
+  total: number
+  by_status: Record<string, number>
+  avg_confidence: number
+  recent_count: number
+  // Priced with each order's customer in the catalog currency, before tax;
+  // unknown SKUs count as zero
+  order_value?: {
+    approved: number
+    pending: number
+    currency: string
+  }
+}
+
+// Fields reviewers and clients may change through PATCH /api/orders/:id
+const EDITABLE_FIELDS = [
+  'customer_name',
+  'customer_email',
+  'customer_company',
+  'delivery_address',
+  'delivery_date',
+  'urgency',
+  'line_items',
+  'suggestions'
+] as const
+
+const ORDER_ID_PATTERN = /\border_\d{10,}_[a-z0-9]+\b/g
+
+/**
+ * Owns order creation and updates; the status decision, flagging and ID
+ * generation happen here rather than in the browser
+ */
+export class OrderService {
+  constructor(
+    private repository: OrderRepository,
+    private lifecycle: OrderLifecycle,
+    private events?: EventBus,
+    private customers?: CustomerService,
+    private duplicates?: DuplicateDetector,
+    private pricing?: PricingEngine,
+    private fulfillment?: FulfillmentPlanner,
+    private quantities?: QuantityAdvisor,
+    private policy?: ApprovalPolicyEngine
+  ) {}
+
+  async createFromExtraction(
+    rawEmail: string,
+    result: EmailProcessingResult,
+    rawOrder?: RawOrder
+  ): Promise<OrderRecord> {
+    const amendment = result.thread?.amendment || []
+    const amended = amendment.length > 0 ? await this.findAmendedOrder(rawEmail, rawOrder) : null
+    const isReply = (result.thread?.message_count || 1) > 1 || Boolean(rawOrder?.metadata.headers?.['in-reply-to'])
+
+    const customerMatch = await this.customers?.match({
+      email: result.customer_info.email || rawOrder?.metadata.sender_email,
+      name: result.customer_info.name,
+      company: result.customer_info.company,
+      address: result.delivery_info.address
+    })
+    const customerHints = customerMatch
+      ? this.customers!.reviewHints(result, customerMatch)
+      : { flags: [], suggestions: [] }
+
+    // Low-impact quantity fixes the policy allows are applied before anyone reviews the order
+    const currency = this.pricing?.billingCurrency(customerMatch?.customer, result.delivery_info.address)
+    const quantities = await this.quantities?.autoApply(
+      undefined,
+      result.line_items,
+      this.pricing?.contextFor({ currency, delivery_address: result.delivery_info.address }, customerMatch?.customer)
+    )
+    const lineItems = quantities?.items || result.line_items
+    const autoApplied = quantities?.applied || []
+    const adjustments = quantities?.suggestions || []
+
+    const record: NewOrderRecord = {
+      id: this.generateOrderId(),
+      raw_email: rawEmail,
+      customer_name: result.customer_info.name,
+      customer_email: result.customer_info.email,
+      customer_company: result.customer_info.company,
+      delivery_address: result.delivery_info.address,
+      delivery_date: result.delivery_info.delivery_date,
+      urgency: result.delivery_info.urgency,
+      line_items: lineItems,
+      confidence_score: result.confidence_score,
+      confidence_vectors: result.confidence_vectors,
+      status: 'needs_review',
+      flags: [
+        ...(result.fallback_used ? ['extraction_fallback'] : []),
+        ...(result.flags || []),
+        ...(amended || isReply ? this.amendmentFlags(amendment, amended) : []),
+        ...customerHints.flags
+      ],
+      suggestions: [...customerHints.suggestions, ...adjustments],
+      processing_notes: [
+        ...(result.processing_notes || []),
+        ...autoApplied.map(suggestion => `Auto-applied quantity adjustment: ${suggestion.reasoning}`)
+      ],
+      fallback_used: result.fallback_used,
+      source: rawOrder?.source,
+      message_id: rawOrder?.metadata.headers?.['message-id'],
+      source_metadata: rawOrder?.metadata,
+      amends_order_id: amended?.id,
+      customer_id: customerMatch?.customer.id,
+      currency
+    }
+    if (autoApplied.length > 0) {
+      record.ai_original = { ...this.snapshotAiValues(record), line_items: result.line_items }
+    }
+
+    // Amendments refer to an earlier order on purpose; anything else repeating one is suspect
+    const duplicate = amended ? null : await this.duplicates?.findDuplicate(record)
+    if (duplicate) {
+      record.flags.push(this.duplicates!.toFlag(duplicate))
+      record.duplicate_of = duplicate.order.id
+    }
+
+    // Without a policy engine every order waits for a reviewer
+    const decision = await this.policy?.evaluate(record, customerMatch ?? null)
+    if (decision) {
+      record.next_action = decision.next_action
+      if (decision.rule?.flag) record.flags.push(decision.rule.flag)
+      if (decision.next_action.type === 'auto_approve') record.status = 'ai_parsed'
+    }
+
+    const order = await this.repository.create(record)
+
+    await this.lifecycle.recordTransition(order.id, null, order.status, {
+      actor: 'system',
+      reason: `Created from email extraction (confidence ${result.confidence_score.toFixed(2)})` +
+        (decision ? `; ${decision.next_action.description}` : '')
+    })
+
+    logger.info('Order created', {
+      order_id: order.id,
+      status: order.status,
+      next_action: decision?.next_action.type,
+      rule: decision?.rule?.id,
+      amends: amended?.id,
+      duplicate_of: duplicate?.order.id
+    })
+    this.events?.publish({ type: 'order.created', order })
+
+    return decision?.next_action.type === 'auto_approve' ? this.autoApprove(order, decision.next_action.description) : order
+  }
+
+  /**
+   * Earlier order an amendment email refers to: by In-Reply-To/References
+   * Message-IDs, or by an order ID quoted in the text
+   */
+  async findAmendedOrder(rawEmail: string, rawOrder?: RawOrder): Promise<OrderRecord | null> {
+    const headers = rawOrder?.metadata.headers || {}
+    const referenced = `${headers['in-reply-to'] || ''} ${headers['references'] || ''}`.match(/<[^>]+>/g) || []
+
+    // Most recent reference first
+    for (const messageId of [...new Set(referenced)].reverse()) {
+      const order = await this.findByMessageId(messageId)
+      if (order) return order
+    }
+
+    for (const orderId of new Set(rawEmail.match(ORDER_ID_PATTERN) || [])) {
+      const order = await this.repository.findById(orderId)
+      if (order) return order
+    }
+
+    return null
+  }
+
+  /**
+   * Order previously created from the email with this Message-ID, if any
+   */
+  async findByMessageId(messageId: string): Promise<OrderRecord | null> {
+    const { orders } = await this.repository.list({ message_id: messageId, limit: 1 })
+    return orders[0] || null
+  }
+
+  async getOrder(id: string): Promise<OrderRecord | null> {
+    return this.repository.findById(id)
+  }
+
+  async listOrders(query?: OrderQuery): Promise<{ orders: OrderRecord[], total: number }> {
+    return this.repository.list(query)
+  }
+
+  /**
+   * Apply field edits and any `status` change in one write; an illegal move
+   * or failed guard leaves the order untouched. Fulfilled and rejected orders
+   * cannot be edited. Flags are not editable here, see dismissFlag.
+   */
+  async updateOrder(
+    id: string,
+    changes: Record<string, unknown>,
+    request: TransitionRequest = { actor: 'api' }
+  ): Promise<OrderRecord | null> {
+    const current = await this.repository.findById(id)
+    if (!current) return null
+
+    const updates = this.editableUpdates(changes)
+    const status = changes.status as OrderStatus | undefined
+    if (status !== undefined && status !== current.status) {
+      return this.lifecycle.transition(id, status, request, updates)
+    }
+
+    if (Object.keys(updates).length === 0) return current
+    this.assertEditable(current)
+
+    // An approved order holds stock for its old lines: the edit sends it back
+    // to modified, releasing the reservation, and re-approves only if asked
+    if (current.status === 'approved') {
+      const modified = await this.lifecycle.transition(id, 'modified', {
+        actor: request.actor,
+        reason: request.reason || `Edited ${Object.keys(updates).join(', ')} after approval`
+      }, updates)
+      return status === 'approved' ? this.lifecycle.transition(id, 'approved', request) : modified
+    }
+
+    const updated = await this.repository.update(id, updates)
+    if (updated) this.events?.publish({ type: 'order.updated', order: updated })
+    return updated
+  }
+
+  /**
+   * Reviewer dismisses a validation flag; the dismissal and its reason are
+   * recorded in the status history
+   */
+  async dismissFlag(id: string, index: number, request: TransitionRequest): Promise<OrderRecord | null> {
+    const order = await this.repository.findById(id)
+    if (!order || !Number.isInteger(index) || index < 0 || index >= order.flags.length) return null
+    if (!request.reason?.trim()) {
+      throw new OrderTransitionError('GUARD_FAILED', 'A reason is required to dismiss a flag', order.status, order.status)
+    }
+
+    const flag = order.flags[index]
+    const updated = await this.repository.update(id, { flags: order.flags.filter((_, i) => i !== index) })
+    if (!updated) return null
+
+    await this.lifecycle.recordTransition(id, order.status, order.status, {
+      actor: request.actor,
+      reason: `Dismissed flag "${typeof flag === 'object' && flag?.message ? flag.message : String(flag)}": ${request.reason}`
+    })
+    this.events?.publish({ type: 'order.updated', order: updated })
+    logger.info('Order flag dismissed', { order_id: id, actor: request.actor })
+    return updated
+  }
+
+  /**
+   * Reviewer edits: snapshot the AI values on the first edit and save the
+   * changes together with the move to `modified`
+   */
+  async applyReviewEdits(
+    id: string,
+    changes: Record<string, unknown>,
+    request: TransitionRequest
+  ): Promise<OrderRecord | null> {
+    const current = await this.repository.findById(id)
+    if (!current) return null
+    this.assertEditable(current)
+
+    const updates = this.editableUpdates(changes)
+    if (!current.ai_original) {
+      updates.ai_original = this.snapshotAiValues(current)
+    }
+
+    return this.lifecycle.transition(id, 'modified', {
+      actor: request.actor,
+      reason: request.reason || `Edited ${Object.keys(changes).join(', ') || 'order'}`
+    }, updates)
+  }
+
+  async changeStatus(id: string, status: OrderStatus, request: TransitionRequest): Promise<OrderRecord> {
+    return this.lifecycle.transition(id, status, request)
+  }
+
+  /**
+   * Reviewer confirmed a suspected duplicate: fill gaps in the original from
+   * it, then reject the duplicate
+   */
+  async mergeDuplicate(id: string, request: TransitionRequest): Promise<{ order: OrderRecord, original: OrderRecord } | null> {
+    const order = await this.repository.findById(id)
+    if (!order?.duplicate_of) return null
+    const original = await this.repository.findById(order.duplicate_of)
+    if (!original) return null
+
+    const rejection = { actor: request.actor, reason: request.reason || `Duplicate of order ${original.id}` }
+    this.lifecycle.assertTransition(order, 'rejected', rejection)
+
+    const gaps: OrderUpdate = {}
+    for (const field of ['customer_name', 'customer_email', 'customer_company', 'delivery_address', 'delivery_date'] as const) {
+      if (!original[field] && order[field]) gaps[field] = order[field]
+    }
+    const merged = await this.repository.update(original.id, {
+      ...gaps,
+      processing_notes: [
+        ...(original.processing_notes || []),
+        `Merged duplicate order ${order.id}${Object.keys(gaps).length > 0 ? ` (filled ${Object.keys(gaps).join(', ')})` : ''}`
+      ]
+    })
+    if (merged) this.events?.publish({ type: 'order.updated', order: merged })
+
+    const rejected = await this.lifecycle.transition(id, 'rejected', rejection)
+
+    return { order: rejected, original: merged || original }
+  }
+
+  /**
+   * Reviewer says a suspected duplicate is a separate order: drop the link and its flag
+   */
+  async dismissDuplicate(id: string, request: TransitionRequest): Promise<OrderRecord | null> {
+    const order = await this.repository.findById(id)
+    if (!order?.duplicate_of) return null
+
+    const updated = await this.repository.update(id, {
+      duplicate_of: null,
+      flags: order.flags.filter(flag => !(typeof flag === 'object' && flag?.related_order_id === order.duplicate_of && flag.field_path === 'duplicate_of')),
+      processing_notes: [
+        ...(order.processing_notes || []),
+        `Not a duplicate of order ${order.duplicate_of} (${request.actor}${request.reason ? `: ${request.reason}` : ''})`
+      ]
+    })
+    if (updated) this.events?.publish({ type: 'order.updated', order: updated })
+    return updated
+  }
+
+  /**
+   * Reviewer picked a fulfilment plan (recomputed here, so stock changes since
+   * validation are honoured). A split keeps the first shipment on this order
+   * and moves each backordered shipment to a new order linked by split_from;
+   * shipping complete only records the planned ship date.
+   */
+  async applyFulfillmentPlan(
+    id: string,
+    planId: string,
+    request: TransitionRequest
+  ): Promise<{ order: OrderRecord, shipments: OrderRecord[] } | null> {
+    const order = await this.repository.findById(id)
+    if (!order) return null
+
+    const plans = await this.fulfillment?.plan(order.id, order.line_items, order.delivery_date) || []
+    const plan = plans.find(candidate => candidate.id === planId)
+    if (!plan) {
+      throw new FulfillmentPlanError(`Plan ${planId} is not available for order ${id}; stock levels may have changed`)
+    }
+
+    const [first, ...backorders] = plan.shipments
+    const note = `Fulfilment plan chosen by ${request.actor}: ${plan.description}`
+
+    if (backorders.length === 0) {
+      const updated = await this.repository.update(id, {
+        planned_ship_date: isoDay(first.ship_date),
+        processing_notes: [...(order.processing_notes || []), note]
+      })
+      if (updated) this.events?.publish({ type: 'order.updated', order: updated })
+      return updated ? { order: updated, shipments: [] } : null
+    }
+
+    this.lifecycle.assertTransition(order, 'modified', request)
+
+    const remaining: ExtractedLineItem[] = order.line_items.map(item => ({ ...item }))
+    const planned = new Set(plan.shipments.flatMap(shipment => shipment.lines.map(line => line.sku)))
+    // Lines the plan does not cover (no catalog SKU) stay on this order
+    const unplanned = remaining.filter(item => !planned.has(this.itemSku(item)))
+    const kept = this.takeLineItems(remaining, first.lines)
+
+    const shipments: OrderRecord[] = []
+    for (const backorder of backorders) {
+      const shipment = await this.repository.create({
+        id: this.generateOrderId(),
+        raw_email: order.raw_email,
+        customer_name: order.customer_name,
+        customer_email: order.customer_email,
+        customer_company: order.customer_company,
+        delivery_address: order.delivery_address,
+        delivery_date: order.delivery_date,
+        urgency: order.urgency,
+        line_items: this.takeLineItems(remaining, backorder.lines),
+        confidence_score: order.confidence_score,
+        confidence_vectors: order.confidence_vectors,
+        // Approved once the restocked units are in, like any other order
+        status: 'needs_review',
+        flags: [],
+        suggestions: [],
+        processing_notes: [`Backorder split from order ${order.id}, expected to ship ${isoDay(backorder.ship_date)}`],
+        source: order.source,
+        source_metadata: order.source_metadata,
+        customer_id: order.customer_id,
+        currency: order.currency,
+        split_from: order.id,
+        planned_ship_date: isoDay(backorder.ship_date)
+      })
+
+      await this.lifecycle.recordTransition(shipment.id, null, shipment.status, {
+        actor: request.actor,
+        reason: `Backorder split from order ${order.id}`
+      })
+      this.events?.publish({ type: 'order.created', order: shipment })
+      shipments.push(shipment)
+    }
+
+    const updated = await this.lifecycle.transition(id, 'modified', {
+      actor: request.actor,
+      reason: request.reason || `Split for fulfilment into ${plan.shipments.length} shipments`
+    }, {
+      line_items: [...kept, ...unplanned],
+      ai_original: order.ai_original || this.snapshotAiValues(order),
+      planned_ship_date: isoDay(first.ship_date),
+      processing_notes: [
+        ...(order.processing_notes || []),
+        `${note} (backorders ${shipments.map(shipment => shipment.id).join(', ')})`
+      ]
+    })
+
+    logger.info('Order split for fulfilment', { order_id: id, plan: plan.id, shipments: shipments.map(shipment => shipment.id) })
+    return { order: updated, shipments }
+  }
+
+  /**
+   * Reviewer accepted a quantity adjustment: change the line, re-advise on
+   * the new quantities and move the order to `modified`
+   */
+  async acceptSuggestion(id: string, suggestionId: string, request: TransitionRequest): Promise<OrderRecord | null> {
+    const order = await this.repository.findById(id)
+    const suggestion: Suggestion | undefined = order?.suggestions.find(candidate => candidate?.id === suggestionId)
+    if (!order || !suggestion) return null
+    if (!this.quantities) {
+      throw new QuantityAdjustmentError('Quantity adjustments are not enabled')
+    }
+
+    this.lifecycle.assertTransition(order, 'modified', request)
+
+    const lineItems = this.quantities.apply(order.line_items, suggestion)
+    const customer = order.customer_id ? await this.customers?.getCustomer(order.customer_id) : null
+    const adjustments = await this.quantities.suggest(order.id, lineItems, this.pricing?.contextFor(order, customer))
+
+    return this.lifecycle.transition(id, 'modified', {
+      actor: request.actor,
+      reason: request.reason || `Accepted suggestion: ${suggestion.reasoning}`
+    }, {
+      line_items: lineItems,
+      suggestions: [...order.suggestions.filter(candidate => candidate?.type !== 'quantity_adjustment'), ...adjustments],
+      ai_original: order.ai_original || this.snapshotAiValues(order)
+    })
+  }
+
+  /**
+   * What the approval policy would decide for the order as it stands now
+   */
+  async policyDecision(id: string): Promise<PolicyDecision | null> {
+    const order = await this.repository.findById(id)
+    return order && this.policy ? this.policy.evaluate(order) : null
+  }
+
+  async deleteOrder(id: string): Promise<boolean> {
+    // Release first: deleting the order unlinks its ledger rows, and with them the reservation
+    await this.lifecycle.releaseStock(id, { actor: 'system', reason: 'Order deleted' })
+    const deleted = await this.repository.delete(id)
+    if (deleted) this.events?.publish({ type: 'order.deleted', order_id: id })
+    return deleted
+  }
+
+  async getStats(): Promise<OrderStats> {
+    const { orders } = await this.repository.list()
+
+    const stats: OrderStats = {
+      total: orders.length,
+      by_status: {},
+      avg_confidence: 0,
+      recent_count: 0
+    }
+
+    if (orders.length > 0) {
+      for (const order of orders) {
+        stats.by_status[order.status] = (stats.by_status[order.status] || 0) + 1
+      }
+
+      stats.avg_confidence = orders.reduce((sum, order) => sum + order.confidence_score, 0) / orders.length
+
+      // Recent orders (last 24 hours)
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      stats.recent_count = orders.filter(order => order.created_at > dayAgo).length
+    }
+
+    if (this.pricing) {
+      stats.order_value = await this.orderValue(orders, this.pricing)
+    }
+
+    return stats
+  }
+
+  // Fulfilled and rejected orders are closed; a rejected order is reopened before editing
+  private assertEditable(order: OrderRecord): void {
+    if (order.status === 'fulfilled' || order.status === 'rejected') {
+      throw new OrderTransitionError(
+        'ILLEGAL_TRANSITION',
+        `Order ${order.id} is ${order.status} and can no longer be edited`,
+        order.status
+      )
+    }
+  }
+
+  // Keep only the fields a client may change; anything else in `changes` is ignored
+  private editableUpdates(changes: Record<string, unknown>): OrderUpdate {
+    const updates: OrderUpdate = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = changes[field]
+      }
+    }
+    return updates
+  }
+
+  private async orderValue(orders: OrderRecord[], pricing: PricingEngine): Promise<NonNullable<OrderStats['order_value']>> {
+    const value = { approved: 0, pending: 0, currency: pricing.currency }
+    const customers = new Map<string, CustomerRecord | null>()
+
+    for (const order of orders) {
+      if (order.status === 'rejected' || order.status === 'error') continue
+
+      if (order.customer_id && this.customers && !customers.has(order.customer_id)) {
+        customers.set(order.customer_id, await this.customers.getCustomer(order.customer_id))
+      }
+      // Totals are summed in the catalog currency, before tax
+      const { total } = await pricing.priceOrder(order.line_items, {
+        customer: order.customer_id ? customers.get(order.customer_id) : null
+      })
+
+      if (order.status === 'approved' || order.status === 'fulfilled') {
+        value.approved += total
+      } else {
+        value.pending += total
+      }
+    }
+
+    value.approved = Math.round(value.approved * 100) / 100
+    value.pending = Math.round(value.pending * 100) / 100
+    return value
+  }
+
+  // Approve through validation like a reviewer would; anything blocking it sends the order to review
+  private async autoApprove(order: OrderRecord, reason: string): Promise<OrderRecord> {
+    const request = { actor: 'approval-policy', reason }
+    await this.lifecycle.transition(order.id, 'validating', request)
+    try {
+      return await this.lifecycle.transition(order.id, 'approved', request)
+    } catch (error) {
+      if (!(error instanceof OrderTransitionError)) throw error
+      logger.warn('Auto-approval blocked', { order_id: order.id, error: error.message })
+      return this.lifecycle.transition(order.id, 'needs_review', {
+        actor: 'approval-policy',
+        reason: `Auto-approval blocked: ${error.message}`
+      })
+    }
+  }
+
+  private itemSku(item: ExtractedLineItem): string {
+    return (item.sku || '').trim().toUpperCase()
+  }
+
+  // Move the planned quantities out of `remaining` into new line items
+  private takeLineItems(remaining: ExtractedLineItem[], lines: Array<{ sku: string, quantity: number }>): ExtractedLineItem[] {
+    const taken: ExtractedLineItem[] = []
+    for (const line of lines) {
+      let wanted = line.quantity
+      for (const item of remaining) {
+        if (wanted <= 0) break
+        const quantity = Number(item.quantity) || 0
+        if (this.itemSku(item) !== line.sku || quantity <= 0) continue
+
+        const take = Math.min(quantity, wanted)
+        taken.push({ ...item, quantity: take })
+        item.quantity = quantity - take
+        wanted -= take
+      }
+    }
+    return taken
+  }
+
+  private snapshotAiValues(order: AiOriginalValues): AiOriginalValues {
+    return {
+      customer_name: order.customer_name,
+      customer_email: order.customer_email,
+      customer_company: order.customer_company,
+      delivery_address: order.delivery_address,
+      delivery_date: order.delivery_date,
+      urgency: order.urgency,
+      line_items: order.line_items
+    }
+  }
+
+  private amendmentFlags(changes: AmendmentChange[], original: OrderRecord | null): ValidationFlag[] {
+    if (!original) {
+      return changes.length > 0
+        ? [{
+            type: 'ambiguous_reference',
+            severity: 'warning',
+            message: 'This reply asks to change an earlier order, but no matching order was found',
+            field_path: 'line_items',
+            suggested_action: 'Find the original order and apply the changes there',
+            auto_fixable: false
+          }]
+        : []
+    }
+
+    return changes.map(change => ({
+      type: 'data_inconsistency' as const,
+      severity: 'warning' as const,
+      message: `Amends order ${original.id}: ${this.describeChange(change, original)}`,
+      field_path: change.action === 'change_delivery' ? 'delivery_info' : 'line_items',
+      suggested_action: `Apply the change to order ${original.id} or reject this amendment`,
+      auto_fixable: false
+    }))
+  }
+
+  private describeChange(change: AmendmentChange, original: OrderRecord): string {
+    const item = this.findAmendedItem(change.target, original.line_items)
+    const name = item?.description || change.target || 'item'
+
+    switch (change.action) {
+      case 'set_quantity':
+        return `change ${name} from ${item?.quantity ?? change.previous_quantity ?? '?'} to ${change.quantity}`
+      case 'add_item':
+        return `add ${change.quantity} x ${change.target}`
+      case 'remove_item':
+        return `remove ${name}`
+      case 'change_delivery':
+        return `change delivery to ${change.value}`
+      case 'cancel_order':
+        return 'cancel the order'
+    }
+  }
+
+  private findAmendedItem(target: string | undefined, lineItems: ExtractedLineItem[]): ExtractedLineItem | undefined {
+    // "make it 4 instead of 3" on a single-item order
+    if (!target) return lineItems.length === 1 ? lineItems[0] : undefined
+
+    // Crude singular form so "desks" finds "Desk ..."
+    const stem = (word: string) => word.length > 3 ? word.replace(/s$/, '') : word
+    const wanted = normalizeForMatching(target).split(' ').map(stem)
+
+    return lineItems.find(item => {
+      const words = normalizeForMatching(`${item.description || ''} ${item.sku || ''}`).split(' ').map(stem)
+      return wanted.some(word => word.length > 2 && words.includes(word))
+    })
+  }
+
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { InMemoryInventoryRepository } from '../repositories'
+import { AlternativesRecommender } from './alternatives-recommender'
+import { CurrencyService } from './currency-service'
+import { FulfillmentPlanner } from './fulfillment-planner'
+import { InventoryService } from './inventory-service'
+import { OrderValidationService } from './order-validation-service'
+import { PricingEngine, type PricingRules } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { QuantityAdvisor } from './quantity-advisor'
+import { TaxService } from './tax-service'
+
+const LIST_PRICES: PricingRules = {
+  version: 1,
+  currency: 'USD',
+  stacking: { mode: 'compound' },
+  quantity_breaks: [],
+  customer_tiers: [],
+  promotions: []
+}
+
+// DSK-0001: 902.78, 31 in stock, MOQ 2; DSK-0004: MOQ 10; DSK-0005: out of stock
+describe('OrderValidationService', () => {
+  const catalog = new ProductCatalogService()
+  const pricing = new PricingEngine(catalog, new CurrencyService(), new TaxService(), LIST_PRICES)
+  const inventory = new InventoryService(new InMemoryInventoryRepository(), catalog)
+  const fulfillment = new FulfillmentPlanner(catalog, inventory)
+  const alternatives = new AlternativesRecommender(catalog, inventory)
+  const quantities = new QuantityAdvisor(catalog, inventory, pricing)
+  const validation = new OrderValidationService(catalog, pricing, inventory, fulfillment, alternatives, quantities)
+
+  it('prices valid lines and recommends approval', async () => {
+    const result = await validation.validateOrder('o1', [
+      { description: 'Desk TRÄNHOLM 19', sku: 'dsk-0001', quantity: 2 },
+      { raw_description: 'Desk', extracted_sku: 'DSK-0004', quantity: '10' }
+    ])
+
+    expect(result.valid_items.map(item => item.extracted_sku)).toEqual(['DSK-0001', 'DSK-0004'])
+    expect(result.valid_items[0].pricing_info).toMatchObject({ unit_price: 902.78, total_price: 1805.56 })
+    expect(result.estimated_total).toBe(1805.56 + 2786.6)
+    expect(result.overall_confidence).toBe(1)
+    expect(result.next_actions.map(action => action.type)).toEqual(['auto_approve'])
+  })
+
+  it('flags missing quantities and unknown products', async () => {
+    const result = await validation.validateOrder('o1', [
+      { description: 'Desk TRÄNHOLM 19', sku: 'DSK-0001' },
+      { description: 'Coffee STRÅDAL 620', quantity: 1 },
+      { description: 'Hovercraft', sku: 'HOV-0001', quantity: 1 }
+    ])
+
+    expect(result.invalid_items.map(item => item.validation_errors[0].type))
+      .toEqual(['invalid_quantity', 'sku_not_found', 'sku_not_found'])
+    expect(result.flags.map(flag => flag.field_path))
+      .toEqual(['line_items[0].quantity', 'line_items[1].extracted_sku', 'line_items[2].extracted_sku'])
+    // The catalog's best guesses for an unidentified line become suggestions
+    expect(result.suggestions.some(suggestion => suggestion.suggested_value === 'CFT-0167')).toBe(true)
+    expect(result.overall_confidence).toBe(0)
+  })
+
+  it('checks stock and minimum order quantities', async () => {
+    const result = await validation.validateOrder('o1', [
+      { sku: 'DSK-0001', quantity: 40 },
+      { sku: 'DSK-0004', quantity: 3 },
+      { sku: 'DSK-0005', quantity: 2 }
+    ])
+
+    expect(result.invalid_items.map(item => item.validation_errors.map(error => [error.type, error.severity]))).toEqual([
+      [['insufficient_stock', 'error']],
+      [['moq_not_met', 'warning']],
+      [['insufficient_stock', 'critical']]
+    ])
+    expect(result.invalid_items[1].resolution_options[0]).toMatchObject({ type: 'adjust_quantity' })
+    expect(result.invalid_items[0].suggested_alternatives.every(product => product.available_in_stock >= 40)).toBe(true)
+    expect(result.next_actions[0]).toMatchObject({ type: 'review_required', priority: 'urgent' })
+  })
+
+  it('defaults to a neutral confidence when the client sends none', async () => {
+    const result = await validation.validateOrder('o1', [{ sku: 'DSK-0001', quantity: 2 }])
+
+    expect(result.valid_items[0].confidence.semantic_clarity).toBe(0.5)
+  })
+  it('uses the confidence vector stored on extracted line items', async () => {
+    const confidence_vector = {
+      semantic_clarity: 0.92,
+      data_completeness: 0.8,
+      context_consistency: 0.85,
+      domain_familiarity: 0.9,
+      temporal_stability: 0.95,
+      cultural_accuracy: 0.9,
+      business_viability: 0.7
+    }
+
+    const result = await validation.validateOrder('o1', [{ sku: 'DSK-0001', quantity: 2, confidence_vector }])
+
+    expect(result.valid_items[0].confidence).toEqual(confidence_vector)
+  })
+})
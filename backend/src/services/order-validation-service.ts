@@ -0,0 +1,405 @@
+import type {
+  ConfidenceVector,
+  FulfillmentPlan,
+  InvalidLineItem,
+  InventoryStatus,
+  LineItem,
+  NextAction,
+  Product,
+  ResolutionOption,
+  Suggestion,
+  ValidatedLineItem,
+  ValidationError,
+  ValidationFlag,
+  ValidationResult
+} from '../../../shared/types/core'
+import { ProductCatalogService } from './product-catalog-service'
+import type { PricingContext, PricingEngine } from './pricing-engine'
+import type { InventoryService } from './inventory-service'
+import type { FulfillmentPlanner } from './fulfillment-planner'
+import type { AlternativeRecommendation, AlternativesRecommender } from './alternatives-recommender'
+import type { QuantityAdvisor } from './quantity-advisor'
+import { isoDay } from '../utils/date'
+import { logger } from '../utils/logger'
+
+/**
+ * Line item as sent by clients: either the extraction shape
+ * ({ description, sku }) or the shared LineItem shape ({ raw_description, extracted_sku })
+ */
+export interface LineItemInput {
+  id?: string
+  description?: string
+  raw_description?: string
+  sku?: string
+  extracted_sku?: string
+  extracted_product_name?: string
+  quantity?: number | string
+  quantity_unit?: string
+  special_notes?: string
+  confidence?: ConfidenceVector
+  // Stored by the confidence scorer on extracted line items
+  confidence_vector?: ConfidenceVector
+}
+
+export class OrderValidationService {
+  constructor(
+    private productCatalog: ProductCatalogService,
+    private pricing: PricingEngine,
+    private inventory: InventoryService,
+    private fulfillment: FulfillmentPlanner,
+    private alternatives: AlternativesRecommender,
+    private quantities: QuantityAdvisor
+  ) {}
+
+  /**
+   * Validate every line item of an order (existence, stock, MOQ) in one pass;
+   * stock is checked against available-to-promise (the order's own
+   * reservation included) and prices come from the pricing engine for the
+   * given customer. Short stock gets fulfilment plans, checked against the
+   * requested delivery date, and lines that fail on a known product get
+   * in-stock substitutes from the recommender. Every catalog line gets the
+   * quantity adjustments (MOQ, pack size, stock cap, price break) that apply.
+   */
+  async validateOrder(
+    orderId: string,
+    items: LineItemInput[],
+    pricingContext: PricingContext = {},
+    requestedDeliveryDate?: string | null
+  ): Promise<ValidationResult> {
+    const validItems: ValidatedLineItem[] = []
+    const invalidItems: InvalidLineItem[] = []
+    const flags: ValidationFlag[] = []
+    const suggestions: Suggestion[] = []
+    let estimatedTotal = 0
+
+    for (const [index, input] of items.entries()) {
+      const lineItem = this.toLineItem(input, index)
+      const fieldPath = `line_items[${index}]`
+
+      if (!lineItem.quantity || lineItem.quantity <= 0) {
+        const error: ValidationError = {
+          type: 'invalid_quantity',
+          message: `No valid quantity for "${lineItem.raw_description}"`,
+          severity: 'error',
+          auto_fixable: false
+        }
+        invalidItems.push(await this.toInvalidItem(lineItem, [error]))
+        flags.push(this.toFlag(error, `${fieldPath}.quantity`))
+        continue
+      }
+
+      if (!lineItem.extracted_sku) {
+        const error: ValidationError = {
+          type: 'sku_not_found',
+          message: `No catalog product identified for "${lineItem.raw_description}"`,
+          severity: 'error',
+          auto_fixable: false
+        }
+        const invalid = await this.toInvalidItem(lineItem, [error])
+        invalidItems.push(invalid)
+        flags.push(this.toFlag(error, `${fieldPath}.extracted_sku`))
+        suggestions.push(...this.alternativeSuggestions(lineItem, invalid.suggested_alternatives))
+        continue
+      }
+
+      const available = await this.inventory.availableToPromise(lineItem.extracted_sku, orderId)
+      const check = await this.productCatalog.validateOrder(lineItem.extracted_sku, lineItem.quantity, available ?? undefined)
+
+      if (!check.product) {
+        const error: ValidationError = {
+          type: 'sku_not_found',
+          message: check.issues[0] || `Product SKU "${lineItem.extracted_sku}" not found`,
+          severity: 'error',
+          auto_fixable: false
+        }
+        const invalid = await this.toInvalidItem(lineItem, [error])
+        invalidItems.push(invalid)
+        flags.push(this.toFlag(error, `${fieldPath}.extracted_sku`))
+        suggestions.push(...this.alternativeSuggestions(lineItem, invalid.suggested_alternatives))
+        continue
+      }
+
+      const product = check.product
+      const inventory = this.inventoryStatus(product, lineItem.quantity, available ?? 0)
+      inventory.estimated_delivery_date = this.fulfillment.estimatedDelivery(product, lineItem.quantity, inventory.quantity_available)
+      const pricing = this.pricing.priceLine(product, lineItem.quantity, pricingContext)
+      estimatedTotal += pricing.total_price
+
+      const errors = this.businessRuleErrors(product, inventory)
+      suggestions.push(...this.quantities.adjustments(
+        lineItem.id, index, product, lineItem.quantity, inventory.quantity_available, pricingContext
+      ))
+
+      if (errors.length === 0) {
+        validItems.push({
+          ...lineItem,
+          extracted_product_name: lineItem.extracted_product_name || product.product_name,
+          matched_product: product,
+          validation_status: 'valid',
+          validation_messages: [],
+          inventory_check: inventory,
+          pricing_info: pricing
+        })
+        continue
+      }
+
+      const substitutes = await this.alternatives.recommend(product, { quantity: lineItem.quantity, orderId })
+      const invalid = await this.toInvalidItem(lineItem, errors, product, inventory.quantity_available, substitutes)
+      invalidItems.push({ ...invalid, inventory_check: inventory })
+      errors.forEach(error => flags.push(this.toFlag(error, `${fieldPath}.quantity`)))
+      suggestions.push(...this.substituteSuggestions(lineItem, substitutes))
+    }
+
+    const shortItems = invalidItems.filter(item => item.validation_errors.some(error => error.type === 'insufficient_stock'))
+    const plans = shortItems.length > 0
+      ? await this.fulfillment.plan(orderId, items, requestedDeliveryDate)
+      : []
+    for (const item of shortItems) {
+      item.resolution_options.unshift(...plans.map(plan => this.planOption(plan)))
+    }
+    if (plans.length > 0 && plans.every(plan => plan.meets_requested_date === false)) {
+      flags.push({
+        type: 'business_rule_violation',
+        severity: 'warning',
+        message: `No fulfilment plan delivers by the requested date ${requestedDeliveryDate}; ` +
+          `the earliest complete delivery is ${plans.map(plan => isoDay(plan.estimated_completion_date)).sort()[0]}`,
+        field_path: 'delivery_info.delivery_date',
+        suggested_action: 'Agree a later delivery date or a partial shipment with the customer',
+        auto_fixable: false
+      })
+    }
+
+    const total = validItems.length + invalidItems.length
+    const result: ValidationResult = {
+      order_id: orderId,
+      timestamp: new Date(),
+      valid_items: validItems,
+      invalid_items: invalidItems,
+      suggestions,
+      flags,
+      overall_confidence: total === 0 ? 0 : validItems.length / total,
+      estimated_total: Math.round(estimatedTotal * 100) / 100,
+      currency: pricingContext.currency || this.pricing.currency,
+      next_actions: this.nextActions(invalidItems, flags),
+      ...(plans.length > 0 ? { fulfillment_plans: plans } : {})
+    }
+
+    logger.info('Order validated', {
+      order_id: orderId,
+      valid: validItems.length,
+      invalid: invalidItems.length
+    })
+
+    return result
+  }
+
+  // Private helper methods
+
+  private toLineItem(input: LineItemInput, index: number): LineItem {
+    const quantity = typeof input.quantity === 'string' ? parseInt(input.quantity) : input.quantity
+    const sku = input.extracted_sku || input.sku
+
+    return {
+      id: input.id || `item_${index + 1}`,
+      raw_description: input.raw_description || input.description || '',
+      extracted_sku: sku ? sku.trim().toUpperCase() : undefined,
+      extracted_product_name: input.extracted_product_name,
+      quantity: Number.isFinite(quantity) ? quantity : undefined,
+      quantity_unit: input.quantity_unit,
+      special_notes: input.special_notes,
+      confidence: input.confidence || input.confidence_vector || this.uniformConfidence(0.5)
+    }
+  }
+
+  private inventoryStatus(product: Product, quantity: number, available: number): InventoryStatus {
+    return {
+      available: available >= quantity,
+      quantity_available: available,
+      quantity_requested: quantity,
+      meets_moq: quantity >= product.min_order_quantity
+    }
+  }
+
+  private businessRuleErrors(product: Product, inventory: InventoryStatus): ValidationError[] {
+    const errors: ValidationError[] = []
+
+    if (inventory.quantity_available === 0) {
+      errors.push({
+        type: 'insufficient_stock',
+        message: `Product "${product.product_code}" is out of stock`,
+        severity: 'critical',
+        auto_fixable: false
+      })
+    } else if (!inventory.available) {
+      errors.push({
+        type: 'insufficient_stock',
+        message: `Insufficient stock. Requested: ${inventory.quantity_requested}, Available: ${inventory.quantity_available}`,
+        severity: 'error',
+        auto_fixable: false
+      })
+    }
+
+    if (!inventory.meets_moq) {
+      errors.push({
+        type: 'moq_not_met',
+        message: `Quantity ${inventory.quantity_requested} is below minimum order quantity of ${product.min_order_quantity}`,
+        severity: 'warning',
+        auto_fixable: true
+      })
+    }
+
+    return errors
+  }
+
+  private async toInvalidItem(
+    lineItem: LineItem,
+    errors: ValidationError[],
+    product?: Product,
+    available = 0,
+    substitutes: AlternativeRecommendation[] = []
+  ): Promise<InvalidLineItem> {
+    const alternatives = product
+      ? substitutes.map(substitute => substitute.product)
+      : (await this.productCatalog.matchProducts(lineItem.raw_description, 3)).map(match => match.product)
+
+    return {
+      ...lineItem,
+      validation_errors: errors,
+      suggested_alternatives: alternatives,
+      resolution_options: this.resolutionOptions(errors, product, alternatives, available)
+    }
+  }
+
+  private resolutionOptions(
+    errors: ValidationError[],
+    product: Product | undefined,
+    alternatives: Product[],
+    available: number
+  ): ResolutionOption[] {
+    const options: ResolutionOption[] = []
+
+    for (const error of errors) {
+      if (error.type === 'moq_not_met' && product) {
+        options.push({
+          type: 'adjust_quantity',
+          description: `Increase quantity to the minimum order quantity of ${product.min_order_quantity}`,
+          confidence: 0.9,
+          business_impact: 'Customer receives more units than requested',
+          implementation_cost: 'low'
+        })
+      }
+
+      if (error.type === 'insufficient_stock' && product && available > 0) {
+        options.push({
+          type: 'adjust_quantity',
+          description: `Reduce quantity to the ${available} units available`,
+          confidence: 0.7,
+          business_impact: 'Customer receives fewer units than requested',
+          implementation_cost: 'low'
+        })
+      }
+    }
+
+    if (alternatives.length > 0) {
+      options.push({
+        type: 'substitute_product',
+        description: `Substitute with ${alternatives.map(p => p.product_code).join(', ')}`,
+        confidence: product ? 0.5 : 0.6,
+        business_impact: 'Customer must confirm the substitute product',
+        implementation_cost: 'medium'
+      })
+    }
+
+    if (options.length === 0) {
+      options.push({
+        type: 'custom_solution',
+        description: 'Contact the customer to clarify this item',
+        confidence: 0.3,
+        business_impact: 'Order is delayed until the customer responds',
+        implementation_cost: 'high'
+      })
+    }
+
+    return options
+  }
+
+  private planOption(plan: FulfillmentPlan): ResolutionOption {
+    const split = plan.type === 'split_order'
+    return {
+      type: plan.type,
+      description: plan.description,
+      confidence: plan.meets_requested_date === false ? 0.4 : split ? 0.8 : 0.7,
+      business_impact: split
+        ? `Delivered in ${plan.shipments.length} shipments`
+        : 'Whole order waits for restocked units',
+      implementation_cost: split ? 'medium' : 'low',
+      plan_id: plan.id
+    }
+  }
+
+  private alternativeSuggestions(lineItem: LineItem, alternatives: Product[]): Suggestion[] {
+    return alternatives.map((product, index) => ({
+      id: `${lineItem.id}_alt_${index + 1}`,
+      type: 'product_alternative' as const,
+      confidence: Math.max(0.1, 0.6 - index * 0.15),
+      reasoning: `"${lineItem.raw_description}" could not be identified; ${product.product_name} is the closest catalog match`,
+      original_value: lineItem.extracted_sku || lineItem.raw_description,
+      suggested_value: product.product_code,
+      business_impact: 'medium' as const
+    }))
+  }
+
+  private substituteSuggestions(lineItem: LineItem, substitutes: AlternativeRecommendation[]): Suggestion[] {
+    return substitutes.map((substitute, index) => ({
+      id: `${lineItem.id}_sub_${index + 1}`,
+      type: 'product_alternative' as const,
+      confidence: substitute.score,
+      reasoning: substitute.reasoning,
+      original_value: lineItem.extracted_sku || lineItem.raw_description,
+      suggested_value: substitute.product.product_code,
+      business_impact: substitute.business_impact
+    }))
+  }
+
+  private toFlag(error: ValidationError, fieldPath: string): ValidationFlag {
+    return {
+      type: error.type === 'sku_not_found' || error.type === 'invalid_quantity'
+        ? 'missing_data'
+        : 'business_rule_violation',
+      severity: error.severity,
+      message: error.message,
+      field_path: fieldPath,
+      suggested_action: error.auto_fixable ? 'Apply the suggested adjustment' : 'Review with the customer',
+      auto_fixable: error.auto_fixable
+    }
+  }
+
+  private nextActions(invalidItems: InvalidLineItem[], flags: ValidationFlag[]): NextAction[] {
+    if (invalidItems.length === 0) {
+      return [{
+        type: 'auto_approve',
+        priority: 'low',
+        description: 'All line items are valid'
+      }]
+    }
+
+    const critical = flags.some(flag => flag.severity === 'critical')
+    return [{
+      type: 'review_required',
+      priority: critical ? 'urgent' : 'high',
+      description: `${invalidItems.length} line item(s) need attention before approval`
+    }]
+  }
+
+  private uniformConfidence(value: number): ConfidenceVector {
+    return {
+      semantic_clarity: value,
+      data_completeness: value,
+      context_consistency: value,
+      domain_familiarity: value,
+      temporal_stability: value,
+      cultural_accuracy: value,
+      business_viability: value
+    }
+  }
+}
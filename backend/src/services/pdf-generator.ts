@@ -2,14 +2,16 @@ import puppeteer, { Browser, Page } from 'puppeteer'
 import path from 'path'
 import fs from 'fs/promises'
 import { logger } from '../utils/logger'
-import type { Product } from '../../../shared/types/core'
+import { formatMoney } from '../utils/money'
+import type { OrderPricing } from './pricing-engine'
 
 export interface OrderItem {
   product_code: string
   product_name: string
   quantity: number
-  price: number
-  total: number
+  // List unit price; unset for lines the pricing engine could not price
+  price?: number
+  total?: number
   remarks?: string
 }
 
@@ -20,7 +22,14 @@ export interface SalesOrderData {
   delivery_date?: string
   address: string
   items: OrderItem[]
+  subtotal: number
+  discount_total: number
+  // One line per tax charged (e.g. "MwSt 19%"), shown above the total
+  tax_lines: Array<{ label: string, amount: number }>
+  tax_note?: string
   total_amount: number
+  currency: string
+  locale: string
   created_date: string
 }
 
@@ -69,13 +78,15 @@ export class PDFGenerator {
   }
 
   private generateSalesOrderHTML(orderData: SalesOrderData): string {
+    const money = (amount: number) => formatMoney(amount, orderData.currency, orderData.locale)
+
     const itemsHTML = orderData.items.map(item => `
       <tr>
         <td style="border: 1px solid #333; padding: 8px; text-align: center;">${item.product_code}</td>
         <td style="border: 1px solid #333; padding: 8px;">${item.product_name}</td>
         <td style="border: 1px solid #333; padding: 8px; text-align: center;">${item.quantity}</td>
-        <td style="border: 1px solid #333; padding: 8px; text-align: right;">$${item.price.toFixed(2)}</td>
-        <td style="border: 1px solid #333; padding: 8px; text-align: right;">$${item.total.toFixed(2)}</td>
+        <td style="border: 1px solid #333; padding: 8px; text-align: right;">${item.price !== undefined ? money(item.price) : 'On request'}</td>
+        <td style="border: 1px solid #333; padding: 8px; text-align: right;">${item.total !== undefined ? money(item.total) : '—'}</td>
         <td style="border: 1px solid #333; padding: 8px;">${item.remarks || ''}</td>
       </tr>
     `).join('')
@@ -192,10 +203,28 @@ export class PDFGenerator {
             <tbody>
                 ${itemsHTML}
                 ${emptyRowsHTML}
+                ${orderData.discount_total > 0 || orderData.tax_lines.length > 0 ? `
+                <tr>
+                    <td colspan="4" style="border: 1px solid #333; padding: 8px; text-align: right;">Subtotal:</td>
+                    <td style="border: 1px solid #333; padding: 8px; text-align: right;">${money(orderData.subtotal)}</td>
+                    <td style="border: 1px solid #333;">&nbsp;</td>
+                </tr>` : ''}
+                ${orderData.discount_total > 0 ? `
+                <tr>
+                    <td colspan="4" style="border: 1px solid #333; padding: 8px; text-align: right;">Discounts:</td>
+                    <td style="border: 1px solid #333; padding: 8px; text-align: right;">${money(-orderData.discount_total)}</td>
+                    <td style="border: 1px solid #333;">&nbsp;</td>
+                </tr>` : ''}
+                ${orderData.tax_lines.map(tax => `
+                <tr>
+                    <td colspan="4" style="border: 1px solid #333; padding: 8px; text-align: right;">${tax.label}:</td>
+                    <td style="border: 1px solid #333; padding: 8px; text-align: right;">${money(tax.amount)}</td>
+                    <td style="border: 1px solid #333;">&nbsp;</td>
+                </tr>`).join('')}
                 <tr class="total-row">
                     <td colspan="4" style="text-align: right;">Total Sales Order Amount:</td>
-                    <td style="text-align: right;">$${orderData.total_amount.toFixed(2)}</td>
-                    <td>&nbsp;</td>
+                    <td style="text-align: right;">${money(orderData.total_amount)}</td>
+                    <td>${orderData.tax_note || '&nbsp;'}</td>
                 </tr>
             </tbody>
         </table>
@@ -212,26 +241,31 @@ export class PDFGenerator {
   }
 }
 
-// Helper function to convert processed order to PDF data format
+// Helper function to convert processed order to PDF data format; prices come
+// from the pricing engine and unpriced lines are left for sales to quote
 export function convertToPDFFormat(
   processedOrder: any,
   validatedItems: any[] = [],
-  products: Product[] = []
+  pricing?: OrderPricing
 ): SalesOrderData {
-  const items: OrderItem[] = validatedItems.map(item => {
-    const product = products.find(p => p.product_code === item.extracted_sku)
+  const items: OrderItem[] = validatedItems.map((item, index) => {
+    const line = pricing?.lines[index]
+    const discounts = line?.pricing?.discounts_applied || []
+
     return {
       product_code: item.extracted_sku || 'N/A',
-      product_name: product?.product_name || item.raw_description,
+      product_name: line?.product_name || item.raw_description,
       quantity: item.quantity || 1,
-      price: product?.price || 0,
-      total: (product?.price || 0) * (item.quantity || 1),
-      remarks: item.special_notes || ''
+      price: line?.list_price,
+      total: line?.pricing?.total_price,
+      remarks: [
+        item.special_notes,
+        ...discounts.map(applied => `${applied.description} -${applied.percentage}%`),
+        line?.unpriced_reason
+      ].filter(Boolean).join('; ')
     }
   })
 
-  const total_amount = items.reduce((sum, item) => sum + item.total, 0)
-
   return {
     order_id: processedOrder.id || `ORD-${Date.now()}`,
     customer_name: processedOrder.customer_info?.name || 'Unknown Customer',
@@ -240,7 +274,13 @@ export function convertToPDFFormat(
     address: processedOrder.delivery_info?.formatted_address || 
              processedOrder.delivery_info?.address || 'Address not provided',
     items,
-    total_amount,
+    subtotal: pricing?.subtotal || 0,
+    discount_total: pricing?.discount_total || 0,
+    tax_lines: (pricing?.tax_lines || []).map(tax => ({ label: `${tax.label} (${tax.jurisdiction})`, amount: tax.amount })),
+    tax_note: pricing?.tax_note,
+    total_amount: pricing?.grand_total || 0,
+    currency: pricing?.currency || 'USD',
+    locale: pricing?.locale || 'en-US',
     created_date: new Date().toLocaleString()
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import type { Product } from '../../../shared/types/core'
+import { CurrencyService } from './currency-service'
+import { PricingEngine, type PricingRules } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { TaxService } from './tax-service'
+
+const RULES: PricingRules = {
+  version: 1,
+  currency: 'USD',
+  stacking: { mode: 'compound', max_discount_percentage: 25 },
+  quantity_breaks: [
+    { id: 'volume-10', min_quantity: 10, percentage: 3, priority: 10 },
+    { id: 'volume-25', min_quantity: 25, percentage: 5, priority: 10 },
+    { id: 'desk-fitout', category: 'DSK', min_quantity: 10, percentage: 7, priority: 10 }
+  ],
+  customer_tiers: [
+    { tier: 'gold', min_total_spent: 50000, percentage: 5, priority: 20 },
+    { tier: 'repeat', min_order_count: 2, percentage: 1, priority: 20 }
+  ],
+  promotions: [
+    {
+      id: 'desk-sale',
+      type: 'seasonal',
+      description: 'June desk sale',
+      categories: ['DSK'],
+      percentage: 10,
+      starts_at: '2025-06-01',
+      ends_at: '2025-06-30',
+      priority: 30
+    },
+    {
+      id: 'sofa-clearance',
+      type: 'promotional',
+      description: 'Sofa clearance',
+      categories: ['SFA'],
+      percentage: 20,
+      priority: 40,
+      stackable: false
+    }
+  ]
+}
+
+const CURRENCIES = new CurrencyService({
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.88, JPY: 143.5 },
+  countries: { DE: { currency: 'EUR', locale: 'de-DE' } }
+})
+
+const GOLD = { order_count: 3, total_spent: 60000 }
+const OUTSIDE_PROMOTIONS = new Date('2025-01-15T12:00:00Z')
+const DURING_DESK_SALE = new Date('2025-06-15T12:00:00Z')
+
+function product(code: string, price: number): Product {
+  return {
+    product_code: code,
+    product_name: `Test ${code}`,
+    price,
+    available_in_stock: 100,
+    min_order_quantity: 1,
+    description: '',
+    category: { code: code.slice(0, 3), name: code.slice(0, 3) },
+    attributes: { tags: [] }
+  }
+}
+
+function engine(rules: PricingRules = RULES) {
+  return new PricingEngine(new ProductCatalogService(), CURRENCIES, new TaxService(), rules)
+}
+
+describe('PricingEngine', () => {
+  const desk = product('DSK-9001', 100)
+
+  it('applies only the most generous quantity break a line qualifies for', () => {
+    const pricing = engine().priceLine(desk, 30, { date: OUTSIDE_PROMOTIONS })
+
+    expect(pricing.discounts_applied.map(discount => [discount.type, discount.percentage])).toEqual([['bulk', 7]])
+    expect(pricing.total_price).toBe(2790)
+    expect(pricing.unit_price).toBe(93)
+  })
+
+  it('compounds discounts from the highest priority down', () => {
+    const pricing = engine().priceLine(desk, 30, { customer: GOLD, date: DURING_DESK_SALE })
+
+    // 3000 - 10% = 2700, - 5% = 2565, - 7% = 2385.45
+    expect(pricing.discounts_applied.map(discount => [discount.type, discount.amount])).toEqual([
+      ['seasonal', 300],
+      ['customer_tier', 135],
+      ['bulk', 179.55]
+    ])
+    expect(pricing.total_price).toBe(2385.45)
+  })
+
+  it('scales additive discounts down to the cap', () => {
+    const rules: PricingRules = { ...RULES, stacking: { mode: 'additive', max_discount_percentage: 15 } }
+    const pricing = engine(rules).priceLine(desk, 30, { customer: GOLD, date: DURING_DESK_SALE })
+
+    // 10% + 5% + 7% = 22% of 3000, capped at 15%
+    expect(pricing.total_price).toBe(2550)
+    expect(pricing.discounts_applied.every(discount => discount.description.endsWith('(capped at 15% total)'))).toBe(true)
+  })
+
+  it('applies a non-stackable promotion on its own', () => {
+    const pricing = engine().priceLine(product('SFA-9001', 500), 1, { customer: GOLD, date: OUTSIDE_PROMOTIONS })
+
+    expect(pricing.discounts_applied.map(discount => discount.description)).toEqual(['Sofa clearance'])
+    expect(pricing.total_price).toBe(400)
+  })
+
+  it('converts to the billing currency and rounds to its minor unit', () => {
+    expect(engine().priceLine(desk, 1, { currency: 'EUR', date: OUTSIDE_PROMOTIONS }))
+      .toMatchObject({ unit_price: 88, total_price: 88, currency: 'EUR' })
+    expect(engine().priceLine(product('DSK-9002', 99.99), 1, { currency: 'JPY', date: OUTSIDE_PROMOTIONS }))
+      .toMatchObject({ total_price: 14349, currency: 'JPY' })
+  })
+
+  it('picks the first tier a customer qualifies for', () => {
+    expect(engine().tierFor(GOLD)?.tier).toBe('gold')
+    expect(engine().tierFor({ order_count: 2, total_spent: 100 })?.tier).toBe('repeat')
+    expect(engine().tierFor({ order_count: 1, total_spent: 100 })).toBeNull()
+  })
+
+  it('suggests the next quantity break that beats the current one', () => {
+    expect(engine().nextQuantityBreak(desk, 5)?.id).toBe('desk-fitout')
+    expect(engine().nextQuantityBreak(desk, 10)).toBeNull()
+  })
+
+  it('totals an order with tax and counts unpriced lines', async () => {
+    const pricing = await engine().priceOrder([
+      { sku: 'DSK-0001', quantity: 2 },
+      { sku: 'nope-1', quantity: 1 },
+      { quantity: 3 }
+    ], { date: OUTSIDE_PROMOTIONS, destination: { country: 'US', region: 'CA' } })
+
+    // DSK-0001 lists at 902.78
+    expect(pricing).toMatchObject({
+      subtotal: 1805.56,
+      total: 1805.56,
+      tax_total: 130.9,
+      grand_total: 1936.46,
+      unpriced_count: 2
+    })
+    expect(pricing.tax_lines.map(line => line.label)).toEqual(['Sales tax 7.25%'])
+    expect(pricing.lines.map(line => line.unpriced_reason)).toEqual([undefined, 'Unknown SKU NOPE-1', 'No SKU'])
+  })
+})
@@ -0,0 +1,353 @@
+import fs from 'fs'
+import path from 'path'
+import type { Discount, PricingInfo, Product } from '../../../shared/types/core'
+import type { CustomerRecord, OrderRecord } from '../repositories'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { CurrencyService } from './currency-service'
+import type { Destination, TaxLine, TaxService } from './tax-service'
+import { roundMoney } from '../utils/money'
+import { logger } from '../utils/logger'
+
+interface RuleOrdering {
+  // Higher priorities are applied first
+  priority?: number
+  // false: only applies on its own, and then nothing else does
+  stackable?: boolean
+}
+
+/**
+ * Unit-count threshold for a product, a category or (neither set) everything
+ */
+export interface QuantityBreakRule extends RuleOrdering {
+  id: string
+  description?: string
+  sku?: string
+  category?: string
+  min_quantity: number
+  percentage: number
+}
+
+/**
+ * Tier earned from a customer's approved order history; every minimum must be met
+ */
+export interface CustomerTierRule extends RuleOrdering {
+  tier: string
+  description?: string
+  min_order_count?: number
+  min_total_spent?: number
+  percentage: number
+}
+
+/**
+ * Date-bounded discount on products or categories (neither set: everything)
+ */
+export interface PromotionRule extends RuleOrdering {
+  id: string
+  type: 'seasonal' | 'promotional'
+  description: string
+  skus?: string[]
+  categories?: string[]
+  percentage: number
+  // Inclusive ISO dates
+  starts_at?: string
+  ends_at?: string
+}
+
+export interface PricingRules {
+  version: number
+  // Currency of the catalog list prices
+  currency: string
+  stacking: {
+    // compound: each discount applies to the already discounted price
+    mode: 'compound' | 'additive'
+    max_discount_percentage?: number
+  }
+  quantity_breaks: QuantityBreakRule[]
+  customer_tiers: CustomerTierRule[]
+  promotions: PromotionRule[]
+}
+
+export interface PricingContext {
+  customer?: Pick<CustomerRecord, 'order_count' | 'total_spent' | 'tax_exempt' | 'tax_id'> | null
+  date?: Date
+  // Billing currency; list currency when unset
+  currency?: string
+  // Tax is only calculated when a destination is given
+  destination?: Destination
+}
+
+export interface PricedLine {
+  index: number
+  sku?: string
+  quantity?: number
+  product_name?: string
+  // Catalog unit price converted to the billing currency
+  list_price?: number
+  pricing?: PricingInfo
+  // Why the line has no price (no SKU, unknown SKU, no quantity)
+  unpriced_reason?: string
+}
+
+export interface OrderPricing {
+  lines: PricedLine[]
+  subtotal: number
+  discount_total: number
+  // Net of discounts, before tax
+  total: number
+  tax_lines: TaxLine[]
+  tax_total: number
+  grand_total: number
+  tax_note?: string
+  currency: string
+  // For formatting amounts in the destination's conventions
+  locale: string
+  destination?: Destination
+  customer_tier?: string
+  unpriced_count: number
+}
+
+interface DiscountCandidate extends RuleOrdering {
+  type: Discount['type']
+  percentage: number
+  description: string
+}
+
+export const DEFAULT_PRICING_RULES_PATH = path.join(process.cwd(), '../data/pricing-rules.json')
+
+const NO_RULES: PricingRules = {
+  version: 0,
+  currency: 'USD',
+  stacking: { mode: 'compound' },
+  quantity_breaks: [],
+  customer_tiers: [],
+  promotions: []
+}
+
+/**
+ * Read the pricing rules file; without one every product sells at list price
+ */
+export function loadPricingRules(file: string = process.env.PRICING_RULES_PATH || DEFAULT_PRICING_RULES_PATH): PricingRules {
+  if (!fs.existsSync(file)) {
+    logger.warn('Pricing rules file not found, using list prices', { file })
+    return NO_RULES
+  }
+
+  try {
+    const rules = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<PricingRules>
+    return {
+      ...NO_RULES,
+      ...rules,
+      stacking: { ...NO_RULES.stacking, ...rules.stacking }
+    }
+  } catch (error) {
+    logger.error('Failed to load pricing rules, using list prices', { file, error })
+    return NO_RULES
+  }
+}
+
+/**
+ * Prices order lines from catalog list prices and the configured rules:
+ * the best quantity break per line, the customer's tier and any running
+ * promotions, combined according to the stacking rules. Amounts are
+ * converted to the billing currency and taxed by destination.
+ */
+export class PricingEngine {
+  constructor(
+    private catalog: ProductCatalogService,
+    private currencies: CurrencyService,
+    private taxes: TaxService,
+    private rules: PricingRules = loadPricingRules()
+  ) {}
+
+  // Currency of the catalog list prices
+  get currency(): string {
+    return this.rules.currency
+  }
+
+  /**
+   * Currency an order is billed in: the customer's, else the destination country's
+   */
+  billingCurrency(customer?: Pick<CustomerRecord, 'currency'> | null, deliveryAddress?: string | null): string {
+    return this.currencies.billingCurrency(customer?.currency, this.taxes.destinationOf(deliveryAddress).country)
+  }
+
+  /**
+   * Context for pricing a stored order: its billing currency and destination
+   */
+  contextFor(
+    order: Pick<OrderRecord, 'currency' | 'delivery_address'>,
+    customer?: CustomerRecord | null
+  ): PricingContext {
+    return {
+      customer,
+      currency: order.currency || this.billingCurrency(customer, order.delivery_address),
+      destination: this.taxes.destinationOf(order.delivery_address)
+    }
+  }
+
+  /**
+   * Tier the customer qualifies for; tiers are checked in the order listed
+   */
+  tierFor(customer?: PricingContext['customer']): CustomerTierRule | null {
+    if (!customer) return null
+    return this.rules.customer_tiers.find(tier =>
+      customer.order_count >= (tier.min_order_count ?? 0) &&
+      customer.total_spent >= (tier.min_total_spent ?? 0)
+    ) || null
+  }
+
+  /**
+   * Smallest quantity break above `quantity` that beats the best one the line
+   * already gets, if any
+   */
+  nextQuantityBreak(product: Product, quantity: number): QuantityBreakRule | null {
+    const applicable = this.rules.quantity_breaks
+      .filter(rule => rule.sku ? rule.sku === product.product_code : !rule.category || rule.category === product.category.code)
+    const current = Math.max(0, ...applicable.filter(rule => quantity >= rule.min_quantity).map(rule => rule.percentage))
+    return applicable
+      .filter(rule => rule.min_quantity > quantity && rule.percentage > current)
+      .sort((a, b) => a.min_quantity - b.min_quantity || b.percentage - a.percentage)[0] || null
+  }
+
+  priceLine(product: Product, quantity: number, context: PricingContext = {}): PricingInfo {
+    const currency = context.currency || this.rules.currency
+    const convert = (amount: number) => this.currencies.convertExact(amount, this.rules.currency, currency)
+
+    const gross = product.price * quantity
+    const discounts = this.applyStacking(this.candidates(product, quantity, context), gross)
+      .map(discount => ({ ...discount, amount: roundMoney(convert(discount.amount), currency) }))
+    const discounted = discounts.reduce((sum, discount) => sum + discount.amount, 0)
+    const total = roundMoney(convert(gross) - discounted, currency)
+
+    return {
+      unit_price: roundMoney(total / quantity, currency),
+      total_price: total,
+      currency,
+      discounts_applied: discounts
+    }
+  }
+
+  async priceOrder(
+    items: Array<{ sku?: string, extracted_sku?: string, quantity?: number | string }>,
+    context: PricingContext = {}
+  ): Promise<OrderPricing> {
+    const currency = context.currency || this.rules.currency
+    const lines: PricedLine[] = []
+
+    for (const [index, item] of items.entries()) {
+      const sku = (item.extracted_sku || item.sku)?.trim().toUpperCase()
+      const quantity = typeof item.quantity === 'string' ? parseInt(item.quantity) : item.quantity
+      const line: PricedLine = { index, sku, quantity: Number.isFinite(quantity) ? quantity : undefined }
+
+      const product = sku ? await this.catalog.findBySKU(sku) : null
+      if (!sku) {
+        line.unpriced_reason = 'No SKU'
+      } else if (!product) {
+        line.unpriced_reason = `Unknown SKU ${sku}`
+      } else if (!line.quantity || line.quantity <= 0) {
+        line.product_name = product.product_name
+        line.unpriced_reason = 'No quantity'
+      } else {
+        line.product_name = product.product_name
+        line.list_price = roundMoney(this.currencies.convertExact(product.price, this.rules.currency, currency), currency)
+        line.pricing = this.priceLine(product, line.quantity, context)
+      }
+
+      lines.push(line)
+    }
+
+    const priced = lines.filter(line => line.pricing)
+    const subtotal = roundMoney(priced.reduce((sum, line) => sum + line.list_price! * line.quantity!, 0), currency)
+    const total = roundMoney(priced.reduce((sum, line) => sum + line.pricing!.total_price, 0), currency)
+    const tax = context.destination
+      ? this.taxes.calculate(total, currency, context.destination, context.customer)
+      : { lines: [], total: 0 }
+
+    return {
+      lines,
+      subtotal,
+      discount_total: roundMoney(subtotal - total, currency),
+      total,
+      tax_lines: tax.lines,
+      tax_total: tax.total,
+      grand_total: roundMoney(total + tax.total, currency),
+      tax_note: tax.note,
+      currency,
+      locale: this.currencies.localeFor(context.destination?.country),
+      destination: context.destination,
+      customer_tier: this.tierFor(context.customer)?.tier,
+      unpriced_count: lines.length - priced.length
+    }
+  }
+
+  // Private helper methods
+
+  private candidates(product: Product, quantity: number, context: PricingContext): DiscountCandidate[] {
+    const candidates: DiscountCandidate[] = []
+    const category = product.category.code
+
+    // A line gets one quantity break: the most generous it qualifies for
+    const quantityBreak = this.rules.quantity_breaks
+      .filter(rule => quantity >= rule.min_quantity)
+      .filter(rule => rule.sku ? rule.sku === product.product_code : !rule.category || rule.category === category)
+      .sort((a, b) => b.percentage - a.percentage)[0]
+    if (quantityBreak) {
+      candidates.push({
+        ...quantityBreak,
+        type: 'bulk',
+        description: quantityBreak.description || `Quantity discount (${quantityBreak.min_quantity}+ units)`
+      })
+    }
+
+    const tier = this.tierFor(context.customer)
+    if (tier) {
+      candidates.push({ ...tier, type: 'customer_tier', description: tier.description || `${tier.tier} customer` })
+    }
+
+    const day = (context.date || new Date()).toISOString().slice(0, 10)
+    for (const promotion of this.rules.promotions) {
+      if (promotion.starts_at && day < promotion.starts_at) continue
+      if (promotion.ends_at && day > promotion.ends_at) continue
+      const targeted = promotion.skus || promotion.categories
+      if (targeted && !promotion.skus?.includes(product.product_code) && !promotion.categories?.includes(category)) continue
+      candidates.push(promotion)
+    }
+
+    return candidates
+  }
+
+  private applyStacking(candidates: DiscountCandidate[], gross: number): Discount[] {
+    const ordered = [...candidates].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    const selected: DiscountCandidate[] = []
+    for (const candidate of ordered) {
+      if (candidate.stackable === false) {
+        if (selected.length === 0) {
+          selected.push(candidate)
+          break
+        }
+        continue
+      }
+      selected.push(candidate)
+    }
+
+    let remaining = gross
+    const discounts: Discount[] = selected.map(candidate => {
+      const base = this.rules.stacking.mode === 'compound' ? remaining : gross
+      const amount = base * candidate.percentage / 100
+      remaining -= amount
+      return { type: candidate.type, percentage: candidate.percentage, amount, description: candidate.description }
+    })
+
+    // Scale every discount down proportionally to stay within the cap
+    const cap = this.rules.stacking.max_discount_percentage
+    const total = gross - remaining
+    const limit = cap !== undefined ? gross * cap / 100 : Infinity
+    const scale = total > limit ? limit / total : 1
+
+    return discounts.map(discount => ({
+      ...discount,
+      amount: discount.amount * scale,
+      description: scale < 1 ? `${discount.description} (capped at ${cap}% total)` : discount.description
+    }))
+  }
+}
@@ -3,6 +3,7 @@ import * as path from 'path';
 import type { Product, ProductCategory, ProductAttributes } from '../../../shared/types/core';
 import { logger } from '../utils/logger';
 import { CacheService } from './cache-service';
+import { normalizeForMatching, similarity } from '../utils/text';
 
 interface ProductSearchResult {
   products: Product[];
@@ -10,16 +11,66 @@ interface ProductSearchResult {
   confidence_scores: number[];
 }
 
-interface ProductMatch {
+export interface ProductMatch {
   product: Product;
   confidence: number;
   match_type: 'exact_sku' | 'partial_sku' | 'name_match' | 'fuzzy_match';
   match_field: string;
 }
 
+interface ProductNameIndex {
+  product: Product;
+  normalized_name: string;
+  type_word: string;
+  brand: string;
+  number?: string;
+}
+
+// Leading words customers use for each catalog prefix (names are "<Type> <BRAND> <number>")
+const CATEGORY_KEYWORDS = new Map<string, string[]>(Object.entries({
+  bed: ['BDF'],
+  beds: ['BDF'],
+  bookshelf: ['BSF'],
+  bookshelves: ['BSF'],
+  bookcase: ['BSF'],
+  bar: ['BST'],
+  stool: ['BST'],
+  stools: ['BST'],
+  coffee: ['CFT'],
+  console: ['CST'],
+  desk: ['DSK', 'CHR'],
+  desks: ['DSK', 'CHR'],
+  dining: ['DCH', 'DTB'],
+  chair: ['CHR', 'DCH', 'ODC', 'OFC'],
+  chairs: ['CHR', 'DCH', 'ODC', 'OFC'],
+  table: ['CFT', 'CST', 'DTB', 'ODT'],
+  tables: ['CFT', 'CST', 'DTB', 'ODT'],
+  loveseat: ['LVS'],
+  loveseats: ['LVS'],
+  nightstand: ['NST'],
+  nightstands: ['NST'],
+  outdoor: ['ODC', 'ODT'],
+  office: ['OFC'],
+  ottoman: ['OTM'],
+  ottomans: ['OTM'],
+  recliner: ['RCL'],
+  recliners: ['RCL'],
+  sideboard: ['SDB'],
+  sideboards: ['SDB'],
+  sofa: ['SFA'],
+  sofas: ['SFA'],
+  couch: ['SFA'],
+  tv: ['TVS'],
+  wardrobe: ['WRD'],
+  wardrobes: ['WRD']
+}));
+
+const SKU_PATTERN = /\b([a-z]{3})-?(\d{4})\b/i;
+
 export class ProductCatalogService {
   private products: Product[] = [];
   private categories: Map<string, ProductCategory> = new Map();
+  private nameIndex: ProductNameIndex[] = [];
   private cache: CacheService;
   private loaded = false;
 
@@ -53,6 +104,7 @@ export class ProductCatalogService {
           if (values.length >= 6) {
             const product = this.parseProduct(values);
             this.products.push(product);
+            this.nameIndex.push(this.indexProductName(product));
             
             // Track categories
             if (!this.categories.has(product.category.code)) {
@@ -95,6 +147,36 @@ export class ProductCatalogService {
     };
   }
 
+  /**
+   * Match a free-text line item ("9 x Coffee STRADAL 620") against the full
+   * catalog using SKU codes, brand token + number and the category prefix
+   */
+  async matchProducts(phrase: string, limit: number = 5): Promise<ProductMatch[]> {
+    await this.ensureLoaded();
+
+    const skuMatch = phrase.match(SKU_PATTERN);
+    if (skuMatch) {
+      const product = await this.findBySKU(`${skuMatch[1]}-${skuMatch[2]}`);
+      if (product) {
+        return [{ product, confidence: 1.0, match_type: 'exact_sku', match_field: 'product_code' }];
+      }
+    }
+
+    const normalized = normalizeForMatching(phrase);
+    if (!normalized) return [];
+
+    const tokens = normalized.split(' ');
+    const numbers = tokens.filter(token => /^\d+$/.test(token));
+    const words = tokens.filter(token => /^[a-z]{3,}$/.test(token) && !CATEGORY_KEYWORDS.has(token));
+    const categoryCodes = new Set(tokens.flatMap(token => CATEGORY_KEYWORDS.get(token) || []));
+
+    return this.nameIndex
+      .map(entry => this.scoreNameMatch(entry, normalized, words, numbers, categoryCodes))
+      .filter((match): match is ProductMatch => match !== null)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
   /**
    * Find exact product by SKU
    */
@@ -151,9 +233,10 @@ export class ProductCatalogService {
   }
 
   /**
-   * Validate product availability and MOQ
+   * Validate product availability and MOQ; `available` overrides the catalog
+   * stock count (pass the available-to-promise quantity)
    */
-  async validateOrder(sku: string, quantity: number): Promise<{
+  async validateOrder(sku: string, quantity: number, available?: number): Promise<{
     valid: boolean;
     product?: Product;
     issues: string[];
@@ -178,11 +261,12 @@ export class ProductCatalogService {
     }
 
     // Check stock availability
-    if (product.available_in_stock === 0) {
+    const inStock = available ?? product.available_in_stock;
+    if (inStock === 0) {
       issues.push(`Product "${sku}" is out of stock`);
-    } else if (quantity > product.available_in_stock) {
-      issues.push(`Insufficient stock. Requested: ${quantity}, Available: ${product.available_in_stock}`);
-      suggestions.push(`Consider reducing quantity to ${product.available_in_stock} or less`);
+    } else if (quantity > inStock) {
+      issues.push(`Insufficient stock. Requested: ${quantity}, Available: ${inStock}`);
+      suggestions.push(`Consider reducing quantity to ${inStock} or less`);
     }
 
     // Check MOQ
@@ -291,7 +375,19 @@ export class ProductCatalogService {
       'BSF': 'Bookshelves',
       'SFA': 'Sofas',
       'CFT': 'Coffee Tables',
-      'TVS': 'TV Stands'
+      'TVS': 'TV Stands',
+      'BDF': 'Beds',
+      'BST': 'Bar Stools',
+      'CST': 'Console Tables',
+      'LVS': 'Loveseats',
+      'NST': 'Nightstands',
+      'ODC': 'Outdoor Chairs',
+      'ODT': 'Outdoor Tables',
+      'OFC': 'Office Chairs',
+      'OTM': 'Ottomans',
+      'RCL': 'Recliners',
+      'SDB': 'Sideboards',
+      'WRD': 'Wardrobes'
     };
     
     return categoryMap[code] || 'Unknown';
@@ -315,6 +411,57 @@ export class ProductCatalogService {
     return tags;
   }
 
+  private indexProductName(product: Product): ProductNameIndex {
+    const normalizedName = normalizeForMatching(product.product_name);
+    const [typeWord = '', brand = '', number] = normalizedName.split(' ');
+
+    return {
+      product,
+      normalized_name: normalizedName,
+      type_word: typeWord,
+      brand,
+      number: number && /^\d+$/.test(number) ? number : undefined
+    };
+  }
+
+  private scoreNameMatch(
+    entry: ProductNameIndex,
+    normalizedPhrase: string,
+    words: string[],
+    numbers: string[],
+    categoryCodes: Set<string>
+  ): ProductMatch | null {
+    const categoryKnown = categoryCodes.size > 0;
+    const categoryAgrees = !categoryKnown || categoryCodes.has(entry.product.category.code);
+    const numberMatches = entry.number !== undefined && numbers.includes(entry.number);
+    const brandSimilarity = words.reduce((best, word) => Math.max(best, similarity(word, entry.brand)), 0);
+
+    // Full catalog name present verbatim (after folding)
+    if (` ${normalizedPhrase} `.includes(` ${entry.normalized_name} `)) {
+      return { product: entry.product, confidence: 0.98, match_type: 'name_match', match_field: 'product_name' };
+    }
+
+    if (brandSimilarity === 1 && numberMatches) {
+      const confidence = !categoryKnown ? 0.9 : categoryAgrees ? 0.95 : 0.75;
+      return { product: entry.product, confidence, match_type: 'name_match', match_field: 'product_name' };
+    }
+
+    if (brandSimilarity >= 0.75 && numberMatches) {
+      const confidence = (categoryAgrees ? 0.6 : 0.45) + (brandSimilarity - 0.75);
+      return { product: entry.product, confidence, match_type: 'fuzzy_match', match_field: 'product_name' };
+    }
+
+    if (brandSimilarity === 1 && categoryKnown && categoryAgrees) {
+      return { product: entry.product, confidence: 0.5, match_type: 'fuzzy_match', match_field: 'product_name' };
+    }
+
+    if (numberMatches && categoryKnown && categoryAgrees) {
+      return { product: entry.product, confidence: 0.35, match_type: 'fuzzy_match', match_field: 'product_name' };
+    }
+
+    return null;
+  }
+
   private calculateMatchConfidence(product: Product, query: string): number {
     const queryLower = query.toLowerCase();
     let confidence = 0;
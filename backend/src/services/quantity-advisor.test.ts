@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { Product } from '../../../shared/types/core'
+import { InMemoryInventoryRepository } from '../repositories'
+import { CurrencyService } from './currency-service'
+import { InventoryService } from './inventory-service'
+import { PricingEngine, type PricingRules } from './pricing-engine'
+import { ProductCatalogService } from './product-catalog-service'
+import { QuantityAdjustmentError, QuantityAdvisor, type QuantityRules } from './quantity-advisor'
+import { TaxService } from './tax-service'
+
+const PRICING: PricingRules = {
+  version: 1,
+  currency: 'USD',
+  stacking: { mode: 'compound' },
+  quantity_breaks: [{ id: 'volume-10', min_quantity: 10, percentage: 3 }],
+  customer_tiers: [],
+  promotions: []
+}
+
+const RULES: QuantityRules = {
+  version: 1,
+  category_pack_sizes: { DCH: 2 },
+  sku_pack_sizes: { 'DSK-0002': 4 },
+  price_break_reach: 0.2,
+  auto_fixable: ['moq_round_up', 'pack_multiple'],
+  auto_apply: { enabled: true, max_business_impact: 'low' }
+}
+
+function product(code: string, minOrderQuantity = 1): Product {
+  return {
+    product_code: code,
+    product_name: `Test ${code}`,
+    price: 100,
+    available_in_stock: 100,
+    min_order_quantity: minOrderQuantity,
+    description: '',
+    category: { code: code.slice(0, 3), name: code.slice(0, 3) },
+    attributes: { tags: [] }
+  }
+}
+
+describe('QuantityAdvisor', () => {
+  const catalog = new ProductCatalogService()
+  const pricing = new PricingEngine(catalog, new CurrencyService(), new TaxService(), PRICING)
+  let inventory: InventoryService
+  let advisor: QuantityAdvisor
+
+  beforeEach(() => {
+    inventory = new InventoryService(new InMemoryInventoryRepository(), catalog)
+    advisor = new QuantityAdvisor(catalog, inventory, pricing, RULES)
+  })
+
+  describe('adjustments', () => {
+    it('rounds up to the minimum order in whole packs', () => {
+      const [suggestion] = advisor.adjustments('item_1', 0, product('DCH-9001', 5), 3, 100)
+
+      expect(suggestion).toMatchObject({
+        id: 'item_1_qty_moq_round_up',
+        type: 'quantity_adjustment',
+        field_path: 'line_items[0].quantity',
+        original_value: 3,
+        suggested_value: 6,
+        reasoning: '3 → 6: DCH-9001 has a minimum order of 5 and ships in packs of 2',
+        business_impact: 'high',
+        auto_fixable: true
+      })
+    })
+
+    it('rounds up to a whole pack', () => {
+      expect(advisor.adjustments('item_1', 0, product('DCH-9001'), 5, 100)).toMatchObject([
+        { adjustment: 'pack_multiple', suggested_value: 6, business_impact: 'medium' }
+      ])
+    })
+
+    it('caps at what can be promised and never calls that low impact', () => {
+      expect(advisor.adjustments('item_1', 0, product('DSK-9001'), 20, 12)).toMatchObject([
+        { adjustment: 'stock_cap', suggested_value: 12, business_impact: 'medium', auto_fixable: false }
+      ])
+      expect(advisor.adjustments('item_1', 0, product('DSK-9001'), 20, 19)).toMatchObject([
+        { adjustment: 'stock_cap', suggested_value: 19, business_impact: 'medium' }
+      ])
+    })
+
+    it('suggests topping up to a quantity break within reach', () => {
+      expect(advisor.adjustments('item_1', 0, product('DSK-9001'), 9, 100)).toMatchObject([{
+        adjustment: 'price_break',
+        suggested_value: 10,
+        confidence: 0.6,
+        reasoning: '9 → 10: 1 more unit unlocks the 10+ unit discount, 3% off: unit price $97.00 instead of $100.00'
+      }])
+      // Too far from the break, or not enough stock to reach it
+      expect(advisor.adjustments('item_1', 0, product('DSK-9001'), 7, 100)).toEqual([])
+      expect(advisor.adjustments('item_1', 0, product('DSK-9001'), 9, 9)).toEqual([])
+    })
+  })
+
+  describe('suggest and apply', () => {
+    // DSK-0004 has an MOQ of 10 and 83 units in stock
+    it('advises on catalog lines and applies an accepted suggestion', async () => {
+      const items = [{ sku: 'DSK-0004', quantity: 3 }, { sku: 'NOPE-0000', quantity: 1 }, { description: 'Gift wrap' }]
+
+      const suggestions = await advisor.suggest('o1', items)
+
+      expect(suggestions).toHaveLength(1)
+      expect(suggestions[0]).toMatchObject({ id: 'item_1_qty_moq_round_up', suggested_value: 10 })
+      expect(advisor.apply(items, suggestions[0])[0]).toEqual({ sku: 'DSK-0004', quantity: 10 })
+    })
+
+    it('refuses a suggestion for a line that has changed since', async () => {
+      const [suggestion] = await advisor.suggest('o1', [{ sku: 'DSK-0004', quantity: 3 }])
+
+      expect(() => advisor.apply([{ sku: 'DSK-0004', quantity: 4 }], suggestion)).toThrow(QuantityAdjustmentError)
+    })
+  })
+
+  describe('autoApply', () => {
+    it('applies low-impact auto-fixable adjustments and advises on the result', async () => {
+      // DSK-0002 ships in packs of 4
+      const result = await advisor.autoApply(undefined, [{ sku: 'DSK-0002', quantity: 39 }, { sku: 'DSK-0004', quantity: 3 }])
+
+      expect(result.items).toEqual([{ sku: 'DSK-0002', quantity: 40 }, { sku: 'DSK-0004', quantity: 3 }])
+      expect(result.applied.map(suggestion => suggestion.adjustment)).toEqual(['pack_multiple'])
+      // The high-impact MOQ fix is left for the reviewer
+      expect(result.suggestions.map(suggestion => suggestion.adjustment)).toEqual(['moq_round_up'])
+    })
+
+    it('applies nothing when the policy is off', async () => {
+      const off = new QuantityAdvisor(catalog, inventory, pricing, { ...RULES, auto_apply: { enabled: false, max_business_impact: 'low' } })
+
+      const result = await off.autoApply(undefined, [{ sku: 'DSK-0002', quantity: 39 }])
+
+      expect(result.applied).toEqual([])
+      expect(result.items[0].quantity).toBe(39)
+    })
+  })
+})
@@ -0,0 +1,256 @@
+import fs from 'fs'
+import path from 'path'
+import type { Product, QuantityAdjustmentKind, Suggestion } from '../../../shared/types/core'
+import type { ProductCatalogService } from './product-catalog-service'
+import type { InventoryService } from './inventory-service'
+import type { PricingContext, PricingEngine } from './pricing-engine'
+import { formatMoney } from '../utils/money'
+import { logger } from '../utils/logger'
+
+export interface QuantityRules {
+  version: number
+  // Units per pack; SKU entries override the category
+  category_pack_sizes: Record<string, number>
+  sku_pack_sizes: Record<string, number>
+  // Suggest topping up to a quantity break at most this fraction away
+  price_break_reach: number
+  // Kinds a policy may apply without a reviewer
+  auto_fixable: QuantityAdjustmentKind[]
+  auto_apply: {
+    enabled: boolean
+    max_business_impact: Suggestion['business_impact']
+  }
+}
+
+export class QuantityAdjustmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuantityAdjustmentError'
+  }
+}
+
+type AdviceItem = { id?: string, sku?: string, extracted_sku?: string, quantity?: number | string }
+
+export const DEFAULT_QUANTITY_RULES_PATH = path.join(process.cwd(), '../data/quantity-rules.json')
+
+const NO_RULES: QuantityRules = {
+  version: 0,
+  category_pack_sizes: {},
+  sku_pack_sizes: {},
+  price_break_reach: 0.2,
+  auto_fixable: ['moq_round_up', 'pack_multiple'],
+  auto_apply: { enabled: false, max_business_impact: 'low' }
+}
+
+// Adjustments an order cannot be approved without
+export const REQUIRED_ADJUSTMENTS: QuantityAdjustmentKind[] = ['moq_round_up', 'pack_multiple']
+
+const IMPACT_RANK: Record<Suggestion['business_impact'], number> = { none: 0, low: 1, medium: 2, high: 3 }
+
+const FIELD_PATTERN = /^line_items\[(\d+)\]\.quantity$/
+
+/**
+ * Read the quantity rules; without them products sell in single units and nothing is auto-applied
+ */
+export function loadQuantityRules(file: string = process.env.QUANTITY_RULES_PATH || DEFAULT_QUANTITY_RULES_PATH): QuantityRules {
+  if (!fs.existsSync(file)) {
+    logger.warn('Quantity rules not found, using single-unit packs', { file })
+    return NO_RULES
+  }
+
+  try {
+    const rules = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    return { ...NO_RULES, ...rules, auto_apply: { ...NO_RULES.auto_apply, ...rules.auto_apply } }
+  } catch (error) {
+    logger.error('Failed to load quantity rules, using single-unit packs', { file, error })
+    return NO_RULES
+  }
+}
+
+/**
+ * Structured quantity fixes for order lines: round up to the MOQ or a whole
+ * pack, cap at what can be promised, or top up to the next price break.
+ * Each is a `quantity_adjustment` suggestion on `line_items[i].quantity`;
+ * the rules decide which kinds are auto-fixable and whether low-impact ones
+ * are applied before review.
+ */
+export class QuantityAdvisor {
+  constructor(
+    private catalog: ProductCatalogService,
+    private inventory: InventoryService,
+    private pricing: PricingEngine,
+    private rules: QuantityRules = loadQuantityRules()
+  ) {}
+
+  packSize(product: Product): number {
+    return this.rules.sku_pack_sizes[product.product_code] ?? this.rules.category_pack_sizes[product.category.code] ?? 1
+  }
+
+  /**
+   * Adjustments for one line, given what can be promised to the order
+   */
+  adjustments(
+    lineId: string,
+    index: number,
+    product: Product,
+    quantity: number,
+    available: number,
+    context: PricingContext = {}
+  ): Suggestion[] {
+    const pack = this.packSize(product)
+    const fieldPath = `line_items[${index}].quantity`
+    const adjust = (kind: QuantityAdjustmentKind, to: number, reasoning: string, impact = this.impact(quantity, to)) =>
+      this.toSuggestion(`${lineId}_qty_${kind}`, kind, fieldPath, quantity, to, reasoning, impact)
+    const suggestions: Suggestion[] = []
+
+    let target = quantity
+    if (quantity < product.min_order_quantity) {
+      target = this.roundUp(product.min_order_quantity, pack)
+      suggestions.push(adjust('moq_round_up', target,
+        `${product.product_code} has a minimum order of ${product.min_order_quantity}` +
+        (target > product.min_order_quantity ? ` and ships in packs of ${pack}` : '')))
+    } else if (quantity % pack !== 0) {
+      target = this.roundUp(quantity, pack)
+      suggestions.push(adjust('pack_multiple', target, `${product.product_code} ships in packs of ${pack}`))
+    }
+
+    if (available < target) {
+      const cap = Math.floor(available / pack) * pack
+      if (cap > 0 && cap >= product.min_order_quantity && cap < quantity) {
+        // Fewer units than asked for always needs the customer's say-so
+        const impact = this.impact(quantity, cap)
+        suggestions.push(adjust('stock_cap', cap, `Only ${available} units of ${product.product_code} can be promised now`,
+          impact === 'low' ? 'medium' : impact))
+      }
+      return suggestions
+    }
+
+    const next = this.pricing.nextQuantityBreak(product, target)
+    const reach = next ? this.roundUp(next.min_quantity, pack) : 0
+    if (next && reach <= available && next.min_quantity - target <= next.min_quantity * this.rules.price_break_reach) {
+      const current = this.pricing.priceLine(product, target, context)
+      const topped = this.pricing.priceLine(product, reach, context)
+      suggestions.push(adjust('price_break', reach,
+        `${reach - target} more ${reach - target === 1 ? 'unit unlocks' : 'units unlock'} ` +
+        `${next.description || `the ${next.min_quantity}+ unit discount`}, ${next.percentage}% off: ` +
+        `unit price ${formatMoney(topped.unit_price, topped.currency)} ` +
+        `instead of ${formatMoney(current.unit_price, current.currency)}`))
+    }
+
+    return suggestions
+  }
+
+  /**
+   * Adjustments for every catalog line of an order
+   */
+  async suggest(orderId: string | undefined, items: AdviceItem[], context: PricingContext = {}): Promise<Suggestion[]> {
+    const reserved = orderId ? await this.inventory.reservedFor(orderId) : new Map<string, number>()
+    const suggestions: Suggestion[] = []
+
+    for (const [index, item] of items.entries()) {
+      const sku = String(item.extracted_sku || item.sku || '').trim().toUpperCase()
+      const quantity = Number(item.quantity)
+      if (!sku || !Number.isFinite(quantity) || quantity <= 0) continue
+
+      const product = await this.catalog.findBySKU(sku)
+      if (!product) continue
+
+      const level = await this.inventory.level(product.product_code)
+      const available = (level?.available ?? 0) + (reserved.get(product.product_code) ?? 0)
+      suggestions.push(...this.adjustments(item.id || `item_${index + 1}`, index, product, quantity, available, context))
+    }
+
+    return suggestions
+  }
+
+  /**
+   * Line items with the suggestion applied; refuses when the line changed since
+   */
+  apply<T extends AdviceItem>(items: T[], suggestion: Suggestion): T[] {
+    const index = Number(suggestion.field_path?.match(FIELD_PATTERN)?.[1] ?? NaN)
+    if (suggestion.type !== 'quantity_adjustment' || !items[index]) {
+      throw new QuantityAdjustmentError(`Suggestion ${suggestion.id} is not a quantity adjustment of this order`)
+    }
+    if (Number(items[index].quantity) !== Number(suggestion.original_value)) {
+      throw new QuantityAdjustmentError(
+        `Line ${index + 1} is now ${items[index].quantity}, not ${suggestion.original_value}; re-check the suggestion`
+      )
+    }
+
+    return items.map((item, i) => i === index ? { ...item, quantity: suggestion.suggested_value } : item)
+  }
+
+  /**
+   * Whether policy lets this suggestion be applied before review
+   */
+  autoApplies(suggestion: Suggestion): boolean {
+    return this.rules.auto_apply.enabled &&
+      suggestion.auto_fixable === true &&
+      IMPACT_RANK[suggestion.business_impact] <= IMPACT_RANK[this.rules.auto_apply.max_business_impact]
+  }
+
+  /**
+   * Apply every fix policy allows (at most one per line), then advise on the
+   * result
+   */
+  async autoApply<T extends AdviceItem>(
+    orderId: string | undefined,
+    items: T[],
+    context: PricingContext = {}
+  ): Promise<{ items: T[], applied: Suggestion[], suggestions: Suggestion[] }> {
+    const suggestions = await this.suggest(orderId, items, context)
+    const applied: Suggestion[] = []
+    let adjusted = items
+    const lines = new Set<string>()
+
+    for (const suggestion of suggestions) {
+      if (!this.autoApplies(suggestion) || lines.has(suggestion.field_path!)) continue
+      adjusted = this.apply(adjusted, suggestion)
+      applied.push(suggestion)
+      lines.add(suggestion.field_path!)
+    }
+
+    return {
+      items: adjusted,
+      applied,
+      suggestions: applied.length > 0 ? await this.suggest(orderId, adjusted, context) : suggestions
+    }
+  }
+
+  // Private helper methods
+
+  private toSuggestion(
+    id: string,
+    kind: QuantityAdjustmentKind,
+    fieldPath: string,
+    from: number,
+    to: number,
+    reasoning: string,
+    impact: Suggestion['business_impact']
+  ): Suggestion {
+    return {
+      id,
+      type: 'quantity_adjustment',
+      confidence: kind === 'price_break' ? 0.6 : 0.9,
+      reasoning: `${from} → ${to}: ${reasoning}`,
+      original_value: from,
+      suggested_value: to,
+      business_impact: impact,
+      field_path: fieldPath,
+      auto_fixable: this.rules.auto_fixable.includes(kind),
+      adjustment: kind
+    }
+  }
+
+  // Share of the requested quantity that changes
+  private impact(from: number, to: number): Suggestion['business_impact'] {
+    const change = Math.abs(to - from) / from
+    if (change <= 0.1) return 'low'
+    if (change <= 0.5) return 'medium'
+    return 'high'
+  }
+
+  private roundUp(quantity: number, pack: number): number {
+    return Math.ceil(quantity / pack) * pack
+  }
+}
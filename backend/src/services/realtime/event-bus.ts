@@ -0,0 +1,44 @@
+import type { OrderRecord } from '../../repositories'
+import type { Job } from '../jobs'
+import type { StockLevel } from '../inventory-service'
+import type { OrderStatus, ValidationResult } from '../../../../shared/types/core'
+import { logger } from '../../utils/logger'
+
+export type SystemEvent =
+  | { type: 'order.created', order: OrderRecord }
+  | { type: 'order.updated', order: OrderRecord }
+  | { type: 'order.status_changed', order: OrderRecord, from: OrderStatus, to: OrderStatus, actor: string }
+  | { type: 'order.deleted', order_id: string }
+  | { type: 'order.validated', validation: ValidationResult }
+  // Current levels of the SKUs a stock movement touched
+  | { type: 'inventory.changed', levels: StockLevel[] }
+  // Job state without the queued email
+  | { type: 'job.updated', job: Omit<Job, 'payload'> & { raw_order_id?: string } }
+
+export type SystemEventListener = (event: SystemEvent) => void
+
+/**
+ * In-process publish/subscribe for order lifecycle and job events; a failing
+ * listener is logged and never breaks the publisher
+ */
+export class EventBus {
+  private listeners: Set<SystemEventListener> = new Set()
+
+  publish(event: SystemEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.error('Event listener failed', { error, event: event.type })
+      }
+    })
+  }
+
+  /**
+   * Returns the matching unsubscribe function
+   */
+  subscribe(listener: SystemEventListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
@@ -0,0 +1,2 @@
+export { EventBus, type SystemEvent, type SystemEventListener } from './event-bus'
+export { RealtimeServer } from './websocket-server'
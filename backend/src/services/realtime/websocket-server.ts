@@ -0,0 +1,73 @@
+import type { Server } from 'http'
+import { WebSocketServer, WebSocket } from 'ws'
+import type { EventBus } from './event-bus'
+import { logger } from '../../utils/logger'
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30000
+
+/**
+ * Broadcasts every EventBus event as JSON to the dashboards connected on
+ * `path` of the HTTP server
+ */
+export class RealtimeServer {
+  private wss?: WebSocketServer
+  private heartbeat?: NodeJS.Timeout
+  private unsubscribe?: () => void
+  private alive: WeakSet<WebSocket> = new WeakSet()
+
+  constructor(private events: EventBus, private path: string = '/ws') {}
+
+  attach(server: Server) {
+    if (this.wss) return
+
+    this.wss = new WebSocketServer({ server, path: this.path })
+
+    this.wss.on('connection', socket => {
+      this.alive.add(socket)
+      socket.on('pong', () => this.alive.add(socket))
+      socket.on('error', error => logger.warn('WebSocket client error', { error: error.message }))
+      socket.send(JSON.stringify({ type: 'connected', timestamp: new Date().toISOString() }))
+    })
+
+    this.unsubscribe = this.events.subscribe(event => {
+      this.broadcast(JSON.stringify({ ...event, timestamp: new Date().toISOString() }))
+    })
+
+    this.heartbeat = setInterval(() => {
+      this.wss?.clients.forEach(socket => {
+        if (!this.alive.has(socket)) {
+          socket.terminate()
+          return
+        }
+        this.alive.delete(socket)
+        socket.ping()
+      })
+    }, HEARTBEAT_INTERVAL_MS)
+    this.heartbeat.unref()
+
+    logger.info(`Realtime events available on ${this.path}`)
+  }
+
+  get clientCount(): number {
+    return this.wss?.clients.size || 0
+  }
+
+  async close(): Promise<void> {
+    this.unsubscribe?.()
+    if (this.heartbeat) clearInterval(this.heartbeat)
+    if (!this.wss) return
+
+    this.wss.clients.forEach(socket => socket.terminate())
+    await new Promise<void>(resolve => this.wss!.close(() => resolve()))
+    this.wss = undefined
+  }
+
+  // Private helper methods
+
+  private broadcast(message: string) {
+    this.wss?.clients.forEach(socket => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(message)
+    })
+  }
+}
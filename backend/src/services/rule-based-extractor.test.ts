@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { RuleBasedExtractor } from './rule-based-extractor'
+
+const EMAIL = [
+  'Hi team,',
+  '',
+  'Please send the following:',
+  '9 x Coffee STRÅDAL 620',
+  'Bed TRÄNBERG 858 – Qty: 2',
+  'Sofa VIKTMARK 446 x 3',
+  '',
+  'Delivery address: 45 Königstraße, Stuttgart, Germany',
+  'We need them by July 1, 2025.',
+  '',
+  'Kind regards,',
+  'Lena Müller',
+  'lena@example.com'
+].join('\n')
+
+function modelResult(overrides: Partial<EmailProcessingResult> = {}): EmailProcessingResult {
+  return {
+    customer_info: { name: 'Lena Müller', email: 'lena@example.com' },
+    delivery_info: { address: '45 Königstraße, Stuttgart, Germany', delivery_date: '2025-07-01', urgency: 'medium' },
+    line_items: [
+      { description: 'Coffee STRÅDAL 620', quantity: 9 },
+      { description: 'Bed TRÄNBERG 858', quantity: 2 },
+      { description: 'Sofa VIKTMARK 446', quantity: 3 }
+    ],
+    confidence_score: 0.9,
+    processing_notes: [],
+    fallback_used: false,
+    ...overrides
+  }
+}
+
+describe('RuleBasedExtractor', () => {
+  const extractor = new RuleBasedExtractor()
+
+  it('parses quantity-first and quantity-last order lines, the address, deadline and sign-off', () => {
+    const extraction = extractor.extract(EMAIL)
+
+    expect(extraction.line_items.map(item => [item.description, item.quantity])).toEqual([
+      ['Coffee STRÅDAL 620', 9],
+      ['Bed TRÄNBERG 858', 2],
+      ['Sofa VIKTMARK 446', 3]
+    ])
+    expect(extraction.customer_info).toMatchObject({ name: 'Lena Müller', email: 'lena@example.com' })
+    expect(extraction.delivery_info.address).toBe('45 Königstraße, Stuttgart, Germany')
+    expect(extraction.delivery_info.delivery_date).toContain('July 1, 2025')
+  })
+
+  it('shapes a fallback result with reduced confidence', () => {
+    const result = extractor.toFallbackResult(EMAIL, ['Model timed out'])
+
+    expect(result.fallback_used).toBe(true)
+    expect(result.line_items).toHaveLength(3)
+    expect(result.line_items[0]).not.toHaveProperty('source_line')
+    expect(result.confidence_score).toBeLessThan(0.6)
+    expect(result.processing_notes[0]).toBe('Model timed out')
+  })
+
+  describe('crossCheck', () => {
+    it('raises nothing when the model agrees with the email', () => {
+      expect(extractor.crossCheck(modelResult(), EMAIL)).toEqual([])
+    })
+
+    it('flags a wrong quantity, a missed line and an extra line', () => {
+      const flags = extractor.crossCheck(modelResult({
+        line_items: [
+          { description: 'Coffee STRÅDAL 620', quantity: 6 },
+          { description: 'Bed TRÄNBERG 858', quantity: 2 },
+          { description: 'Wardrobe KLOVMARK 12', quantity: 1 }
+        ]
+      }), EMAIL)
+
+      expect(flags.map(flag => [flag.field_path, flag.severity])).toEqual([
+        ['line_items[0].quantity', 'warning'],
+        ['line_items', 'warning'],
+        ['line_items[2]', 'info']
+      ])
+    })
+
+    it('flags a different delivery date, a missing address and a different customer name', () => {
+      const flags = extractor.crossCheck(modelResult({
+        customer_info: { name: 'John Smith' },
+        delivery_info: { delivery_date: '2025-08-15', urgency: 'medium' }
+      }), EMAIL)
+
+      expect(flags.map(flag => flag.field_path)).toEqual([
+        'delivery_info.delivery_date',
+        'delivery_info.address',
+        'customer_info.name'
+      ])
+    })
+  })
+})
@@ -0,0 +1,313 @@
+import type { ValidationFlag } from '../../../shared/types/core'
+import type { EmailProcessingResult } from './gemini/email-processor'
+import { normalizeForMatching, similarity } from '../utils/text'
+import { parseLooseDate } from '../utils/date'
+import { ATTACHMENT_SECTION } from './ingestion/mime-parser'
+
+type ExtractedLineItem = EmailProcessingResult['line_items'][number]
+
+export interface RuleExtraction {
+  customer_info: EmailProcessingResult['customer_info']
+  delivery_info: EmailProcessingResult['delivery_info']
+  line_items: Array<ExtractedLineItem & { source_line: string }>
+}
+
+const QUANTITY_UNITS = '(?:x|×|units?|pieces?|pcs|qty|items?|sets?)'
+
+// Quantity-first and quantity-last line item shapes seen in customer emails
+const LINE_ITEM_PATTERNS: Array<{ pattern: RegExp, quantity: number, product: number }> = [
+  // "9 x Coffee STRÅDAL 620", "3 units of Bar FJÄRMARK 344", "8 pieces: Office LUNDMARK 699"
+  { pattern: new RegExp(`^(\\d+)\\s*${QUANTITY_UNITS}\\s*(?:of\\b|:)?\\s*(.+)$`, 'i'), quantity: 1, product: 2 },
+  // "Bed TRÄNBERG 858 – Qty: 2", "Loveseat FJÄRBERG 744 – need 7 pcs"
+  { pattern: /^(.+?)\s*[–—:-]\s*(?:qty|quantity|need|x|×)?\s*:?\s*(\d+)\s*(?:x|units?|pieces?|pcs|items?|sets?)?\.?$/i, quantity: 2, product: 1 },
+  // "Sofa VIKTMARK 446 x 3", "Sofa VIKTMARK 446 (3 pcs)"
+  { pattern: /^(.+?)\s*\(?\s*(?:x|×)\s*(\d+)\s*\)?$/i, quantity: 2, product: 1 },
+  { pattern: /^(.+?)\s*\(\s*(\d+)\s*(?:units?|pieces?|pcs)\s*\)$/i, quantity: 2, product: 1 }
+]
+
+// At the start of a line or of a sentence ("...attached. Ship to: ...")
+const ADDRESS_LEAD = /(?:^|[.!]\s+)(?:please\s+)?(?:ship(?:\s+(?:it|them))?\s+to|(?:do\s+)?deliver(?:y)?(?:\s+(?:it|them))?\s+to|send(?:\s+(?:it|them))?\s+to|delivery\s+address|shipping\s+address|address)\s*:?\s*(.*)$/i
+
+const MONTH_DATE = /\b(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+\d{1,2}(?:st|nd|rd|th)?(?:,?\s*\d{4})?\b/i
+const ISO_DATE = /\b\d{4}-\d{2}-\d{2}\b/
+const DEADLINE_HINT = /\b(?:by|before|deadline|deliver(?:y|ed)?|due|no later than|need(?:ed)? (?:it|them) by)\b/i
+
+const SIGN_OFF = /^(?:thanks|thank you|many thanks|cheers|best|best regards|kind regards|warm regards|regards|sincerely|yours(?: truly| sincerely)?|all the best)[,!.]?$/i
+const PERSON_NAME = /^[\p{Lu}][\p{L}'’.-]+(?:\s+[\p{Lu}][\p{L}'’.-]+){0,3}$/u
+
+const EMAIL_PATTERN = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/
+const PHONE_LINE = /\b(?:phone|tel|mobile|cell|call me(?: at)?)\b\s*:?\s*(\+?\d[\d\s().-]{6,}\d)/i
+const SKU_PATTERN = /\b([A-Z]{3}-\d{4})\b/
+
+// Words that mark a line as prose rather than an order line
+const PROSE_HINT = /\b(?:i|i'm|i’m|we|you|your|please|could|can|would|let me|thanks)\b|\?$/i
+
+/**
+ * Deterministic grammar-based extraction for the regular order formats
+ * customers use. Serves as the fallback when the model fails and as an
+ * independent cross-check of what the model extracted.
+ */
+export class RuleBasedExtractor {
+
+  extract(emailContent: string): RuleExtraction {
+    const lines = emailContent.replace(/\r\n/g, '\n').split('\n').map(line => line.trim())
+    const name = this.extractSignOffName(lines)
+
+    return {
+      customer_info: {
+        name,
+        email: emailContent.match(EMAIL_PATTERN)?.[1],
+        phone: emailContent.match(PHONE_LINE)?.[1].trim()
+      },
+      delivery_info: {
+        address: this.extractAddress(lines, name),
+        delivery_date: this.extractDeadline(lines),
+        urgency: this.extractUrgency(emailContent)
+      },
+      line_items: this.extractLineItems(lines)
+    }
+  }
+
+  /**
+   * Extraction shaped like a model result, for use when the model failed
+   */
+  toFallbackResult(emailContent: string, notes: string[]): EmailProcessingResult {
+    const extraction = this.extract(emailContent)
+    const found = [
+      extraction.customer_info.name,
+      extraction.delivery_info.address,
+      extraction.delivery_info.delivery_date
+    ].filter(Boolean).length
+
+    return {
+      customer_info: extraction.customer_info,
+      delivery_info: extraction.delivery_info,
+      line_items: extraction.line_items.map(({ source_line, ...item }) => item),
+      confidence_score: extraction.line_items.length > 0 ? 0.4 + found * 0.05 : 0.2,
+      processing_notes: [
+        ...notes,
+        `Fallback used: rule-based extractor found ${extraction.line_items.length} line item(s)`
+      ],
+      fallback_used: true
+    }
+  }
+
+  /**
+   * Compare a model extraction with the rule-based one and flag disagreements
+   */
+  crossCheck(result: EmailProcessingResult, emailContent: string): ValidationFlag[] {
+    const rules = this.extract(emailContent)
+    const flags: ValidationFlag[] = []
+    const claimed = new Set<number>()
+
+    rules.line_items.forEach(ruleItem => {
+      const index = this.findCounterpart(ruleItem.description, result.line_items, claimed)
+
+      if (index < 0) {
+        flags.push({
+          type: 'missing_data',
+          severity: 'warning',
+          message: `Email line "${ruleItem.source_line}" has no matching extracted line item`,
+          field_path: 'line_items',
+          suggested_action: `Add ${ruleItem.quantity} x ${ruleItem.description}`,
+          auto_fixable: true
+        })
+        return
+      }
+
+      claimed.add(index)
+      const extracted = result.line_items[index]
+      if (ruleItem.quantity !== undefined && extracted.quantity !== ruleItem.quantity) {
+        flags.push({
+          type: 'data_inconsistency',
+          severity: 'warning',
+          message: `Quantity for "${extracted.description}" is ${extracted.quantity ?? 'missing'} but the email says ${ruleItem.quantity}`,
+          field_path: `line_items[${index}].quantity`,
+          suggested_action: `Confirm the quantity (email line: "${ruleItem.source_line}")`,
+          auto_fixable: true
+        })
+      }
+    })
+
+    // Only meaningful when the email uses a format the grammar understands
+    if (rules.line_items.length > 0) {
+      result.line_items.forEach((item, index) => {
+        if (claimed.has(index)) return
+        flags.push({
+          type: 'data_inconsistency',
+          severity: 'info',
+          message: `Line item "${item.description}" was not found by the rule-based parser`,
+          field_path: `line_items[${index}]`,
+          suggested_action: 'Check that this item was actually requested in the email',
+          auto_fixable: false
+        })
+      })
+    }
+
+    const ruleDate = parseLooseDate(rules.delivery_info.delivery_date)
+    const modelDate = parseLooseDate(result.delivery_info.delivery_date)
+    if (ruleDate && modelDate && ruleDate.toDateString() !== modelDate.toDateString()) {
+      flags.push({
+        type: 'data_inconsistency',
+        severity: 'warning',
+        message: `Delivery date "${result.delivery_info.delivery_date}" differs from "${rules.delivery_info.delivery_date}" in the email`,
+        field_path: 'delivery_info.delivery_date',
+        suggested_action: 'Confirm the requested delivery date',
+        auto_fixable: true
+      })
+    }
+
+    if (rules.delivery_info.address && !result.delivery_info.address) {
+      flags.push({
+        type: 'missing_data',
+        severity: 'warning',
+        message: 'The email contains a delivery address that was not extracted',
+        field_path: 'delivery_info.address',
+        suggested_action: `Use "${rules.delivery_info.address}"`,
+        auto_fixable: true
+      })
+    }
+
+    const ruleName = rules.customer_info.name
+    const modelName = result.customer_info.name
+    if (ruleName && modelName && normalizeForMatching(ruleName) !== normalizeForMatching(modelName)) {
+      flags.push({
+        type: 'data_inconsistency',
+        severity: 'info',
+        message: `Customer name "${modelName}" differs from the sign-off "${ruleName}"`,
+        field_path: 'customer_info.name',
+        suggested_action: 'Confirm who placed the order',
+        auto_fixable: false
+      })
+    }
+
+    return flags
+  }
+
+  // Private helper methods
+
+  private extractLineItems(lines: string[]): RuleExtraction['line_items'] {
+    const items: RuleExtraction['line_items'] = []
+    let attachment: string | undefined
+
+    for (const rawLine of lines) {
+      const section = rawLine.match(ATTACHMENT_SECTION)
+      if (section) {
+        attachment = section[1]
+        continue
+      }
+
+      // Drop bullets and list numbering ("- ", "* ", "• ", "1. ", "2) ")
+      const line = rawLine.replace(/^(?:[-*•·]|\d+[.)])\s+/, '').trim()
+      if (!line || ADDRESS_LEAD.test(line)) continue
+
+      for (const { pattern, quantity, product } of LINE_ITEM_PATTERNS) {
+        const match = line.match(pattern)
+        if (!match) continue
+
+        const description = match[product].replace(/^(?:of\s+)/i, '').trim()
+        const amount = parseInt(match[quantity], 10)
+        if (!this.looksLikeProduct(description) || !(amount > 0)) continue
+
+        items.push({
+          description,
+          quantity: amount,
+          sku: description.match(SKU_PATTERN)?.[1],
+          provenance: attachment ? { source: 'attachment', attachment_name: attachment } : { source: 'body' },
+          source_line: rawLine
+        })
+        break
+      }
+    }
+
+    return items
+  }
+
+  private looksLikeProduct(text: string): boolean {
+    return /\p{L}{2,}/u.test(text) &&
+      text.length <= 80 &&
+      text.split(/\s+/).length <= 8 &&
+      !PROSE_HINT.test(text) &&
+      !MONTH_DATE.test(text)
+  }
+
+  private extractAddress(lines: string[], signOffName?: string): string | undefined {
+    for (let i = 0; i < lines.length; i++) {
+      const lead = lines[i].match(ADDRESS_LEAD)
+      if (!lead) continue
+
+      // Either inline after the colon or on the following lines up to a blank one
+      const parts = lead[1] ? [lead[1].replace(/[.\s]+$/, '')] : []
+      if (parts.length === 0) {
+        for (let j = i + 1; j < lines.length && lines[j]; j++) {
+          parts.push(lines[j])
+        }
+      }
+
+      const segments = parts.join(', ').split(',').map(segment => segment.trim()).filter(Boolean)
+
+      // "Ship to: John Smith, 123 Maple Street, ..." - the recipient is not part of the address
+      if (segments.length > 1 && this.isRecipient(segments[0], signOffName)) {
+        segments.shift()
+      }
+
+      if (segments.length > 0) return segments.join(', ')
+    }
+    return undefined
+  }
+
+  private isRecipient(segment: string, signOffName?: string): boolean {
+    if (/\d/.test(segment)) return false
+    if (signOffName && normalizeForMatching(segment) === normalizeForMatching(signOffName)) return true
+    return PERSON_NAME.test(segment) && segment.split(/\s+/).length >= 2 && !/\b(?:st|street|ave|av|road|rd|city)\b\.?/i.test(segment)
+  }
+
+  private extractDeadline(lines: string[]): string | undefined {
+    let first: string | undefined
+
+    for (const line of lines) {
+      const date = line.match(MONTH_DATE)?.[0] || line.match(ISO_DATE)?.[0]
+      if (!date) continue
+      if (DEADLINE_HINT.test(line)) return date
+      first = first || date
+    }
+    return first
+  }
+
+  private extractUrgency(emailContent: string): EmailProcessingResult['delivery_info']['urgency'] {
+    const text = emailContent.toLowerCase()
+    if (/\b(?:emergency|critical)\b/.test(text)) return 'critical'
+    if (/\b(?:urgent|urgently|asap|as soon as possible|rush|immediately)\b/.test(text)) return 'high'
+    return 'medium'
+  }
+
+  private extractSignOffName(lines: string[]): string | undefined {
+    for (let i = lines.length - 1; i > 0; i--) {
+      if (!SIGN_OFF.test(lines[i])) continue
+      const next = lines.slice(i + 1).find(Boolean)
+      if (next && PERSON_NAME.test(next)) return next
+    }
+
+    // Bare name on the last line
+    const last = [...lines].reverse().find(Boolean)
+    return last && PERSON_NAME.test(last) && last.split(/\s+/).length >= 2 ? last : undefined
+  }
+
+  private findCounterpart(description: string, items: ExtractedLineItem[], claimed: Set<number>): number {
+    const target = normalizeForMatching(description)
+    let bestIndex = -1
+    let bestScore = 0.6
+
+    items.forEach((item, index) => {
+      if (claimed.has(index)) return
+      const candidate = normalizeForMatching(item.description)
+      const score = candidate.includes(target) || target.includes(candidate) ? 1 : similarity(candidate, target)
+      if (score >= bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+    })
+
+    return bestIndex
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { TaxService } from './tax-service'
+
+describe('TaxService', () => {
+  const taxes = new TaxService()
+
+  it('finds country and region in delivery addresses', () => {
+    expect(taxes.destinationOf('123 Maple Street, Springfield, IL 62704')).toEqual({ country: 'US', region: 'IL' })
+    expect(taxes.destinationOf('100 Queen St W, Toronto, Ontario M5H 2N2, Canada')).toEqual({ country: 'CA', region: 'ON' })
+    expect(taxes.destinationOf('1 Market St, San Francisco, California 94105')).toEqual({ country: 'US', region: 'CA' })
+    expect(taxes.destinationOf(null)).toEqual({})
+  })
+
+  it('uses the regional rate where one is listed', () => {
+    expect(taxes.calculate(1000, 'USD', { country: 'US', region: 'CA' })).toEqual({
+      lines: [{ label: 'Sales tax 7.25%', jurisdiction: 'US-CA', rate: 7.25, taxable_amount: 1000, amount: 72.5 }],
+      total: 72.5
+    })
+    expect(taxes.calculate(1000, 'CAD', { country: 'CA', region: 'ON' }).total).toBe(130)
+  })
+
+  it('falls back to the national rate', () => {
+    const result = taxes.calculate(1000, 'CAD', { country: 'CA', region: 'AB' })
+
+    expect(result.lines.map(line => [line.label, line.jurisdiction])).toEqual([['GST 5%', 'CA']])
+    expect(result.total).toBe(50)
+  })
+
+  it('charges nothing where the rate is zero and says why', () => {
+    expect(taxes.calculate(1000, 'USD', { country: 'US', region: 'OR' }))
+      .toEqual({ lines: [], total: 0, note: 'No sales tax for US' })
+  })
+
+  it('rounds to the currency\'s minor unit', () => {
+    expect(taxes.calculate(999, 'JPY', { country: 'JP' }).total).toBe(100)
+    expect(taxes.calculate(10.05, 'EUR', { country: 'DE' }).total).toBe(1.91)
+  })
+
+  it('applies customer exemptions', () => {
+    expect(taxes.calculate(1000, 'EUR', { country: 'DE' }, { tax_exempt: true }).note).toBe('Customer is tax exempt')
+    expect(taxes.calculate(1000, 'EUR', { country: 'DE' }, { tax_id: 'DE123456789' }).note)
+      .toBe('EU B2B reverse charge (customer VAT ID on file)')
+    // Reverse charge needs an EU destination
+    expect(taxes.calculate(1000, 'GBP', { country: 'GB' }, { tax_id: 'GB123456789' }).total).toBe(200)
+  })
+
+  it('does not guess when the destination is unknown', () => {
+    expect(taxes.calculate(1000, 'USD', {}).note).toBe('Destination country unknown; tax not calculated')
+    expect(taxes.calculate(1000, 'USD', { country: 'KR' }).note).toBe('No tax rule for KR')
+  })
+})
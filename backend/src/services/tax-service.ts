@@ -0,0 +1,149 @@
+import fs from 'fs'
+import path from 'path'
+import type { CustomerRecord } from '../repositories'
+import { ConfidenceScorer } from './confidence-scorer'
+import { countryCode, regionCode } from '../utils/country'
+import { roundMoney } from '../utils/money'
+import { logger } from '../utils/logger'
+
+/**
+ * Where an order ships to, as ISO country code plus state/province
+ */
+export interface Destination {
+  country?: string
+  region?: string
+}
+
+export interface CountryTaxRule {
+  tax_name: string
+  // Percent; a listed region's rate replaces it (combined state or HST rate)
+  rate: number
+  regions?: Record<string, number>
+}
+
+export interface TaxExemption {
+  id: string
+  description: string
+  countries?: string[]
+  // Applies only to customers with a tax/VAT ID on file
+  requires_tax_id?: boolean
+}
+
+export interface TaxRules {
+  version: number
+  countries: Record<string, CountryTaxRule>
+  exemptions: TaxExemption[]
+}
+
+export interface TaxLine {
+  label: string
+  jurisdiction: string
+  rate: number
+  taxable_amount: number
+  amount: number
+}
+
+export interface TaxResult {
+  lines: TaxLine[]
+  total: number
+  // Why no tax was charged, when none was
+  note?: string
+}
+
+export const DEFAULT_TAX_RATES_PATH = path.join(process.cwd(), '../data/tax-rates.json')
+
+const NO_TAX_RULES: TaxRules = { version: 0, countries: {}, exemptions: [] }
+
+/**
+ * Read the tax rates file; without one no tax is calculated
+ */
+export function loadTaxRules(file: string = process.env.TAX_RATES_PATH || DEFAULT_TAX_RATES_PATH): TaxRules {
+  if (!fs.existsSync(file)) {
+    logger.warn('Tax rates file not found, tax will not be calculated', { file })
+    return NO_TAX_RULES
+  }
+
+  try {
+    return { ...NO_TAX_RULES, ...JSON.parse(fs.readFileSync(file, 'utf-8')) }
+  } catch (error) {
+    logger.error('Failed to load tax rates, tax will not be calculated', { file, error })
+    return NO_TAX_RULES
+  }
+}
+
+/**
+ * VAT/sales tax by destination country and region, with customer exemptions
+ */
+export class TaxService {
+  private addresses = new ConfidenceScorer()
+
+  constructor(private rules: TaxRules = loadTaxRules()) {}
+
+  /**
+   * Country and region of a free-form delivery address
+   */
+  destinationOf(address?: string | null): Destination {
+    if (!address) return {}
+    const parsed = this.addresses.parseAddress(address)
+    const country = countryCode(parsed.country)
+    return {
+      country,
+      region: country && parsed.state_province
+        ? regionCode(parsed.state_province, country)?.region ?? parsed.state_province.toUpperCase()
+        : undefined
+    }
+  }
+
+  /**
+   * Tax on a net amount (after discounts) in the given currency
+   */
+  calculate(
+    taxable: number,
+    currency: string,
+    destination: Destination,
+    customer?: Pick<CustomerRecord, 'tax_exempt' | 'tax_id'> | null
+  ): TaxResult {
+    if (!destination.country) {
+      return { lines: [], total: 0, note: 'Destination country unknown; tax not calculated' }
+    }
+
+    const rule = this.rules.countries[destination.country]
+    if (!rule) {
+      return { lines: [], total: 0, note: `No tax rule for ${destination.country}` }
+    }
+
+    if (customer?.tax_exempt) {
+      return { lines: [], total: 0, note: 'Customer is tax exempt' }
+    }
+
+    const exemption = this.rules.exemptions.find(candidate =>
+      (!candidate.countries || candidate.countries.includes(destination.country!)) &&
+      (!candidate.requires_tax_id || Boolean(customer?.tax_id))
+    )
+    if (exemption) {
+      return { lines: [], total: 0, note: exemption.description }
+    }
+
+    const regional = destination.region ? rule.regions?.[destination.region] : undefined
+    const rate = regional ?? rule.rate
+    if (rate === 0) {
+      return { lines: [], total: 0, note: `No ${rule.tax_name.toLowerCase()} for ${this.jurisdiction(destination, regional)}` }
+    }
+
+    const amount = roundMoney(taxable * rate / 100, currency)
+    return {
+      lines: [{
+        label: `${rule.tax_name} ${rate}%`,
+        jurisdiction: this.jurisdiction(destination, regional),
+        rate,
+        taxable_amount: roundMoney(taxable, currency),
+        amount
+      }],
+      total: amount
+    }
+  }
+
+  private jurisdiction(destination: Destination, regional?: number): string {
+    return regional !== undefined ? `${destination.country}-${destination.region}` : destination.country!
+  }
+}
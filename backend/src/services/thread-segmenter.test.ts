@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { ThreadSegmenter } from './thread-segmenter'
+
+const REPLY = [
+  'Hi, please make it 5 desks instead of 3 and change the delivery date to July 10.',
+  '',
+  'Thanks,',
+  'John',
+  '--',
+  'John Smith | Acme Corp',
+  '',
+  'On Tue, Jun 3, 2025 at 9:14 AM Jane Doe <jane@example.com> wrote:',
+  '> Please send 3 x Desk TRÄNHOLM 19',
+  '> and 2 x Sofa STRÅDAL 39.'
+].join('\n')
+
+const FORWARD = [
+  'FYI, please process.',
+  '',
+  '---------- Forwarded message ---------',
+  'From: Lena Müller <lena@example.com>',
+  'Date: Mon, 2 Jun 2025 10:00',
+  'Subject: Order',
+  '',
+  '9 x Coffee STRÅDAL 620'
+].join('\n')
+
+describe('ThreadSegmenter', () => {
+  const segmenter = new ThreadSegmenter()
+
+  it('keeps only the latest message as the current request', () => {
+    const thread = segmenter.segment(REPLY)
+
+    expect(thread.segments.map(segment => [segment.kind, segment.is_current])).toEqual([
+      ['message', true],
+      ['signature', false],
+      ['quoted', false]
+    ])
+    expect(thread.current_text).not.toContain('Sofa')
+    expect(thread.segments[2].author).toBe('Jane Doe <jane@example.com>')
+    expect(thread.history).toEqual([
+      'On Tue, Jun 3, 2025 at 9:14 AM Jane Doe <jane@example.com> wrote:\nPlease send 3 x Desk TRÄNHOLM 19\nand 2 x Sofa STRÅDAL 39.'
+    ])
+  })
+
+  it('reads a forwarded order under a short note as the current request', () => {
+    const thread = segmenter.segment(FORWARD)
+
+    expect(thread.current_text).toBe('FYI, please process.\n\n9 x Coffee STRÅDAL 620')
+    expect(thread.segments[1]).toMatchObject({ kind: 'forwarded', subject: 'Order', author: 'Lena Müller <lena@example.com>' })
+  })
+
+  it('keeps attachment sections with the current message', () => {
+    const thread = segmenter.segment(`${REPLY}\n--- Attachment: order.csv ---\n5 x Desk TRÄNHOLM 19`)
+
+    expect(thread.current_text).toMatch(/--- Attachment: order.csv ---\n5 x Desk TRÄNHOLM 19$/)
+    expect(thread.history).toHaveLength(1)
+  })
+
+  it('detects the changes an amendment asks for', () => {
+    expect(segmenter.segment(REPLY).amendment.map(({ text, ...change }) => change)).toEqual([
+      { action: 'change_delivery', value: 'July 10' },
+      { action: 'set_quantity', target: 'desks', previous_quantity: 3, quantity: 5 }
+    ])
+    expect(segmenter.detectAmendment('Please cancel the order.')).toMatchObject([{ action: 'cancel_order' }])
+    expect(segmenter.detectAmendment('Add 2 x Bar FJÄRMARK 344 to the order.'))
+      .toMatchObject([{ action: 'add_item', target: 'Bar FJÄRMARK 344', quantity: 2 }])
+    expect(segmenter.detectAmendment('Please remove the sofas.')).toMatchObject([{ action: 'remove_item', target: 'sofas' }])
+    expect(segmenter.detectAmendment('Please send 3 desks.')).toEqual([])
+  })
+})
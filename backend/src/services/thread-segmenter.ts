@@ -0,0 +1,266 @@
+import { ATTACHMENT_SECTION } from './ingestion/mime-parser'
+
+export interface ThreadSegment {
+  kind: 'message' | 'quoted' | 'forwarded' | 'signature'
+  text: string
+  // Envelope line(s) that opened the segment, e.g. "On Mon, Jun 2, 2025, John wrote:"
+  header?: string
+  author?: string
+  sent_at?: string
+  subject?: string
+  // Part of the request being made now (as opposed to history)
+  is_current: boolean
+}
+
+export interface AmendmentChange {
+  action: 'set_quantity' | 'add_item' | 'remove_item' | 'change_delivery' | 'cancel_order'
+  target?: string
+  quantity?: number
+  previous_quantity?: number
+  value?: string
+  text: string
+}
+
+export interface ThreadSegmentation {
+  segments: ThreadSegment[]
+  // Latest message (plus attachment sections); the only text line items come from
+  current_text: string
+  // Earlier messages, passed to the model as context only
+  history: string[]
+  amendment: AmendmentChange[]
+}
+
+const ORIGINAL_MESSAGE = /^-{2,}\s*Original Message\s*-{2,}$/i
+const FORWARD_MARKER = /^(?:-{2,}\s*Forwarded message\s*-{2,}|Begin forwarded message:?)$/i
+const ON_WROTE = /^On\s.+\swrote:$/i
+const ENVELOPE_FIELD = /^(From|Sent|Date|To|Cc|Subject):\s*(.*)$/i
+const SIGNATURE_DELIMITER = /^(?:--|__+)\s*$|^Sent from my\s/i
+
+// A forward note this short is treated as instructions, not the order itself
+const MAX_FORWARD_NOTE_LINES = 3
+
+const CHANGE_PATTERNS: Array<{ pattern: RegExp, toChange: (match: RegExpMatchArray) => Omit<AmendmentChange, 'text'> }> = [
+  {
+    pattern: /\b(?:change|move|push|update)\s+(?:the\s+)?(?:delivery(?:\s+date)?|deadline|ship(?:ping)?\s+date|address|delivery\s+address)\s+to\s*:?\s*([^.;!?\n]+)/gi,
+    toChange: match => ({ action: 'change_delivery', value: match[1].trim() })
+  },
+  {
+    pattern: /\b(?:change|update|increase|reduce|decrease|adjust|make)\s+(?:the\s+|my\s+|our\s+)?(?:quantity\s+(?:of|for)\s+(?:the\s+)?)?([^.;!?\n]+?)\s+(?:from\s+(\d+)\s+)?to\s+(\d+)\b/gi,
+    toChange: match => ({
+      action: 'set_quantity',
+      target: match[1].trim(),
+      previous_quantity: match[2] ? Number(match[2]) : undefined,
+      quantity: Number(match[3])
+    })
+  },
+  {
+    // "4 Sofas instead of 3", or just "make it 4 instead of 3" for a single-item order
+    pattern: /\b(\d+)(?:\s+(?:x\s+)?([^.;!?\n]+?))?\s+instead\s+of\s+(\d+)\b/gi,
+    toChange: match => ({
+      action: 'set_quantity',
+      target: match[2]?.trim(),
+      previous_quantity: Number(match[3]),
+      quantity: Number(match[1])
+    })
+  },
+  {
+    pattern: /\bcancel\s+(?:the\s+|my\s+|our\s+)?(?:whole\s+|entire\s+)?order\b/gi,
+    toChange: () => ({ action: 'cancel_order' })
+  },
+  {
+    pattern: /\b(?:cancel|remove|delete)\s+(?:the\s+|my\s+|our\s+)?(?!(?:whole\s+|entire\s+)?order\b)([^.;!?\n]+?)(?:\s+from\s+(?:the|my|our)\s+order)?(?=[.;!?\n]|$)/gi,
+    toChange: match => ({ action: 'remove_item', target: match[1].trim() })
+  },
+  {
+    pattern: /\badd\s+(?:another\s+)?(\d+)\s*(?:x\s+|more\s+|units?\s+of\s+|pcs\s+(?:of\s+)?)?([^.;!?\n]+?)(?:\s+to\s+(?:the|my|our)\s+order)?(?=[.;!?\n]|$)/gi,
+    toChange: match => ({ action: 'add_item', target: match[2].trim(), quantity: Number(match[1]) })
+  }
+]
+
+/**
+ * Splits an email into its latest message and the quoted or forwarded history
+ * below it, so extraction reads line items only from the current request and
+ * amendments ("change the desks to 5") can be recognised as such
+ */
+export class ThreadSegmenter {
+
+  segment(emailContent: string): ThreadSegmentation {
+    const normalized = emailContent.replace(/\r\n/g, '\n')
+    const { body, attachments } = this.splitAttachments(normalized)
+    const segments = this.splitSegments(body.split('\n'))
+
+    this.markCurrent(segments)
+
+    const current = segments.filter(segment => segment.is_current).map(segment => segment.text)
+    const currentText = [...current, attachments].filter(Boolean).join('\n\n')
+
+    return {
+      segments,
+      current_text: currentText || normalized.trim(),
+      history: segments
+        .filter(segment => !segment.is_current && segment.kind !== 'signature' && segment.text)
+        .map(segment => [segment.header, segment.text].filter(Boolean).join('\n')),
+      amendment: this.detectAmendment(current.join('\n'))
+    }
+  }
+
+  /**
+   * Changes to an earlier order requested in the given text
+   */
+  detectAmendment(text: string): AmendmentChange[] {
+    const changes: AmendmentChange[] = []
+    const covered: Array<[number, number]> = []
+
+    for (const { pattern, toChange } of CHANGE_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index || 0
+        const end = start + match[0].length
+        // An earlier, more specific pattern already explained this text
+        if (covered.some(([from, to]) => start < to && from < end)) continue
+
+        covered.push([start, end])
+        changes.push({ ...toChange(match), text: match[0].trim() })
+      }
+    }
+
+    return changes
+  }
+
+  // Private helper methods
+
+  private splitAttachments(text: string): { body: string, attachments: string } {
+    const lines = text.split('\n')
+    const index = lines.findIndex(line => ATTACHMENT_SECTION.test(line.trim()))
+    if (index < 0) return { body: text, attachments: '' }
+    return { body: lines.slice(0, index).join('\n'), attachments: lines.slice(index).join('\n').trim() }
+  }
+
+  private splitSegments(lines: string[]): ThreadSegment[] {
+    const segments: ThreadSegment[] = []
+    let current: ThreadSegment = { kind: 'message', text: '', is_current: false }
+    let buffer: string[] = []
+    // Inside history every boundary starts another history segment
+    let inHistory = false
+
+    const flush = (next: ThreadSegment) => {
+      current.text = buffer.join('\n').trim()
+      if (current.text || current.header) segments.push(current)
+      current = next
+      buffer = []
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim()
+
+      if (FORWARD_MARKER.test(line) || ORIGINAL_MESSAGE.test(line)) {
+        const kind = FORWARD_MARKER.test(line) ? 'forwarded' : 'quoted'
+        const envelope = this.readEnvelope(lines, i + 1)
+        flush({ kind, text: '', header: [line, ...envelope.lines].join('\n'), ...envelope.fields, is_current: false })
+        i += envelope.lines.length
+        inHistory = true
+        continue
+      }
+
+      // "On Tue, Jun 3, 2025 at 9:14 AM John Smith <john@example.com>" may wrap before "wrote:"
+      const onWrote = ON_WROTE.test(line)
+        ? line
+        : /^On\s/i.test(line) && lines[i + 1] && /wrote:$/i.test(lines[i + 1].trim())
+          ? `${line} ${lines[i + 1].trim()}`
+          : null
+      if (onWrote) {
+        flush({ kind: 'quoted', text: '', header: onWrote, author: this.authorFromOnWrote(onWrote), is_current: false })
+        if (onWrote !== line) i++
+        inHistory = true
+        continue
+      }
+
+      // Outlook-style reply header block without a marker line
+      if (/^From:\s/i.test(line)) {
+        const envelope = this.readEnvelope(lines, i)
+        if (envelope.fields.subject !== undefined && envelope.lines.length >= 2) {
+          flush({ kind: 'quoted', text: '', header: envelope.lines.join('\n'), ...envelope.fields, is_current: false })
+          i += envelope.lines.length - 1
+          inHistory = true
+          continue
+        }
+      }
+
+      // Contiguous "> " lines are quoted history; inside history they just stay put
+      if (/^>/.test(line)) {
+        if (!inHistory && current.kind !== 'quoted') {
+          flush({ kind: 'quoted', text: '', is_current: false })
+        }
+        buffer.push(line.replace(/^(>\s?)+/, ''))
+        continue
+      }
+      if (!inHistory && current.kind === 'quoted' && line) {
+        // Text after an inline quote continues the reply
+        flush({ kind: 'message', text: '', is_current: false })
+      }
+
+      // The signature runs until the next boundary
+      if (SIGNATURE_DELIMITER.test(line) && current.kind !== 'signature') {
+        flush({ kind: 'signature', text: '', is_current: false })
+        buffer.push(line)
+        continue
+      }
+
+      buffer.push(lines[i])
+    }
+    flush({ kind: 'message', text: '', is_current: false })
+
+    return segments
+  }
+
+  private markCurrent(segments: ThreadSegment[]) {
+    const firstHistory = segments.findIndex(segment => segment.kind === 'forwarded' || segment.header)
+    const top = segments.slice(0, firstHistory < 0 ? segments.length : firstHistory)
+      .filter(segment => segment.kind === 'message')
+
+    const forwarded = firstHistory >= 0 && segments[firstHistory].kind === 'forwarded'
+      ? segments[firstHistory]
+      : null
+    const noteLines = top.flatMap(segment => segment.text.split('\n')).filter(line => line.trim())
+
+    top.forEach(segment => { segment.is_current = true })
+
+    // "FYI, please process" on top of a forwarded order: the order is the forward
+    if (forwarded && (noteLines.length <= MAX_FORWARD_NOTE_LINES && !noteLines.some(line => /\d/.test(line)))) {
+      forwarded.is_current = true
+    }
+  }
+
+  private readEnvelope(lines: string[], start: number): {
+    lines: string[]
+    fields: Pick<ThreadSegment, 'author' | 'sent_at' | 'subject'>
+  } {
+    const envelope: string[] = []
+    const fields: Pick<ThreadSegment, 'author' | 'sent_at' | 'subject'> = {}
+
+    for (let i = start; i < lines.length && envelope.length < 8; i++) {
+      const line = lines[i].trim()
+      const field = line.match(ENVELOPE_FIELD)
+      if (!field) {
+        if (!line && envelope.length === 0) continue
+        break
+      }
+
+      envelope.push(line)
+      const name = field[1].toLowerCase()
+      if (name === 'from') fields.author = field[2]
+      if (name === 'sent' || name === 'date') fields.sent_at = field[2]
+      if (name === 'subject') fields.subject = field[2]
+    }
+
+    return { lines: envelope, fields }
+  }
+
+  private authorFromOnWrote(header: string): string | undefined {
+    // The author follows the time if there is one, otherwise the year or the last comma
+    const match =
+      header.match(/\d{1,2}:\d{2}(?:\s*[AP]M)?,?\s+(.+?)\s+wrote:$/i) ||
+      header.match(/\b\d{4},?\s+(.+?)\s+wrote:$/) ||
+      header.match(/,\s*([^,]+?)\s+wrote:$/)
+    return match ? match[1].trim() : undefined
+  }
+}
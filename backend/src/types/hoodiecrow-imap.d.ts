@@ -0,0 +1,22 @@
+// Scriptable in-memory IMAP server, used as the mailbox stand-in in tests
+declare module 'hoodiecrow-imap' {
+  import type { Server } from 'net'
+
+  interface HoodiecrowMessage {
+    raw: string
+    flags?: string[]
+    uid?: number
+  }
+
+  interface HoodiecrowServer {
+    server: Server
+    listen(port: number, host: string, callback?: () => void): void
+    close(callback?: () => void): void
+    getMailbox(path: string): { messages: HoodiecrowMessage[] }
+  }
+
+  export default function hoodiecrow(options?: {
+    storage?: Record<string, { messages?: HoodiecrowMessage[] }>
+    plugins?: string[]
+  }): HoodiecrowServer
+}
@@ -0,0 +1,77 @@
+import { normalizeForMatching } from './text'
+
+// Country names and common spellings customers use in delivery addresses
+const COUNTRY_CODES: Record<string, string> = {
+  'usa': 'US', 'us': 'US', 'united states': 'US', 'united states of america': 'US',
+  'canada': 'CA',
+  'mexico': 'MX',
+  'brazil': 'BR', 'brasil': 'BR',
+  'uk': 'GB', 'united kingdom': 'GB', 'great britain': 'GB', 'england': 'GB',
+  'germany': 'DE', 'deutschland': 'DE',
+  'austria': 'AT', 'osterreich': 'AT',
+  'france': 'FR',
+  'belgium': 'BE',
+  'netherlands': 'NL', 'the netherlands': 'NL', 'holland': 'NL',
+  'spain': 'ES', 'espana': 'ES',
+  'italy': 'IT', 'italia': 'IT',
+  'switzerland': 'CH', 'schweiz': 'CH',
+  'sweden': 'SE', 'sverige': 'SE',
+  'norway': 'NO', 'norge': 'NO',
+  'denmark': 'DK', 'danmark': 'DK',
+  'lebanon': 'LB',
+  'japan': 'JP',
+  'china': 'CN',
+  'india': 'IN',
+  'australia': 'AU'
+}
+
+/**
+ * ISO 3166-1 alpha-2 code for a country name or code, if recognised
+ */
+export function countryCode(country?: string): string | undefined {
+  if (!country) return undefined
+  const trimmed = country.trim()
+  if (/^[A-Z]{2}$/.test(trimmed) && Object.values(COUNTRY_CODES).includes(trimmed)) return trimmed
+  return COUNTRY_CODES[normalizeForMatching(trimmed)]
+}
+
+// US states and Canadian provinces by name, for addresses that spell them out
+const REGION_CODES: Record<string, Record<string, string>> = {
+  US: {
+    'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA', 'colorado': 'CO',
+    'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC', 'florida': 'FL', 'georgia': 'GA',
+    'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL', 'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS',
+    'kentucky': 'KY', 'louisiana': 'LA', 'maine': 'ME', 'maryland': 'MD', 'massachusetts': 'MA',
+    'michigan': 'MI', 'minnesota': 'MN', 'mississippi': 'MS', 'missouri': 'MO', 'montana': 'MT',
+    'nebraska': 'NE', 'nevada': 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM',
+    'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK',
+    'oregon': 'OR', 'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD',
+    'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT', 'vermont': 'VT', 'virginia': 'VA', 'washington': 'WA',
+    'west virginia': 'WV', 'wisconsin': 'WI', 'wyoming': 'WY'
+  },
+  CA: {
+    'alberta': 'AB', 'british columbia': 'BC', 'manitoba': 'MB', 'new brunswick': 'NB',
+    'newfoundland and labrador': 'NL', 'newfoundland': 'NL', 'northwest territories': 'NT',
+    'nova scotia': 'NS', 'nunavut': 'NU', 'ontario': 'ON', 'prince edward island': 'PE',
+    'quebec': 'QC', 'saskatchewan': 'SK', 'yukon': 'YT'
+  }
+}
+
+/**
+ * State or province code for a name or code, with the country it belongs to;
+ * without a country the US is tried before Canada
+ */
+export function regionCode(region?: string, country?: string): { country: string, region: string } | undefined {
+  if (!region) return undefined
+  const normalized = normalizeForMatching(region)
+  const countries = country ? [country] : ['US', 'CA']
+
+  for (const candidate of countries) {
+    const regions = REGION_CODES[candidate]
+    if (!regions) continue
+    const code = regions[normalized] ||
+      (Object.values(regions).includes(normalized.toUpperCase()) ? normalized.toUpperCase() : undefined)
+    if (code) return { country: candidate, region: code }
+  }
+  return undefined
+}
@@ -0,0 +1,21 @@
+/**
+ * Parse the free-form dates customers write ("June 20th, 2025",
+ * "before July 1, 2025"); returns null when nothing sensible remains
+ */
+export function parseLooseDate(value?: string): Date | null {
+  if (!value) return null
+  const cleaned = value.replace(/(\d+)(st|nd|rd|th)\b/g, '$1').replace(/^(before|by|on)\s+/i, '')
+  const time = Date.parse(cleaned)
+  return Number.isNaN(time) ? null : new Date(time)
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Calendar day (YYYY-MM-DD, UTC) of a timestamp
+ */
+export function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,29 @@
+/**
+ * Minor-unit digits of a currency (2 for EUR, 0 for JPY)
+ */
+export function currencyDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2
+  } catch {
+    return 2
+  }
+}
+
+/**
+ * Round to the currency's smallest unit
+ */
+export function roundMoney(amount: number, currency: string = 'USD'): number {
+  const factor = 10 ** currencyDigits(currency)
+  return Math.round(amount * factor) / factor
+}
+
+/**
+ * Locale-aware amount with currency symbol, e.g. "1.234,50 €" for de-DE
+ */
+export function formatMoney(amount: number, currency: string = 'USD', locale: string = 'en-US'): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${currency} ${amount.toFixed(currencyDigits(currency))}`
+  }
+}
@@ -0,0 +1,63 @@
+const SPECIAL_FOLDS: Record<string, string> = {
+  'ø': 'o',
+  'Ø': 'O',
+  'æ': 'ae',
+  'Æ': 'AE',
+  'ß': 'ss'
+}
+
+/**
+ * Strip diacritics so catalog names like "STRÅDAL" or "FJÄRBERG" compare
+ * equal to the plain ASCII spellings customers often type (Å/Ä → A, Ö → O)
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[øØæÆß]/g, char => SPECIAL_FOLDS[char])
+}
+
+/**
+ * Lowercase, fold diacritics and collapse everything that is not a letter or
+ * digit into single spaces
+ */
+export function normalizeForMatching(text: string): string {
+  return foldDiacritics(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Classic edit distance, used for typo-tolerant brand matching
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        current[j - 1] + 1,
+        previous[j] + 1,
+        previous[j - 1] + cost
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Edit-distance similarity in the 0-1 range
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest
+}
@@ -7,6 +7,7 @@ import { Dashboard } from './pages/dashboard'
 import { OrderDetails } from './pages/order-details'
 import { Settings } from './pages/settings'
 import { EmailProcessor } from './pages/email-processor'
+import { BulkUpload } from './pages/bulk-upload'
 
 function App() {
   return (
@@ -17,6 +18,7 @@ function App() {
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/orders/:orderId" element={<OrderDetails />} />
           <Route path="/process" element={<EmailProcessor />} />
+          <Route path="/bulk" element={<BulkUpload />} />
           <Route path="/settings" element={<Settings />} />
           <Route path="*" element={<Navigate to="/dashboard" replace />} />
         </Routes>
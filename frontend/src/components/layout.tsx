@@ -10,6 +10,7 @@ export function Layout({ children }: LayoutProps) {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: '📊' },
     { name: 'Process Email', href: '/process', icon: '📧' },
+    { name: 'Bulk Upload', href: '/bulk', icon: '📥' },
     { name: 'Settings', href: '/settings', icon: '⚙️' },
   ]
 
@@ -0,0 +1,19 @@
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001'
+
+/**
+ * Call a backend route and unwrap the { success, data, error } envelope
+ */
+export async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error?.message || `Request failed with status ${response.status}`)
+  }
+
+  return body.data as T
+}
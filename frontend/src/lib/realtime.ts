@@ -0,0 +1,67 @@
+import type { ValidationResult } from '@shared/types/core'
+import { API_BASE_URL } from './api-client'
+import type { DatabaseOrder } from './supabase'
+import type { BackgroundJob } from '../services/jobs-api'
+
+export type RealtimeEvent = { timestamp: string } & (
+  | { type: 'connected' }
+  | { type: 'order.created'; order: DatabaseOrder }
+  | { type: 'order.updated'; order: DatabaseOrder }
+  | { type: 'order.status_changed'; order: DatabaseOrder; from: DatabaseOrder['status']; to: DatabaseOrder['status']; actor: string }
+  | { type: 'order.deleted'; order_id: string }
+  | { type: 'order.validated'; validation: ValidationResult }
+  | { type: 'inventory.changed'; levels: Array<{ sku: string; on_hand: number; reserved: number; available: number }> }
+  | { type: 'job.updated'; job: BackgroundJob }
+)
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed'
+
+const REALTIME_URL = import.meta.env.VITE_REALTIME_URL || `${API_BASE_URL.replace(/^http/, 'ws')}/ws`
+const MAX_RECONNECT_DELAY_MS = 30000
+
+/**
+ * Listen to the backend's order and job events; reconnects with backoff until
+ * the returned function is called
+ */
+export function subscribeToEvents(
+  onEvent: (event: RealtimeEvent) => void,
+  onStatus?: (status: RealtimeStatus) => void
+): () => void {
+  let socket: WebSocket | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let attempts = 0
+  let closed = false
+
+  const connect = () => {
+    onStatus?.('connecting')
+    socket = new WebSocket(REALTIME_URL)
+
+    socket.onopen = () => {
+      attempts = 0
+      onStatus?.('open')
+    }
+
+    socket.onmessage = message => {
+      try {
+        onEvent(JSON.parse(message.data))
+      } catch (error) {
+        console.error('Ignoring malformed realtime event:', error)
+      }
+    }
+
+    socket.onclose = () => {
+      onStatus?.('closed')
+      if (closed) return
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts++)
+      retryTimer = setTimeout(connect, delay)
+    }
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    clearTimeout(retryTimer)
+    socket?.close()
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { findSourceSpans } from './source-spans'
+
+const EMAIL = [
+  'Hi team,',
+  'Please send 9 x Coffee Table STRÅDAL 620 to 123 Maple Street, Springfield, IL 62704.',
+  'Thanks, John Smith'
+].join('\n')
+
+describe('findSourceSpans', () => {
+  it('locates values case-insensitively and returns them in email order', () => {
+    const spans = findSourceSpans(EMAIL, {
+      customer_name: 'john smith',
+      delivery_address: '123 Maple Street, Springfield, IL 62704'
+    })
+
+    expect(spans.map(span => span.field)).toEqual(['delivery_address', 'customer_name'])
+    const [address, name] = spans
+    expect(EMAIL.slice(address.start, address.end)).toBe('123 Maple Street, Springfield, IL 62704')
+    expect(EMAIL.slice(name.start, name.end)).toBe('John Smith')
+  })
+
+  it('falls back to the longest run of tokens found in the email', () => {
+    const [span] = findSourceSpans(EMAIL, { line_0: 'Coffee STRÅDAL 620' })
+
+    expect(EMAIL.slice(span.start, span.end)).toBe('STRÅDAL 620')
+  })
+
+  it('skips empty, missing and overlapping values', () => {
+    const spans = findSourceSpans(EMAIL, {
+      customer_email: undefined,
+      customer_phone: '  ',
+      delivery_address: '123 Maple Street',
+      street: 'Maple Street',
+      company: 'Globex'
+    })
+
+    expect(spans.map(span => span.field)).toEqual(['delivery_address'])
+  })
+})
@@ -0,0 +1,44 @@
+export interface SourceSpan {
+  field: string
+  start: number
+  end: number
+}
+
+/**
+ * Locate where each extracted value appears in the raw email. Values that
+ * were normalised by the model (e.g. a reformatted product name) fall back to
+ * their longest token run that does occur in the email.
+ */
+export function findSourceSpans(rawEmail: string, fields: Record<string, string | undefined>): SourceSpan[] {
+  const haystack = rawEmail.toLowerCase()
+  const spans: SourceSpan[] = []
+
+  for (const [field, value] of Object.entries(fields)) {
+    const needle = value?.trim()
+    if (!needle) continue
+
+    const span = locate(haystack, needle.toLowerCase())
+    if (span && !spans.some(s => span.start < s.end && s.start < span.end)) {
+      spans.push({ field, ...span })
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start)
+}
+
+function locate(haystack: string, needle: string): { start: number; end: number } | null {
+  const index = haystack.indexOf(needle)
+  if (index >= 0) return { start: index, end: index + needle.length }
+
+  // Try shrinking windows of the value's tokens, longest first
+  const tokens = needle.split(/\s+/)
+  for (let size = tokens.length - 1; size >= 2; size--) {
+    for (let offset = 0; offset + size <= tokens.length; offset++) {
+      const candidate = tokens.slice(offset, offset + size).join(' ')
+      const found = haystack.indexOf(candidate)
+      if (found >= 0) return { start: found, end: found + candidate.length }
+    }
+  }
+
+  return null
+}
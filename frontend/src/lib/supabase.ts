@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { NextAction } from '@shared/types/core'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -21,13 +22,43 @@ export interface DatabaseOrder {
   urgency: 'low' | 'medium' | 'high' | 'critical'
   line_items: any[]
   confidence_score: number
-  status: 'received' | 'processing' | 'ai_parsed' | 'validating' | 'needs_review' | 'approved' | 'rejected'
+  status: 'received' | 'processing' | 'ai_parsed' | 'validating' | 'needs_review' | 'approved' | 'rejected' | 'modified' | 'fulfilled' | 'error'
   flags: any[]
   suggestions: any[]
+  ai_original?: Pick<DatabaseOrder,
+    'customer_name' | 'customer_email' | 'customer_company' | 'delivery_address' | 'delivery_date' | 'urgency' | 'line_items'
+  > | null
+  processing_notes?: string[]
+  fallback_used?: boolean
+  source?: 'api' | 'forward' | 'manual' | 'webhook'
+  message_id?: string | null
+  source_metadata?: {
+    sender_email?: string
+    subject?: string
+    headers?: Record<string, string>
+    attachments?: string[]
+  } | null
+  amends_order_id?: string | null
+  customer_id?: string | null
+  duplicate_of?: string | null
+  currency?: string | null
+  split_from?: string | null
+  planned_ship_date?: string | null
+  next_action?: NextAction | null
   created_at: string
   updated_at: string
 }
 
+export interface DatabaseStatusHistory {
+  id: string
+  order_id: string
+  from_status: DatabaseOrder['status'] | null
+  to_status: DatabaseOrder['status']
+  actor: string
+  reason?: string
+  created_at: string
+}
+
 export interface DatabaseProduct {
   product_code: string
   product_name: string
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { JobsAPI, type BatchItemOutcome, type BatchResult } from '../services/jobs-api'
+
+interface BatchRow extends BatchItemOutcome {
+  attempts?: number
+}
+
+const POLL_INTERVAL_MS = 1500
+
+const STATUS_BADGES: Record<BatchRow['status'], string> = {
+  queued: 'badge-info',
+  completed: 'badge-success',
+  duplicate: 'badge-warning',
+  rejected: 'badge-danger',
+  failed: 'badge-danger'
+}
+
+const isArchive = (file: File) => /\.(zip|mbox)$/i.test(file.name)
+
+export function BulkUpload() {
+  const [files, setFiles] = useState<File[]>([])
+  const [summary, setSummary] = useState<Omit<BatchResult, 'items'> | null>(null)
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const pending = rows.filter(row => row.status === 'queued')
+
+  // Follow queued rows until their jobs finish
+  useEffect(() => {
+    if (pending.length === 0) return
+
+    const timer = setTimeout(async () => {
+      const jobs = await Promise.all(pending.map(row =>
+        JobsAPI.getJob(row.job_id!).catch(() => null)
+      ))
+
+      setRows(current => current.map(row => {
+        const job = jobs.find(candidate => candidate?.id === row.job_id)
+        if (!job || row.status !== 'queued') return row
+        if (job.status === 'completed') {
+          return { ...row, status: 'completed', order_id: job.result?.order_id, attempts: job.attempts }
+        }
+        if (job.status === 'dead') {
+          return { ...row, status: 'failed', error: job.last_error, attempts: job.attempts }
+        }
+        return { ...row, attempts: job.attempts, error: job.last_error }
+      }))
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [rows])
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files || []))
+    setError(null)
+  }
+
+  const handleUpload = async () => {
+    setIsUploading(true)
+    setError(null)
+    setRows([])
+    setSummary(null)
+
+    try {
+      // An archive or mailbox goes up as-is; loose .eml/.txt files as one JSON batch
+      const archives = files.filter(isArchive)
+      const loose = files.filter(file => !isArchive(file))
+      const batches: Array<Parameters<typeof JobsAPI.processBatch>[0]> = [...archives]
+      if (loose.length > 0) {
+        batches.push({
+          emails: await Promise.all(loose.map(async file => ({ name: file.name, content: await file.text() })))
+        })
+      }
+
+      const results: BatchResult[] = []
+      for (const batch of batches) {
+        results.push(await JobsAPI.processBatch(batch))
+      }
+
+      setRows(results.flatMap(result => result.items).map((item, index) => ({ ...item, index })))
+      setSummary({
+        total: results.reduce((sum, result) => sum + result.total, 0),
+        queued: results.reduce((sum, result) => sum + result.queued, 0),
+        completed: results.reduce((sum, result) => sum + result.completed, 0),
+        failed: results.reduce((sum, result) => sum + result.failed, 0),
+        duplicates: results.reduce((sum, result) => sum + result.duplicates, 0),
+        rejected: results.reduce((sum, result) => sum + result.rejected, 0)
+      })
+      setFiles([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const done = rows.filter(row => row.status !== 'queued').length
+
+  return (
+    <div className="container" style={{ maxWidth: '1200px', margin: '0 auto', padding: '24px' }}>
+      <div className="card">
+        <h1>Bulk Upload</h1>
+        <p style={{ color: '#6b7280', marginBottom: '16px' }}>
+          Queue a whole inbox at once: select .eml or .txt files, a .zip of them, or an .mbox export.
+          Emails already processed (same Message-ID) are skipped.
+        </p>
+
+        <div className="form-group">
+          <input
+            type="file"
+            multiple
+            accept=".eml,.txt,.zip,.mbox,message/rfc822,application/zip,application/mbox"
+            onChange={handleFiles}
+            disabled={isUploading}
+          />
+        </div>
+
+        <button
+          className="btn btn-primary"
+          disabled={files.length === 0 || isUploading}
+          onClick={handleUpload}
+        >
+          {isUploading ? (
+            <>
+              <div className="spinner"></div>
+              Uploading...
+            </>
+          ) : (
+            `Queue ${files.length || ''} file${files.length === 1 ? '' : 's'}`
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert alert-error">
+          <strong>Upload failed:</strong> {error}
+        </div>
+      )}
+
+      {summary && (
+        <div className="card">
+          <div className="flex-between" style={{ marginBottom: '12px' }}>
+            <h2 style={{ margin: 0 }}>Progress</h2>
+            <span style={{ color: '#6b7280' }}>
+              {done} of {rows.length} done
+              {summary.duplicates > 0 && ` • ${summary.duplicates} duplicate(s)`}
+              {summary.rejected > 0 && ` • ${summary.rejected} rejected`}
+            </span>
+          </div>
+
+          <div style={{ background: '#f3f4f6', borderRadius: '9999px', height: '8px', marginBottom: '16px' }}>
+            <div style={{
+              background: '#2563eb',
+              borderRadius: '9999px',
+              height: '8px',
+              width: `${rows.length > 0 ? (done / rows.length) * 100 : 0}%`,
+              transition: 'width 0.3s'
+            }} />
+          </div>
+
+          <table className="table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Email</th>
+                <th>Status</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.index}>
+                  <td>{row.index + 1}</td>
+                  <td style={{ fontFamily: 'monospace', fontSize: '13px' }}>{row.name}</td>
+                  <td>
+                    <span className={`badge ${STATUS_BADGES[row.status]}`}>{row.status}</span>
+                    {row.status === 'queued' && row.attempts ? (
+                      <span style={{ color: '#6b7280', fontSize: '12px' }}> attempt {row.attempts}</span>
+                    ) : null}
+                  </td>
+                  <td>
+                    {row.order_id ? (
+                      <Link to={`/orders/${row.order_id}`}>{row.order_id}</Link>
+                    ) : row.error ? (
+                      <span style={{ color: '#dc2626', fontSize: '13px' }}>{row.error}</span>
+                    ) : (
+                      <span style={{ color: '#6b7280' }}>—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,41 @@
 import { Link } from 'react-router-dom'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { OrdersAPI } from '../services/orders-api'
+import { useSystem } from '../providers/system-provider'
+
+const STATUS_BADGES: Record<string, string> = {
+  approved: 'badge-success',
+  fulfilled: 'badge-success',
+  needs_review: 'badge-warning',
+  modified: 'badge-warning',
+  rejected: 'badge-danger',
+  error: 'badge-danger'
+}
 
 export function Dashboard() {
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<Awaited<ReturnType<typeof OrdersAPI.getOrderStats>>>({
     total: 0,
-    by_status: {} as Record<string, number>,
+    by_status: {},
     avg_confidence: 0,
     recent_count: 0
   })
   const [isLoading, setIsLoading] = useState(true)
+  const { state, dispatch } = useSystem()
+
+  const recentOrders = useMemo(() => {
+    return Array.from(state.orders.values())
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, 8)
+  }, [state.orders])
+
+  // Seed the live order list; realtime events keep it current from here
+  useEffect(() => {
+    OrdersAPI.getOrders({ limit: 20 })
+      .then(({ orders }) => orders.forEach(order => dispatch({ type: 'ORDER_RECEIVED', payload: order })))
+      .catch(error => console.error('Failed to load recent orders:', error))
+  }, [])
 
+  // Refresh stats whenever an order arrives or changes
   useEffect(() => {
     const loadStats = async () => {
       try {
@@ -24,7 +49,7 @@ export function Dashboard() {
     }
     
     loadStats()
-  }, [])
+  }, [state.orders])
 
   return (
     <div className="container" style={{ maxWidth: '1200px', margin: '0 auto', padding: '24px' }}>
@@ -75,6 +100,14 @@ export function Dashboard() {
                 <p style={{ color: '#15803d' }}>
                   Avg Confidence: <span style={{ fontWeight: 'bold' }}>{(stats.avg_confidence * 100).toFixed(1)}%</span>
                 </p>
+                {stats.order_value && (
+                  <p style={{ color: '#15803d' }}>
+                    Approved Value: <span style={{ fontWeight: 'bold' }}>
+                      {stats.order_value.approved.toLocaleString(undefined, { style: 'currency', currency: stats.order_value.currency })}
+                    </span>
+                    {' '}• Pending: {stats.order_value.pending.toLocaleString(undefined, { style: 'currency', currency: stats.order_value.currency })}
+                  </p>
+                )}
                 {stats.by_status.needs_review > 0 && (
                   <p style={{ color: '#ea580c' }}>
                     ⚠️ {stats.by_status.needs_review} orders need review
@@ -86,6 +119,57 @@ export function Dashboard() {
         </div>
       </div>
 
+      <div className="card">
+        <div className="flex-between" style={{ marginBottom: '16px' }}>
+          <h2 style={{ margin: 0 }}>Live Activity</h2>
+          <span className={`badge ${state.realtime_status === 'open' ? 'badge-success' : 'badge-warning'}`}>
+            {state.realtime_status === 'open' ? '● Live' : state.realtime_status === 'connecting' ? 'Connecting…' : 'Reconnecting…'}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2">
+          <div>
+            <h3>Processing Queue</h3>
+            {state.validation_queue.length === 0 ? (
+              <p style={{ color: '#6b7280', fontStyle: 'italic' }}>No emails waiting</p>
+            ) : (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {state.validation_queue.map(job => (
+                  <li key={job.job_id || job.order_id} style={{ padding: '6px 0', borderBottom: '1px solid #f3f4f6' }}>
+                    <span className={`badge ${job.status === 'dead' ? 'badge-danger' : 'badge-info'}`}>{job.status || 'validating'}</span>{' '}
+                    <span style={{ fontFamily: 'monospace', fontSize: '12px' }}>{job.order_id}</span>{' '}
+                    <span style={{ color: job.priority === 'urgent' || job.priority === 'high' ? '#dc2626' : '#6b7280', fontSize: '12px' }}>
+                      {job.priority}
+                    </span>
+                    {job.last_error && (
+                      <div style={{ color: '#dc2626', fontSize: '12px' }}>{job.last_error}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3>Recent Orders</h3>
+            {recentOrders.length === 0 ? (
+              <p style={{ color: '#6b7280', fontStyle: 'italic' }}>No orders yet</p>
+            ) : (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {recentOrders.map(order => (
+                  <li key={order.id} className="flex-between" style={{ padding: '6px 0', borderBottom: '1px solid #f3f4f6' }}>
+                    <Link to={`/orders/${order.id}`}>{order.customer_name || order.customer_email || order.id}</Link>
+                    <span className={`badge ${STATUS_BADGES[order.status] || 'badge-info'}`}>
+                      {order.status.replace('_', ' ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
       <div className="card">
         <h2>System Features</h2>
         <div className="grid grid-cols-3">
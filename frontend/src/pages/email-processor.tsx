@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { OrdersAPI } from '../services/orders-api'
 import type { DatabaseOrder } from '../lib/supabase'
 
@@ -29,6 +30,14 @@ export function EmailProcessor() {
   const [error, setError] = useState<string | null>(null)
   const [savedOrder, setSavedOrder] = useState<DatabaseOrder | null>(null)
 
+  // .eml files are sent as-is; the backend unpacks the MIME body and attachments
+  const handleEmlUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setEmailContent(await file.text())
+    e.target.value = ''
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsProcessing(true)
@@ -98,6 +107,10 @@ export function EmailProcessor() {
               className="form-textarea"
               disabled={isProcessing}
             />
+            <label style={{ fontSize: '13px', color: '#6b7280', marginTop: '8px', display: 'block' }}>
+              Or load a saved email (.eml, attachments included):{' '}
+              <input type="file" accept=".eml,message/rfc822" onChange={handleEmlUpload} disabled={isProcessing} />
+            </label>
           </div>
           
           <button
@@ -134,21 +147,26 @@ export function EmailProcessor() {
                 </p>
               </div>
             </div>
-            <button
-              onClick={async () => {
-                try {
-                  await OrdersAPI.downloadOrderPDF(savedOrder)
-                } catch (error) {
-                  console.error('Failed to download PDF:', error)
-                }
-              }}
-              className="btn btn-primary"
-            >
-              <svg width="16" height="16" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-              </svg>
-              <span>Download PDF</span>
-            </button>
+            <div className="flex gap-2">
+              <Link to={`/orders/${savedOrder.id}`} className="btn btn-secondary">
+                Review Order
+              </Link>
+              <button
+                onClick={async () => {
+                  try {
+                    await OrdersAPI.downloadOrderPDF(savedOrder)
+                  } catch (error) {
+                    console.error('Failed to download PDF:', error)
+                  }
+                }}
+                className="btn btn-primary"
+              >
+                <svg width="16" height="16" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                <span>Download PDF</span>
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -1,23 +1,696 @@
-import { useParams } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import type { FulfillmentPlan, Product, Suggestion } from '@shared/types/core'
+import { OrdersAPI } from '../services/orders-api'
+import { ProductsAPI } from '../services/products-api'
+import { findSourceSpans } from '../lib/source-spans'
+import { useSystem } from '../providers/system-provider'
+import { LoadingSpinner } from '../components/ui/loading-spinner'
+import type { DatabaseOrder, DatabaseStatusHistory } from '../lib/supabase'
+
+interface DraftLineItem {
+  description: string
+  quantity?: number
+  sku?: string
+}
+
+interface OrderDraft {
+  customer_name: string
+  customer_email: string
+  customer_company: string
+  delivery_address: string
+  delivery_date: string
+  urgency: DatabaseOrder['urgency']
+  line_items: DraftLineItem[]
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  customer_name: 'Name',
+  customer_email: 'Email',
+  customer_company: 'Company',
+  delivery_address: 'Address',
+  delivery_date: 'Delivery Date'
+}
+
+// Set by the catalog resolver; meaningless once a reviewer picks another SKU
+const MATCH_FIELDS = ['match', 'resolution', 'ai_sku']
+
+// Status moves the review decision buttons make
+const REVIEW_MOVES: DatabaseOrder['status'][] = ['modified', 'approved', 'rejected']
+
+const HIGHLIGHT = '#fef08a'
+const HIGHLIGHT_ACTIVE = '#fbbf24'
+
+function toDraft(order: DatabaseOrder): OrderDraft {
+  return {
+    customer_name: order.customer_name || '',
+    customer_email: order.customer_email || '',
+    customer_company: order.customer_company || '',
+    delivery_address: order.delivery_address || '',
+    delivery_date: order.delivery_date || '',
+    urgency: order.urgency,
+    line_items: (order.line_items || []).map(item => ({
+      description: item.description || '',
+      quantity: item.quantity,
+      sku: item.sku
+    }))
+  }
+}
 
 export function OrderDetails() {
   const { orderId } = useParams()
+  const { state, dispatch } = useSystem()
+  const actor = state.user_session.email
+  const liveOrder = orderId ? state.orders.get(orderId) : undefined
+
+  const [order, setOrder] = useState<DatabaseOrder | null>(null)
+  const [history, setHistory] = useState<DatabaseStatusHistory[]>([])
+  const [allowed, setAllowed] = useState<DatabaseOrder['status'][]>([])
+  const [plans, setPlans] = useState<FulfillmentPlan[]>([])
+  const [draft, setDraft] = useState<OrderDraft | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeField, setActiveField] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+  const [skuSearch, setSkuSearch] = useState<{ index: number; query: string; results: Product[] } | null>(null)
+
+  useEffect(() => {
+    if (!orderId) return
+
+    const loadOrder = async () => {
+      try {
+        const [loaded, statusHistory, fulfillmentPlans, transitions] = await Promise.all([
+          OrdersAPI.getOrder(orderId),
+          OrdersAPI.getStatusHistory(orderId),
+          OrdersAPI.getFulfillmentPlans(orderId).catch(() => []),
+          OrdersAPI.getAllowedTransitions(orderId).catch(() => [])
+        ])
+        if (!loaded) {
+          setError(`Order ${orderId} not found`)
+          return
+        }
+        setOrder(loaded)
+        setDraft(toDraft(loaded))
+        setHistory(statusHistory)
+        setPlans(fulfillmentPlans)
+        setAllowed(transitions)
+        dispatch({ type: 'ORDER_RECEIVED', payload: loaded })
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load order')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadOrder()
+  }, [orderId])
+
+  // Debounced catalog search for the SKU picker
+  useEffect(() => {
+    if (!skuSearch || skuSearch.query.trim().length < 2) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const { products } = await ProductsAPI.search(skuSearch.query, 8)
+        setSkuSearch(current => current && current.query === skuSearch.query
+          ? { ...current, results: products }
+          : current)
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Product search failed', { id: 'product-search' })
+      }
+    }, 250)
+
+    return () => clearTimeout(timer)
+  }, [skuSearch?.index, skuSearch?.query])
+
+  const spans = useMemo(() => {
+    if (!order || !draft) return []
+    const fields: Record<string, string | undefined> = {
+      customer_name: draft.customer_name,
+      customer_email: draft.customer_email,
+      customer_company: draft.customer_company,
+      delivery_address: draft.delivery_address,
+      delivery_date: draft.delivery_date
+    }
+    draft.line_items.forEach((item, index) => {
+      fields[`line_items.${index}`] = item.description
+    })
+    return findSourceSpans(order.raw_email, fields)
+  }, [order, draft])
+
+  const isDirty = useMemo(() => {
+    return !!order && !!draft && JSON.stringify(toDraft(order)) !== JSON.stringify(draft)
+  }, [order, draft])
+
+  const reload = async (updated: DatabaseOrder) => {
+    setOrder(updated)
+    setDraft(toDraft(updated))
+    setHistory(await OrdersAPI.getStatusHistory(updated.id))
+    setPlans(await OrdersAPI.getFulfillmentPlans(updated.id).catch(() => []))
+    setAllowed(await OrdersAPI.getAllowedTransitions(updated.id).catch(() => []))
+  }
+
+  // Someone else changed the order; keep unsaved edits rather than overwrite them
+  useEffect(() => {
+    if (!liveOrder || !order || liveOrder.updated_at <= order.updated_at) return
+    if (isDirty) {
+      toast('This order was updated elsewhere; saving will overwrite those changes', { icon: '⚠️' })
+      setOrder(liveOrder)
+      return
+    }
+    reload(liveOrder)
+  }, [liveOrder])
+
+  const updateDraft = (changes: Partial<OrderDraft>) => {
+    setDraft(current => current ? { ...current, ...changes } : current)
+  }
+
+  const updateLineItem = (index: number, changes: Partial<DraftLineItem>) => {
+    setDraft(current => current ? {
+      ...current,
+      line_items: current.line_items.map((item, i) => i === index ? { ...item, ...changes } : item)
+    } : current)
+  }
+
+  const handleSave = async () => {
+    if (!order || !draft) return
+    setIsSaving(true)
+    try {
+      const lineItems = draft.line_items.map((item, index) => {
+        const stored = { ...order.line_items[index] }
+        if (stored.sku !== item.sku) MATCH_FIELDS.forEach(field => delete stored[field])
+        return { ...stored, ...item }
+      })
+      // Cleared fields are sent as null so the stored value is removed
+      const updated = await OrdersAPI.saveReviewEdits(order.id, {
+        customer_name: draft.customer_name || null,
+        customer_email: draft.customer_email || null,
+        customer_company: draft.customer_company || null,
+        delivery_address: draft.delivery_address || null,
+        delivery_date: draft.delivery_date || null,
+        urgency: draft.urgency,
+        line_items: lineItems
+      }, actor)
+      await reload(updated)
+      toast.success('Changes saved')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save changes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDecision = async (status: 'approved' | 'rejected') => {
+    if (!order) return
+    setIsSaving(true)
+    try {
+      const updated = await OrdersAPI.changeStatus(order.id, status, actor, rejectReason || undefined)
+      await reload(updated)
+      setRejectReason('')
+      toast.success(status === 'approved' ? 'Order approved' : 'Order rejected')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update status')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDuplicate = async (action: 'merge' | 'dismiss') => {
+    if (!order) return
+    setIsSaving(true)
+    try {
+      const { order: updated } = await OrdersAPI.resolveDuplicate(order.id, action, actor)
+      await reload(updated)
+      toast.success(action === 'merge' ? 'Merged into the original order' : 'Duplicate flag dismissed')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to resolve duplicate')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSuggestion = async (suggestion: Suggestion) => {
+    if (!order) return
+    setIsSaving(true)
+    try {
+      const updated = await OrdersAPI.acceptSuggestion(order.id, suggestion.id, actor)
+      await reload(updated)
+      toast.success(`Quantity changed to ${suggestion.suggested_value}`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept suggestion')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handlePlan = async (plan: FulfillmentPlan) => {
+    if (!order) return
+    setIsSaving(true)
+    try {
+      const { order: updated, shipments } = await OrdersAPI.applyFulfillmentPlan(order.id, plan.id, actor)
+      await reload(updated)
+      toast.success(shipments.length > 0
+        ? `Split into ${shipments.length + 1} shipments`
+        : 'Planned to ship complete')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to apply fulfilment plan')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  if (error || !order || !draft) {
+    return (
+      <div className="container" style={{ maxWidth: '1200px', margin: '0 auto', padding: '24px' }}>
+        <div className="alert alert-error">
+          <p style={{ fontSize: '14px' }}>{error || 'Order not available'}</p>
+        </div>
+        <Link to="/dashboard" className="btn btn-secondary">Back to Dashboard</Link>
+      </div>
+    )
+  }
+
+  const original = order.ai_original
+  const isClosed = order.status === 'rejected' || order.status === 'fulfilled'
+  const adjustments: Suggestion[] = (order.suggestions || [])
+    .filter(suggestion => typeof suggestion === 'object' && suggestion?.type === 'quantity_adjustment')
+
+  const renderEmail = () => {
+    const parts: JSX.Element[] = []
+    let cursor = 0
+    spans.forEach((span, i) => {
+      if (span.start > cursor) {
+        parts.push(<span key={`t${i}`}>{order.raw_email.slice(cursor, span.start)}</span>)
+      }
+      parts.push(
+        <mark
+          key={`m${i}`}
+          title={span.field}
+          onMouseEnter={() => setActiveField(span.field)}
+          onMouseLeave={() => setActiveField(null)}
+          style={{
+            backgroundColor: activeField === span.field ? HIGHLIGHT_ACTIVE : HIGHLIGHT,
+            borderRadius: '4px',
+            padding: '0 2px'
+          }}
+        >
+          {order.raw_email.slice(span.start, span.end)}
+        </mark>
+      )
+      cursor = span.end
+    })
+    parts.push(<span key="rest">{order.raw_email.slice(cursor)}</span>)
+    return parts
+  }
+
+  const fieldStyle = (field: string) => ({
+    outline: activeField === field ? `2px solid ${HIGHLIGHT_ACTIVE}` : undefined,
+    borderRadius: '8px'
+  })
+
+  const renderOriginal = (field: keyof NonNullable<DatabaseOrder['ai_original']>, current: string) => {
+    const value = original?.[field]
+    if (!original || (value || '') === current) return null
+    return (
+      <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+        AI value: <span style={{ fontStyle: 'italic' }}>{String(value || 'empty')}</span>
+      </p>
+    )
+  }
 
   return (
-    <div className="max-w-6xl mx-auto p-6">
-      <div className="bg-white rounded-xl shadow-soft border p-6">
-        <h1 className="text-2xl font-bold text-gray-900 mb-4">
-          Order Details
-        </h1>
-        <p className="text-gray-600">
-          Order ID: {orderId}
-        </p>
-        <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-          <p className="text-yellow-800">
-            🚧 Order details view coming soon...
+    <div className="container" style={{ maxWidth: '1400px', margin: '0 auto', padding: '24px' }}>
+      <div className="card">
+        <div className="flex-between">
+          <div>
+            <h1>Order Review</h1>
+            <p style={{ color: '#6b7280', fontSize: '14px' }}>
+              Order ID: <span style={{ fontFamily: 'monospace' }}>{order.id}</span> •
+              Status: <span style={{ textTransform: 'capitalize' }}>{order.status.replace('_', ' ')}</span> •
+              Confidence: {(order.confidence_score * 100).toFixed(1)}%
+              {order.currency && ` • Billed in ${order.currency}`}
+            </p>
+            {order.source_metadata?.subject && (
+              <p style={{ color: '#6b7280', fontSize: '14px' }}>
+                Received via {order.source}: “{order.source_metadata.subject}”
+                {order.source_metadata.sender_email && ` from ${order.source_metadata.sender_email}`}
+              </p>
+            )}
+            {order.split_from && (
+              <p style={{ color: '#d97706', fontSize: '14px' }}>
+                Backorder of order <Link to={`/orders/${order.split_from}`}>{order.split_from}</Link>
+              </p>
+            )}
+            {order.planned_ship_date && (
+              <p style={{ color: '#6b7280', fontSize: '14px' }}>
+                Planned to ship {new Date(order.planned_ship_date).toLocaleDateString()}
+              </p>
+            )}
+            {order.next_action && (
+              <p style={{ color: '#6b7280', fontSize: '14px' }}>
+                Policy: <span style={{ textTransform: 'capitalize' }}>{order.next_action.type.replace(/_/g, ' ')}</span>
+                {order.next_action.assignee && ` by ${order.next_action.assignee}`} • {order.next_action.description}
+                {order.next_action.rule_id && ` (rule ${order.next_action.rule_id}, v${order.next_action.policy_version})`}
+              </p>
+            )}
+            {order.amends_order_id && (
+              <p style={{ color: '#d97706', fontSize: '14px' }}>
+                Amends order <Link to={`/orders/${order.amends_order_id}`}>{order.amends_order_id}</Link>
+              </p>
+            )}
+          </div>
+          <Link to="/dashboard" className="btn btn-secondary">Back</Link>
+        </div>
+      </div>
+
+      {order.duplicate_of && (
+        <div className="alert alert-warning">
+          <div className="flex-between">
+            <p style={{ fontSize: '14px', fontWeight: 600 }}>
+              Likely a duplicate of order <Link to={`/orders/${order.duplicate_of}`}>{order.duplicate_of}</Link>
+            </p>
+            {!isClosed && (
+              <div className="flex gap-4">
+                <button className="btn btn-secondary" disabled={isSaving} onClick={() => handleDuplicate('dismiss')}>
+                  Not a Duplicate
+                </button>
+                <button className="btn btn-danger" disabled={isSaving || isDirty} onClick={() => handleDuplicate('merge')}>
+                  Merge into Original
+                </button>
+              </div>
+            )}
+          </div>
+          {(order.flags || [])
+            .filter(flag => typeof flag === 'object' && flag?.related_order_id === order.duplicate_of)
+            .map((flag, i) => <p key={i} style={{ fontSize: '13px', marginTop: '8px' }}>{flag.message}</p>)}
+        </div>
+      )}
+
+      {plans.length > 0 && !isClosed && (
+        <div className="alert alert-warning">
+          <p style={{ fontSize: '14px', fontWeight: 600 }}>Not enough stock to ship this order now. Choose how to fulfil it:</p>
+          {plans.map(plan => (
+            <div key={plan.id} className="flex-between" style={{ marginTop: '8px' }}>
+              <p style={{ fontSize: '13px' }}>
+                {plan.description}
+                {plan.meets_requested_date === false && <span className="badge badge-danger" style={{ marginLeft: '8px' }}>Late</span>}
+              </p>
+              <button className="btn btn-secondary" disabled={isSaving || isDirty} onClick={() => handlePlan(plan)}>
+                {plan.type === 'split_order' ? `Split into ${plan.shipments.length} Shipments` : 'Ship Complete'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {adjustments.length > 0 && !isClosed && (
+        <div className="alert alert-info">
+          <p style={{ fontSize: '14px', fontWeight: 600 }}>Suggested quantity changes:</p>
+          {adjustments.map(suggestion => (
+            <div key={suggestion.id} className="flex-between" style={{ marginTop: '8px' }}>
+              <p style={{ fontSize: '13px' }}>
+                {suggestion.reasoning}
+                {suggestion.business_impact === 'high' && <span className="badge badge-warning" style={{ marginLeft: '8px' }}>Large change</span>}
+              </p>
+              <button className="btn btn-secondary" disabled={isSaving || isDirty} onClick={() => handleSuggestion(suggestion)}>
+                Accept
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {order.fallback_used && (
+        <div className="alert alert-warning">
+          <p style={{ fontSize: '14px', fontWeight: 600 }}>
+            AI extraction failed; this order was filled by the rule-based fallback and needs checking.
           </p>
+          <ul style={{ fontSize: '13px', margin: '8px 0 0 16px' }}>
+            {(order.processing_notes || []).map((note, i) => <li key={i}>{note}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2">
+        {/* Raw email with source spans */}
+        <div className="card">
+          <h2>Original Email</h2>
+          <pre style={{
+            whiteSpace: 'pre-wrap',
+            fontFamily: 'inherit',
+            fontSize: '14px',
+            lineHeight: 1.6,
+            backgroundColor: '#f9fafb',
+            borderRadius: '12px',
+            padding: '16px'
+          }}>
+            {renderEmail()}
+          </pre>
+        </div>
+
+        {/* Extracted fields */}
+        <div className="card">
+          <h2>Extracted Fields</h2>
+
+          <h3>Customer</h3>
+          {(['customer_name', 'customer_email', 'customer_company'] as const).map(field => (
+            <div
+              key={field}
+              className="form-group"
+              style={fieldStyle(field)}
+              onMouseEnter={() => setActiveField(field)}
+              onMouseLeave={() => setActiveField(null)}
+            >
+              <label className="form-label">{FIELD_LABELS[field]}</label>
+              <input
+                className="form-input"
+                value={draft[field]}
+                disabled={isClosed}
+                onChange={(e) => updateDraft({ [field]: e.target.value })}
+              />
+              {renderOriginal(field, draft[field])}
+            </div>
+          ))}
+
+          <h3>Delivery</h3>
+          {(['delivery_address', 'delivery_date'] as const).map(field => (
+            <div
+              key={field}
+              className="form-group"
+              style={fieldStyle(field)}
+              onMouseEnter={() => setActiveField(field)}
+              onMouseLeave={() => setActiveField(null)}
+            >
+              <label className="form-label">{FIELD_LABELS[field]}</label>
+              <input
+                className="form-input"
+                value={draft[field]}
+                disabled={isClosed}
+                onChange={(e) => updateDraft({ [field]: e.target.value })}
+              />
+              {renderOriginal(field, draft[field])}
+            </div>
+          ))}
+          <div className="form-group">
+            <label className="form-label">Urgency</label>
+            <select
+              className="form-input"
+              value={draft.urgency}
+              disabled={isClosed}
+              onChange={(e) => updateDraft({ urgency: e.target.value as OrderDraft['urgency'] })}
+            >
+              {['low', 'medium', 'high', 'critical'].map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
+
+      {/* Line items */}
+      <div className="card">
+        <h2>Line Items</h2>
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Description</th>
+              <th>SKU</th>
+              <th>Quantity</th>
+              <th>AI Original</th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.line_items.map((item, index) => {
+              const field = `line_items.${index}`
+              const aiItem = original?.line_items?.[index]
+              return (
+                <tr
+                  key={index}
+                  style={fieldStyle(field)}
+                  onMouseEnter={() => setActiveField(field)}
+                  onMouseLeave={() => setActiveField(null)}
+                >
+                  <td>
+                    <input
+                      className="form-input"
+                      value={item.description}
+                      disabled={isClosed}
+                      onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                    />
+                    {order.line_items[index]?.provenance?.source === 'attachment' && (
+                      <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                        From attachment {order.line_items[index].provenance.attachment_name}
+                      </p>
+                    )}
+                  </td>
+                  <td style={{ position: 'relative' }}>
+                    <input
+                      className="form-input"
+                      style={{ fontFamily: 'monospace' }}
+                      placeholder="Search catalog..."
+                      disabled={isClosed}
+                      value={skuSearch?.index === index ? skuSearch.query : (item.sku || '')}
+                      onFocus={() => setSkuSearch({ index, query: item.sku || item.description, results: [] })}
+                      onChange={(e) => setSkuSearch({ index, query: e.target.value, results: skuSearch?.results || [] })}
+                      onBlur={() => setTimeout(() => setSkuSearch(null), 200)}
+                    />
+                    {skuSearch?.index === index && skuSearch.results.length > 0 && (
+                      <div style={{
+                        position: 'absolute',
+                        zIndex: 10,
+                        left: 0,
+                        right: 0,
+                        backgroundColor: '#fff',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                        maxHeight: '240px',
+                        overflowY: 'auto'
+                      }}>
+                        {skuSearch.results.map(product => (
+                          <div
+                            key={product.product_code}
+                            onMouseDown={() => {
+                              updateLineItem(index, { sku: product.product_code })
+                              setSkuSearch(null)
+                            }}
+                            style={{ padding: '8px 12px', cursor: 'pointer', fontSize: '13px' }}
+                          >
+                            <span style={{ fontFamily: 'monospace', fontWeight: 600 }}>{product.product_code}</span>
+                            {' '}{product.product_name} • {product.price.toLocaleString(undefined, { style: 'currency', currency: 'USD' })} • {product.available_in_stock} in stock
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      className="form-input"
+                      type="number"
+                      min={1}
+                      value={item.quantity ?? ''}
+                      disabled={isClosed}
+                      onChange={(e) => updateLineItem(index, {
+                        quantity: e.target.value ? parseInt(e.target.value) : undefined
+                      })}
+                    />
+                  </td>
+                  <td style={{ fontSize: '12px', color: '#6b7280' }}>
+                    {aiItem
+                      ? `${aiItem.sku || 'no SKU'} × ${aiItem.quantity ?? '?'}`
+                      : order.line_items[index]?.ai_sku
+                        ? `AI suggested ${order.line_items[index].ai_sku}`
+                        : '—'}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Review actions */}
+      {!isClosed && (
+        <div className="card">
+          <h2>Review Decision</h2>
+          <div className="form-group">
+            <label className="form-label">Reason (required to reject)</label>
+            <textarea
+              className="form-textarea"
+              style={{ minHeight: '80px' }}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Why is this order being rejected or approved with changes?"
+            />
+          </div>
+          <div className="flex gap-4">
+            {allowed.includes('modified') && (
+              <button className="btn btn-primary" disabled={!isDirty || isSaving} onClick={handleSave}>
+                Save Changes
+              </button>
+            )}
+            {allowed.includes('approved') && (
+              <button className="btn btn-success" disabled={isDirty || isSaving} onClick={() => handleDecision('approved')}>
+                Approve
+              </button>
+            )}
+            {allowed.includes('rejected') && (
+              <button
+                className="btn btn-danger"
+                disabled={isSaving || !rejectReason.trim()}
+                onClick={() => handleDecision('rejected')}
+              >
+                Reject
+              </button>
+            )}
+          </div>
+          {!REVIEW_MOVES.some(status => allowed.includes(status)) && (
+            <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '8px' }}>
+              No review decision is possible while the order is {order.status.replace('_', ' ')}.
+            </p>
+          )}
+          {isDirty && (
+            <p style={{ fontSize: '12px', color: '#d97706', marginTop: '8px' }}>
+              Save your changes before approving.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Status history */}
+      <div className="card">
+        <h2>Status History</h2>
+        {history.length === 0 ? (
+          <p style={{ color: '#6b7280', fontStyle: 'italic' }}>No status changes recorded</p>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Change</th>
+                <th>Actor</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(entry => (
+                <tr key={entry.id}>
+                  <td>{new Date(entry.created_at).toLocaleString()}</td>
+                  <td>{entry.from_status ? `${entry.from_status} → ` : ''}{entry.to_status}</td>
+                  <td>{entry.actor}</td>
+                  <td>{entry.reason || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   )
-} 
\ No newline at end of file
+}
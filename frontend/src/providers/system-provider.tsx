@@ -3,19 +3,24 @@ import { produce } from 'immer'
 import type { 
   SystemHealth, 
   UIState, 
-  ProcessedOrder, 
   ValidationResult,
   SystemError,
   Notification 
 } from '@shared/types/core'
+import type { DatabaseOrder } from '../lib/supabase'
+import { subscribeToEvents, type RealtimeEvent, type RealtimeStatus } from '../lib/realtime'
+import type { BackgroundJob } from '../services/jobs-api'
 
 // ========================================
 // SYSTEM STATE & ACTIONS
 // ========================================
 
 interface SystemState {
-  orders: Map<string, ProcessedOrder>
+  // Orders loaded or received this session; realtime events keep them current
+  orders: Map<string, DatabaseOrder>
   validation_queue: ValidationJob[]
+  validations: Map<string, ValidationResult>
+  realtime_status: RealtimeStatus
   user_session: UserSession
   system_health: SystemHealth
   ui_state: UIState
@@ -26,6 +31,10 @@ interface ValidationJob {
   priority: 'low' | 'medium' | 'high' | 'urgent'
   created_at: Date
   estimated_completion?: Date
+  // Set for emails queued on the backend job queue
+  job_id?: string
+  status?: BackgroundJob['status']
+  last_error?: string
 }
 
 interface UserSession {
@@ -45,10 +54,13 @@ interface UserPreferences {
 }
 
 type SystemAction = 
-  | { type: 'ORDER_RECEIVED'; payload: ProcessedOrder }
-  | { type: 'ORDER_UPDATED'; payload: { id: string; updates: Partial<ProcessedOrder> } }
+  | { type: 'ORDER_RECEIVED'; payload: DatabaseOrder }
+  | { type: 'ORDER_UPDATED'; payload: { id: string; updates: Partial<DatabaseOrder> } }
+  | { type: 'ORDER_REMOVED'; payload: string }
   | { type: 'VALIDATION_COMPLETED'; payload: ValidationResult }
   | { type: 'VALIDATION_STARTED'; payload: { order_id: string; priority: ValidationJob['priority'] } }
+  | { type: 'JOB_UPDATED'; payload: BackgroundJob }
+  | { type: 'REALTIME_STATUS_CHANGED'; payload: RealtimeStatus }
   | { type: 'UI_STATE_UPDATED'; payload: Partial<UIState> }
   | { type: 'SYSTEM_ERROR'; payload: SystemError }
   | { type: 'NOTIFICATION_ADDED'; payload: Notification }
@@ -63,6 +75,8 @@ type SystemAction =
 const initialSystemState: SystemState = {
   orders: new Map(),
   validation_queue: [],
+  validations: new Map(),
+  realtime_status: 'connecting',
   user_session: {
     user_id: 'demo_user',
     email: 'demo@example.com',
@@ -138,6 +152,11 @@ const systemReducer = (state: SystemState, action: SystemAction): SystemState =>
         }
         break
 
+      case 'ORDER_REMOVED':
+        draft.orders.delete(action.payload)
+        draft.ui_state.pagination.total_items = draft.orders.size
+        break
+
       case 'VALIDATION_STARTED':
         draft.validation_queue.push({
           order_id: action.payload.order_id,
@@ -147,17 +166,34 @@ const systemReducer = (state: SystemState, action: SystemAction): SystemState =>
         break
 
       case 'VALIDATION_COMPLETED':
+        // The status itself only changes when the backend says so (ORDER_UPDATED)
         const orderId = action.payload.order_id
-        const order = draft.orders.get(orderId)
-        if (order) {
-          order.status = action.payload.overall_confidence > 0.8 ? 'approved' : 'needs_review'
-          // Remove from validation queue
-          draft.validation_queue = draft.validation_queue.filter(
-            job => job.order_id !== orderId
-          )
+        draft.validations.set(orderId, action.payload)
+        draft.validation_queue = draft.validation_queue.filter(
+          job => job.order_id !== orderId
+        )
+        break
+
+      case 'JOB_UPDATED':
+        const job = action.payload
+        draft.validation_queue = draft.validation_queue.filter(queued => queued.job_id !== job.id)
+        // Completed jobs show up as ORDER_RECEIVED; failed ones stay visible
+        if (job.status !== 'completed') {
+          draft.validation_queue.push({
+            order_id: job.result?.order_id || job.raw_order_id || job.id,
+            priority: job.priority === 'critical' ? 'urgent' : job.priority,
+            created_at: new Date(job.created_at),
+            job_id: job.id,
+            status: job.status,
+            last_error: job.last_error,
+          })
         }
         break
 
+      case 'REALTIME_STATUS_CHANGED':
+        draft.realtime_status = action.payload
+        break
+
       case 'UI_STATE_UPDATED':
         Object.assign(draft.ui_state, action.payload)
         break
@@ -188,6 +224,35 @@ const systemReducer = (state: SystemState, action: SystemAction): SystemState =>
   })
 }
 
+// ========================================
+// REALTIME EVENTS
+// ========================================
+
+const dispatchRealtimeEvent = (dispatch: React.Dispatch<SystemAction>, event: RealtimeEvent) => {
+  switch (event.type) {
+    case 'order.created':
+      dispatch({ type: 'ORDER_RECEIVED', payload: event.order })
+      break
+
+    case 'order.updated':
+    case 'order.status_changed':
+      dispatch({ type: 'ORDER_UPDATED', payload: { id: event.order.id, updates: event.order } })
+      break
+
+    case 'order.deleted':
+      dispatch({ type: 'ORDER_REMOVED', payload: event.order_id })
+      break
+
+    case 'order.validated':
+      dispatch({ type: 'VALIDATION_COMPLETED', payload: event.validation })
+      break
+
+    case 'job.updated':
+      dispatch({ type: 'JOB_UPDATED', payload: event.job })
+      break
+  }
+}
+
 // ========================================
 // CONTEXT
 // ========================================
@@ -201,8 +266,8 @@ interface SystemContextValue {
   removeNotification: (id: string) => void
   updateUIState: (updates: Partial<UIState>) => void
   updateUserPreferences: (preferences: Partial<UserPreferences>) => void
-  getOrderById: (id: string) => ProcessedOrder | undefined
-  getOrdersByStatus: (status: ProcessedOrder['status']) => ProcessedOrder[]
+  getOrderById: (id: string) => DatabaseOrder | undefined
+  getOrdersByStatus: (status: DatabaseOrder['status']) => DatabaseOrder[]
   getPendingValidationCount: () => number
 }
 
@@ -235,6 +300,14 @@ export const SystemProvider: React.FC<SystemProviderProps> = ({ children }) => {
     return () => clearInterval(timer)
   }, [state.ui_state.notifications])
 
+  // Live order and job events from the backend
+  useEffect(() => {
+    return subscribeToEvents(
+      event => dispatchRealtimeEvent(dispatch, event),
+      status => dispatch({ type: 'REALTIME_STATUS_CHANGED', payload: status })
+    )
+  }, [])
+
   // System health monitoring
   useEffect(() => {
     const healthCheckInterval = setInterval(async () => {
@@ -307,11 +380,11 @@ export const SystemProvider: React.FC<SystemProviderProps> = ({ children }) => {
     dispatch({ type: 'USER_PREFERENCES_UPDATED', payload: preferences })
   }
 
-  const getOrderById = (id: string): ProcessedOrder | undefined => {
+  const getOrderById = (id: string): DatabaseOrder | undefined => {
     return state.orders.get(id)
   }
 
-  const getOrdersByStatus = (status: ProcessedOrder['status']): ProcessedOrder[] => {
+  const getOrdersByStatus = (status: DatabaseOrder['status']): DatabaseOrder[] => {
     return Array.from(state.orders.values()).filter(order => order.status === status)
   }
 
@@ -0,0 +1,64 @@
+import { apiRequest } from '../lib/api-client'
+
+export interface BackgroundJob {
+  id: string
+  priority: 'low' | 'medium' | 'high' | 'critical'
+  status: 'queued' | 'running' | 'retrying' | 'completed' | 'dead'
+  attempts: number
+  max_attempts: number
+  last_error?: string
+  result?: { order_id?: string; duplicate?: boolean }
+  raw_order_id?: string
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
+
+export interface BatchItemOutcome {
+  index: number
+  name: string
+  status: 'queued' | 'duplicate' | 'rejected' | 'completed' | 'failed'
+  job_id?: string
+  order_id?: string
+  message_id?: string
+  error?: string
+}
+
+export interface BatchResult {
+  total: number
+  queued: number
+  completed: number
+  failed: number
+  duplicates: number
+  rejected: number
+  items: BatchItemOutcome[]
+}
+
+export class JobsAPI {
+
+  /**
+   * Queue many emails at once: pasted texts, or a zip/mbox file sent as-is
+   */
+  static async processBatch(batch: { emails: Array<{ name: string; content: string }> } | File): Promise<BatchResult> {
+    if (batch instanceof File) {
+      const contentType = /\.zip$/i.test(batch.name) ? 'application/zip' : 'application/mbox'
+      return apiRequest<BatchResult>('/api/orders/process-batch', {
+        method: 'POST',
+        headers: { 'Content-Type': contentType },
+        body: batch
+      })
+    }
+
+    return apiRequest<BatchResult>('/api/orders/process-batch', {
+      method: 'POST',
+      body: JSON.stringify(batch)
+    })
+  }
+
+  /**
+   * Current state of a queued email
+   */
+  static async getJob(id: string): Promise<BackgroundJob> {
+    return apiRequest<BackgroundJob>(`/api/jobs/${encodeURIComponent(id)}`)
+  }
+}
@@ -1,72 +1,21 @@
-import { supabase, type DatabaseOrder } from '../lib/supabase'
-
-interface EmailProcessingResult {
-  customer_info: {
-    name?: string
-    email?: string
-    phone?: string
-    company?: string
-  }
-  delivery_info: {
-    address?: string
-    delivery_date?: string
-    urgency: 'low' | 'medium' | 'high' | 'critical'
-  }
-  line_items: Array<{
-    description: string
-    quantity?: number
-    sku?: string
-  }>
-  confidence_score: number
-}
+import type { FulfillmentPlan } from '@shared/types/core'
+import type { DatabaseOrder, DatabaseStatusHistory } from '../lib/supabase'
+import { API_BASE_URL, apiRequest } from '../lib/api-client'
 
 export class OrdersAPI {
+
+  private static request<T>(path: string, init?: RequestInit): Promise<T> {
+    return apiRequest<T>(path, init)
+  }
   
   /**
-   * Process email and save to database
+   * Process email and save the resulting order on the backend
    */
   static async processAndSaveEmail(emailContent: string): Promise<DatabaseOrder> {
-    // Step 1: Process email with our AI backend
-    const response = await fetch('http://localhost:3001/api/orders/process-email', {
+    return this.request<DatabaseOrder>('/api/orders', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ email_content: emailContent })
     })
-    
-    if (!response.ok) {
-      throw new Error('Failed to process email')
-    }
-    
-    const { data: result }: { data: EmailProcessingResult } = await response.json()
-    
-    // Step 2: Save to Supabase
-    const orderData = {
-      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      raw_email: emailContent,
-      customer_name: result.customer_info.name,
-      customer_email: result.customer_info.email,
-      customer_company: result.customer_info.company,
-      delivery_address: result.delivery_info.address,
-      delivery_date: result.delivery_info.delivery_date,
-      urgency: result.delivery_info.urgency,
-      line_items: result.line_items,
-      confidence_score: result.confidence_score,
-      status: result.confidence_score > 0.8 ? 'ai_parsed' : 'needs_review' as const,
-      flags: result.confidence_score < 0.6 ? ['low_confidence'] : [],
-      suggestions: []
-    }
-
-    const { data: savedOrder, error } = await supabase
-      .from('orders')
-      .insert(orderData)
-      .select()
-      .single()
-
-    if (error) {
-      throw new Error(`Failed to save order: ${error.message}`)
-    }
-
-    return savedOrder
   }
 
   /**
@@ -77,50 +26,32 @@ export class OrdersAPI {
     limit?: number
     offset?: number
   }): Promise<{ orders: DatabaseOrder[], total: number }> {
-    let query = supabase
-      .from('orders')
-      .select('*', { count: 'exact' })
-      .order('created_at', { ascending: false })
-
-    if (filters?.status) {
-      query = query.eq('status', filters.status)
-    }
-
-    if (filters?.limit) {
-      query = query.limit(filters.limit)
-    }
-
-    if (filters?.offset) {
-      query = query.range(filters.offset, filters.offset + (filters.limit || 10) - 1)
-    }
-
-    const { data: orders, error, count } = await query
+    const params = new URLSearchParams()
 
-    if (error) {
-      throw new Error(`Failed to fetch orders: ${error.message}`)
-    }
+    if (filters?.status) params.set('status', filters.status)
+    if (filters?.limit) params.set('limit', String(filters.limit))
+    if (filters?.offset) params.set('offset', String(filters.offset))
 
-    return { orders: orders || [], total: count || 0 }
+    const query = params.toString()
+    return this.request(`/api/orders${query ? `?${query}` : ''}`)
   }
 
   /**
    * Get single order by ID
    */
   static async getOrder(id: string): Promise<DatabaseOrder | null> {
-    const { data: order, error } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('id', id)
-      .single()
+    const response = await fetch(`${API_BASE_URL}/api/orders/${encodeURIComponent(id)}`)
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return null // Order not found
-      }
-      throw new Error(`Failed to fetch order: ${error.message}`)
+    if (response.status === 404) {
+      return null // Order not found
+    }
+
+    const body = await response.json()
+    if (!response.ok || !body.success) {
+      throw new Error(`Failed to fetch order: ${body.error?.message || response.statusText}`)
     }
 
-    return order
+    return body.data
   }
 
   /**
@@ -129,38 +60,117 @@ export class OrdersAPI {
   static async updateOrderStatus(
     id: string, 
     status: DatabaseOrder['status'],
-    updates?: Partial<Pick<DatabaseOrder, 'flags' | 'suggestions'>>
+    updates?: Partial<Pick<DatabaseOrder, 'suggestions'>>
   ): Promise<DatabaseOrder> {
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({ 
-        status, 
-        ...updates,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single()
+    return this.request<DatabaseOrder>(`/api/orders/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status, ...updates })
+    })
+  }
 
-    if (error) {
-      throw new Error(`Failed to update order: ${error.message}`)
-    }
+  /**
+   * Move an order through the lifecycle (approve, reject, ...) as a named actor
+   */
+  static async changeStatus(
+    id: string,
+    status: DatabaseOrder['status'],
+    actor: string,
+    reason?: string
+  ): Promise<DatabaseOrder> {
+    return this.request<DatabaseOrder>(`/api/orders/${encodeURIComponent(id)}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status, actor, reason })
+    })
+  }
+
+  /**
+   * Save reviewer edits; the backend keeps the AI values and marks the order modified
+   */
+  static async saveReviewEdits(
+    id: string,
+    // null clears a field
+    changes: {
+      [K in 'customer_name' | 'customer_email' | 'customer_company' | 'delivery_address' | 'delivery_date' | 'urgency' | 'line_items']?:
+        DatabaseOrder[K] | null
+    },
+    actor: string
+  ): Promise<DatabaseOrder> {
+    return this.request<DatabaseOrder>(`/api/orders/${encodeURIComponent(id)}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ changes, actor })
+    })
+  }
+
+  /**
+   * Settle a suspected duplicate: merge it into the original (rejecting it) or dismiss the flag
+   */
+  static async resolveDuplicate(
+    id: string,
+    action: 'merge' | 'dismiss',
+    actor: string
+  ): Promise<{ order: DatabaseOrder, original?: DatabaseOrder }> {
+    return this.request(`/api/orders/${encodeURIComponent(id)}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify({ action, actor })
+    })
+  }
+
+  /**
+   * Ways to ship an order whose stock is short; empty when everything is available
+   */
+  static async getFulfillmentPlans(id: string): Promise<FulfillmentPlan[]> {
+    return this.request<FulfillmentPlan[]>(`/api/orders/${encodeURIComponent(id)}/fulfillment-plans`)
+  }
+
+  /**
+   * Pick a fulfilment plan; a split returns the new backorder orders as `shipments`
+   */
+  static async applyFulfillmentPlan(
+    id: string,
+    planId: string,
+    actor: string
+  ): Promise<{ order: DatabaseOrder, shipments: DatabaseOrder[] }> {
+    return this.request(`/api/orders/${encodeURIComponent(id)}/fulfillment-plan`, {
+      method: 'POST',
+      body: JSON.stringify({ plan_id: planId, actor })
+    })
+  }
+
+  /**
+   * Accept a suggested change (quantity adjustments); the order moves to modified
+   */
+  static async acceptSuggestion(id: string, suggestionId: string, actor: string): Promise<DatabaseOrder> {
+    return this.request<DatabaseOrder>(
+      `/api/orders/${encodeURIComponent(id)}/suggestions/${encodeURIComponent(suggestionId)}/accept`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ actor })
+      }
+    )
+  }
 
-    return order
+  /**
+   * Get the status history of an order
+   */
+  static async getStatusHistory(id: string): Promise<DatabaseStatusHistory[]> {
+    return this.request<DatabaseStatusHistory[]>(`/api/orders/${encodeURIComponent(id)}/history`)
+  }
+
+  /**
+   * Statuses the order may move to next
+   */
+  static async getAllowedTransitions(id: string): Promise<DatabaseOrder['status'][]> {
+    const { allowed } = await this.request<{ status: DatabaseOrder['status'], allowed: DatabaseOrder['status'][] }>(
+      `/api/orders/${encodeURIComponent(id)}/transitions`
+    )
+    return allowed
   }
 
   /**
    * Delete order
    */
   static async deleteOrder(id: string): Promise<void> {
-    const { error } = await supabase
-      .from('orders')
-      .delete()
-      .eq('id', id)
-
-    if (error) {
-      throw new Error(`Failed to delete order: ${error.message}`)
-    }
+    await this.request(`/api/orders/${encodeURIComponent(id)}`, { method: 'DELETE' })
   }
 
   /**
@@ -171,45 +181,16 @@ export class OrdersAPI {
     by_status: Record<string, number>
     avg_confidence: number
     recent_count: number
+    order_value?: { approved: number, pending: number, currency: string }
   }> {
-    // Get all orders
-    const { data: orders, error } = await supabase
-      .from('orders')
-      .select('status, confidence_score, created_at')
-
-    if (error) {
-      throw new Error(`Failed to fetch order stats: ${error.message}`)
-    }
-
-    const stats = {
-      total: orders?.length || 0,
-      by_status: {} as Record<string, number>,
-      avg_confidence: 0,
-      recent_count: 0
-    }
-
-    if (orders && orders.length > 0) {
-      // Count by status
-      for (const order of orders) {
-        stats.by_status[order.status] = (stats.by_status[order.status] || 0) + 1
-      }
-
-      // Average confidence
-      stats.avg_confidence = orders.reduce((sum, order) => sum + order.confidence_score, 0) / orders.length
-
-      // Recent orders (last 24 hours)
-      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-      stats.recent_count = orders.filter(order => order.created_at > dayAgo).length
-    }
-
-    return stats
+    return this.request('/api/orders/stats')
   }
 
   /**
    * Generate PDF for an order
    */
   static async generateOrderPDF(order: DatabaseOrder): Promise<Blob> {
-    const response = await fetch('http://localhost:3001/api/orders/generate-pdf', {
+    const response = await fetch(`${API_BASE_URL}/api/orders/generate-pdf`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
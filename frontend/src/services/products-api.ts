@@ -0,0 +1,26 @@
+import type { Product } from '@shared/types/core'
+import { apiRequest } from '../lib/api-client'
+
+export interface ProductSearchResult {
+  products: Product[]
+  total: number
+  confidence_scores: number[]
+}
+
+export class ProductsAPI {
+
+  /**
+   * Search the catalog by SKU, name or description
+   */
+  static async search(query: string, limit: number = 10): Promise<ProductSearchResult> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) })
+    return apiRequest<ProductSearchResult>(`/api/products/search?${params}`)
+  }
+
+  /**
+   * Get a single product by SKU
+   */
+  static async getProduct(sku: string): Promise<Product> {
+    return apiRequest<Product>(`/api/products/${encodeURIComponent(sku)}`)
+  }
+}
@@ -47,6 +47,8 @@ export interface ValidationFlag {
   field_path: string;
   suggested_action: string;
   auto_fixable: boolean;
+  // Another order the flag is about, e.g. the original of a suspected duplicate
+  related_order_id?: string;
 }
 
 export interface Suggestion {
@@ -57,8 +59,15 @@ export interface Suggestion {
   original_value: any;
   suggested_value: any;
   business_impact: 'none' | 'low' | 'medium' | 'high';
+  // Field the suggestion changes, e.g. line_items[0].quantity
+  field_path?: string;
+  // Policy allows applying it without a reviewer
+  auto_fixable?: boolean;
+  adjustment?: QuantityAdjustmentKind;
 }
 
+export type QuantityAdjustmentKind = 'moq_round_up' | 'pack_multiple' | 'stock_cap' | 'price_break';
+
 // ========================================
 // ORDER PROCESSING TYPES
 // ========================================
@@ -107,9 +116,15 @@ export interface LineItem {
   quantity?: number;
   quantity_unit?: string;
   special_notes?: string;
+  provenance?: LineItemProvenance;
   confidence: ConfidenceVector;
 }
 
+export interface LineItemProvenance {
+  source: 'body' | 'attachment';
+  attachment_name?: string;
+}
+
 export interface ProcessedOrder {
   id: string;
   raw_order: RawOrder;
@@ -209,12 +224,16 @@ export interface ValidationResult {
   estimated_total: number;
   currency: string;
   next_actions: NextAction[];
+  // Ways to ship the order when stock is short
+  fulfillment_plans?: FulfillmentPlan[];
 }
 
 export interface InvalidLineItem extends LineItem {
   validation_errors: ValidationError[];
   suggested_alternatives: Product[];
   resolution_options: ResolutionOption[];
+  // Set when the item matched a catalog product
+  inventory_check?: InventoryStatus;
 }
 
 export interface ValidationError {
@@ -230,6 +249,27 @@ export interface ResolutionOption {
   confidence: number;
   business_impact: string;
   implementation_cost: 'low' | 'medium' | 'high';
+  // Fulfilment plan behind a split_order/backorder option
+  plan_id?: string;
+}
+
+export interface FulfillmentPlan {
+  id: string;
+  type: 'split_order' | 'backorder';
+  description: string;
+  shipments: PlannedShipment[];
+  estimated_completion_date: Date;
+  // Unset when the customer asked for no (readable) delivery date
+  meets_requested_date?: boolean;
+}
+
+export interface PlannedShipment {
+  sequence: number;
+  ship_date: Date;
+  estimated_delivery_date: Date;
+  // Waits for restocked units
+  backorder: boolean;
+  lines: Array<{ sku: string; quantity: number }>;
 }
 
 export interface NextAction {
@@ -238,6 +278,9 @@ export interface NextAction {
   description: string;
   assignee?: string;
   due_date?: Date;
+  // Approval policy rule that decided it, and the policy version
+  rule_id?: string;
+  policy_version?: number;
 }
 
 // ========================================
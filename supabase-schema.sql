@@ -13,9 +13,23 @@ CREATE TABLE IF NOT EXISTS orders (
     urgency TEXT CHECK (urgency IN ('low', 'medium', 'high', 'critical')) DEFAULT 'medium',
     line_items JSONB NOT NULL DEFAULT '[]',
     confidence_score REAL NOT NULL DEFAULT 0,
-    status TEXT CHECK (status IN ('received', 'processing', 'ai_parsed', 'validating', 'needs_review', 'approved', 'rejected')) DEFAULT 'received',
+    confidence_vectors JSONB,
+    status TEXT CHECK (status IN ('received', 'processing', 'ai_parsed', 'validating', 'needs_review', 'approved', 'rejected', 'modified', 'fulfilled', 'error')) DEFAULT 'received',
     flags JSONB NOT NULL DEFAULT '[]',
     suggestions JSONB NOT NULL DEFAULT '[]',
+    ai_original JSONB,
+    processing_notes JSONB NOT NULL DEFAULT '[]',
+    fallback_used BOOLEAN NOT NULL DEFAULT FALSE,
+    source TEXT CHECK (source IN ('api', 'forward', 'manual', 'webhook')),
+    message_id TEXT UNIQUE,
+    source_metadata JSONB,
+    amends_order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+    customer_id UUID,
+    duplicate_of TEXT REFERENCES orders(id) ON DELETE SET NULL,
+    currency TEXT,
+    split_from TEXT REFERENCES orders(id) ON DELETE SET NULL,
+    planned_ship_date DATE,
+    next_action JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -42,8 +56,15 @@ CREATE TABLE IF NOT EXISTS customers (
     company TEXT,
     phone TEXT,
     address TEXT,
+    domain TEXT,
+    aliases JSONB NOT NULL DEFAULT '[]',
+    typical_products JSONB NOT NULL DEFAULT '[]',
     order_count INTEGER DEFAULT 0,
     total_spent REAL DEFAULT 0,
+    last_order_at TIMESTAMP WITH TIME ZONE,
+    currency TEXT,
+    tax_exempt BOOLEAN NOT NULL DEFAULT FALSE,
+    tax_id TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -59,6 +80,85 @@ CREATE TABLE IF NOT EXISTS order_validations (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Order status history (every lifecycle transition with actor and reason)
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id TEXT REFERENCES orders(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Stock ledger: on hand = catalog stock + receipts - shipments + adjustments,
+-- reserved = reservations - releases, available to promise = on hand - reserved
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sku TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('receipt', 'reservation', 'release', 'shipment', 'adjustment')),
+    quantity INTEGER NOT NULL,
+    order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+    actor TEXT,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE VIEW stock_balances AS
+SELECT
+    sku,
+    SUM(CASE type WHEN 'receipt' THEN quantity WHEN 'adjustment' THEN quantity WHEN 'shipment' THEN -quantity ELSE 0 END) AS on_hand_change,
+    SUM(CASE type WHEN 'reservation' THEN quantity WHEN 'release' THEN -quantity ELSE 0 END) AS reserved
+FROM stock_movements
+GROUP BY sku;
+
+-- Existing databases: AI values kept for comparison after reviewer edits
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS ai_original JSONB;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS confidence_vectors JSONB;
+
+-- Existing databases: extraction trail (schema repairs, fallback)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS processing_notes JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fallback_used BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Existing databases: ingestion source and Message-ID dedupe
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS source TEXT CHECK (source IN ('api', 'forward', 'manual', 'webhook'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS message_id TEXT UNIQUE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS source_metadata JSONB;
+
+-- Existing databases: amendment emails link back to the order they change
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS amends_order_id TEXT REFERENCES orders(id) ON DELETE SET NULL;
+
+-- Customer matching (orders are linked once the sender is recognised)
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS domain TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS aliases JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS typical_products JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS last_order_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_id UUID;
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_customer_id_fkey;
+ALTER TABLE orders ADD CONSTRAINT orders_customer_id_fkey
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL;
+
+-- Existing databases: suspected duplicates link to the order they repeat
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS duplicate_of TEXT REFERENCES orders(id) ON DELETE SET NULL;
+
+-- Existing databases: billing currency and tax status
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tax_id TEXT;
+
+-- Existing databases: backorder shipments split from an order, planned ship dates
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS split_from TEXT REFERENCES orders(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS planned_ship_date DATE;
+
+-- Existing databases: approval policy decision
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS next_action JSONB;
+
+-- Existing databases: widen the status constraint to all lifecycle states
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+    CHECK (status IN ('received', 'processing', 'ai_parsed', 'validating', 'needs_review', 'approved', 'rejected', 'modified', 'fulfilled', 'error'));
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
@@ -66,6 +166,13 @@ CREATE INDEX IF NOT EXISTS idx_orders_customer_email ON orders(customer_email);
 CREATE INDEX IF NOT EXISTS idx_orders_confidence ON orders(confidence_score);
 CREATE INDEX IF NOT EXISTS idx_products_category ON products(category_code);
 CREATE INDEX IF NOT EXISTS idx_customers_email ON customers(email);
+CREATE INDEX IF NOT EXISTS idx_customers_domain ON customers(domain);
+CREATE INDEX IF NOT EXISTS idx_orders_customer ON orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_duplicate_of ON orders(duplicate_of);
+CREATE INDEX IF NOT EXISTS idx_orders_split_from ON orders(split_from);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_sku ON stock_movements(sku, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON stock_movements(order_id);
 
 -- RLS (Row Level Security) policies
 -- Enable RLS
@@ -73,12 +180,16 @@ ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE order_validations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
 
 -- Allow all operations for authenticated users (adjust as needed)
 CREATE POLICY "Allow all for authenticated users" ON orders FOR ALL TO authenticated USING (true);
 CREATE POLICY "Allow all for authenticated users" ON products FOR ALL TO authenticated USING (true);
 CREATE POLICY "Allow all for authenticated users" ON customers FOR ALL TO authenticated USING (true);
 CREATE POLICY "Allow all for authenticated users" ON order_validations FOR ALL TO authenticated USING (true);
+CREATE POLICY "Allow all for authenticated users" ON order_status_history FOR ALL TO authenticated USING (true);
+CREATE POLICY "Allow all for authenticated users" ON stock_movements FOR ALL TO authenticated USING (true);
 
 -- Allow read access for anonymous users (for demo purposes)
 CREATE POLICY "Allow read for anonymous" ON orders FOR SELECT TO anon USING (true);
@@ -93,6 +204,76 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Reserve stock for an order, all lines or none. p_lines is
+-- [{ sku, quantity, opening_stock }]; each SKU is locked (in a fixed order, so
+-- concurrent approvals cannot deadlock) until the transaction ends, so two
+-- approvals can never both take the last units.
+CREATE OR REPLACE FUNCTION reserve_stock(p_order_id TEXT, p_lines JSONB, p_actor TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    line RECORD;
+    available INTEGER;
+    held INTEGER;
+    shortages JSONB := '[]';
+    movements JSONB := '[]';
+    inserted stock_movements;
+BEGIN
+    -- One reservation per order at a time; SKUs (new lines and those the order holds) locked in a fixed order
+    PERFORM pg_advisory_xact_lock(hashtext('order:' || p_order_id));
+    FOR line IN
+        SELECT l.sku FROM jsonb_to_recordset(p_lines) AS l(sku TEXT)
+        UNION
+        SELECT m.sku FROM stock_movements m WHERE m.order_id = p_order_id
+        ORDER BY 1
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtext('stock:' || line.sku));
+    END LOOP;
+
+    -- What the order already holds is released in the same step, so it counts as available
+    FOR line IN
+        SELECT * FROM jsonb_to_recordset(p_lines) AS l(sku TEXT, quantity INTEGER, opening_stock INTEGER)
+    LOOP
+        SELECT line.opening_stock + COALESCE(b.on_hand_change, 0) - COALESCE(b.reserved, 0)
+            INTO available
+            FROM (SELECT 1) AS one LEFT JOIN stock_balances b ON b.sku = line.sku;
+        SELECT COALESCE(SUM(CASE type WHEN 'reservation' THEN quantity WHEN 'release' THEN -quantity ELSE 0 END), 0)
+            INTO held
+            FROM stock_movements WHERE order_id = p_order_id AND sku = line.sku;
+        available := available + held;
+        IF line.quantity > available THEN
+            shortages := shortages || jsonb_build_object('sku', line.sku, 'requested', line.quantity, 'available', GREATEST(available, 0));
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(shortages) > 0 THEN
+        RETURN jsonb_build_object('movements', '[]'::jsonb, 'shortages', shortages);
+    END IF;
+
+    FOR line IN
+        SELECT sku, SUM(CASE type WHEN 'reservation' THEN quantity WHEN 'release' THEN -quantity ELSE 0 END) AS quantity
+        FROM stock_movements WHERE order_id = p_order_id
+        GROUP BY sku
+        HAVING SUM(CASE type WHEN 'reservation' THEN quantity WHEN 'release' THEN -quantity ELSE 0 END) > 0
+    LOOP
+        INSERT INTO stock_movements (sku, type, quantity, order_id, actor, note)
+            VALUES (line.sku, 'release', line.quantity, p_order_id, p_actor, 'Replaced by a new reservation')
+            RETURNING * INTO inserted;
+        movements := movements || to_jsonb(inserted);
+    END LOOP;
+
+    FOR line IN
+        SELECT * FROM jsonb_to_recordset(p_lines) AS l(sku TEXT, quantity INTEGER, opening_stock INTEGER)
+    LOOP
+        INSERT INTO stock_movements (sku, type, quantity, order_id, actor)
+            VALUES (line.sku, 'reservation', line.quantity, p_order_id, p_actor)
+            RETURNING * INTO inserted;
+        movements := movements || to_jsonb(inserted);
+    END LOOP;
+
+    RETURN jsonb_build_object('movements', movements, 'shortages', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql;
+
 -- Triggers for updated_at
 CREATE TRIGGER update_orders_updated_at BEFORE UPDATE ON orders 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();